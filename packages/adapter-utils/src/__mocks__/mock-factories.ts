@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Mock factory functions for creating test data
+ */
+
+import type { TestCaseMeta, ViewportMap } from "@visnap/protocol";
+
+/**
+ * Creates a mock story object
+ */
+export function createMockStory(
+  overrides: Partial<TestCaseMeta> = {}
+): TestCaseMeta {
+  return {
+    id: "button-primary",
+    title: "Primary Button",
+    kind: "story",
+    visualTesting: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock viewport configuration
+ */
+export function createMockViewportMap(
+  overrides: Partial<ViewportMap> = {}
+): ViewportMap {
+  return {
+    default: { width: 1024, height: 768 },
+    mobile: { width: 375, height: 667 },
+    tablet: { width: 768, height: 1024 },
+    ...overrides,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Test utility functions for adapter-utils tests
+ */
+
+import { vi, type Mock } from "vitest";
+
+/**
+ * Mock HTTP server returned by `createMockServer`
+ */
+export interface MockServer {
+  listen: Mock;
+  close: Mock;
+  once: Mock;
+  off: Mock;
+}
+
+/**
+ * Creates a mock HTTP server
+ */
+export function createMockServer(): MockServer {
+  return {
+    listen: vi
+      .fn()
+      .mockImplementation((_port: number, callback: () => void) => {
+        // Default implementation calls callback immediately
+        setTimeout(callback, 0);
+      }),
+    close: vi.fn().mockImplementation((callback: () => void) => {
+      callback();
+    }),
+    once: vi.fn(),
+    off: vi.fn(),
+  };
+}
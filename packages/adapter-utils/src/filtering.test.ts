@@ -1,11 +1,41 @@
 // import type { TestCaseMeta, ViewportMap } from "@visnap/protocol";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 
 import {
   createMockStory,
   createMockViewportMap,
 } from "./__mocks__/mock-factories";
-import { createTestCaseFilter, normalizeStories } from "./filtering";
+import {
+  createTestCaseFilter,
+  normalizeStories,
+  resolveStoryTags,
+} from "./filtering";
+import type { StoryParamValue, StoryVariant } from "./variants";
+
+/**
+ * Builds Storybook-like iframe URLs, rejecting string values with characters
+ * other than letters, digits, spaces, "_" and "-".
+ */
+function buildTestUrl(
+  baseUrl: string,
+  storyId: string,
+  variant: StoryVariant
+): string {
+  const encode = (params: Record<string, StoryParamValue>) =>
+    Object.entries(params)
+      .map(([key, value]) => {
+        if (typeof value === "string" && !/^[\w -]*$/.test(value)) {
+          throw new Error(`Cannot encode "${key}" as a URL parameter`);
+        }
+        return `${key}:${String(value)}`;
+      })
+      .join(";");
+
+  let url = `${baseUrl}/iframe.html?id=${storyId}`;
+  if (variant.args) url += `&args=${encode(variant.args)}`;
+  if (variant.globals) url += `&globals=${encode(variant.globals)}`;
+  return url;
+}
 
 describe("filtering", () => {
   describe("createTestCaseFilter", () => {
@@ -112,6 +142,46 @@ describe("filtering", () => {
     });
   });
 
+  describe("resolveStoryTags", () => {
+    it("should drop tags negated by a later entry", () => {
+      expect(
+        resolveStoryTags(["dev", "visual", "autodocs", "!visual", "!missing"])
+      ).toEqual(["dev", "autodocs"]);
+    });
+
+    it("should ignore non-string entries and missing tags", () => {
+      expect(resolveStoryTags(["visual", 1, "", null])).toEqual(["visual"]);
+      expect(resolveStoryTags(undefined)).toEqual([]);
+    });
+  });
+
+  describe("createTestCaseFilter with tags", () => {
+    it("should require one of the included tags", () => {
+      const filter = createTestCaseFilter({ includeTags: ["visual", "smoke"] });
+
+      expect(filter(createMockStory({ tags: ["dev", "smoke"] }))).toBe(true);
+      expect(filter(createMockStory({ tags: ["dev"] }))).toBe(false);
+      expect(filter(createMockStory({ tags: undefined }))).toBe(false);
+    });
+
+    it("should drop stories with an excluded tag", () => {
+      const filter = createTestCaseFilter({
+        include: "button*",
+        excludeTags: "flaky",
+      });
+
+      expect(filter(createMockStory({ id: "button-a", tags: ["dev"] }))).toBe(
+        true
+      );
+      expect(
+        filter(createMockStory({ id: "button-b", tags: ["dev", "flaky"] }))
+      ).toBe(false);
+      expect(filter(createMockStory({ id: "input-a", tags: ["dev"] }))).toBe(
+        false
+      );
+    });
+  });
+
   describe("normalizeStories", () => {
     const mockStories = {
       "button-primary": {
@@ -122,6 +192,8 @@ describe("filtering", () => {
             skip: false,
             screenshotTarget: "#button",
             threshold: 0.1,
+            maxDiffPercentage: 0.5,
+            maxDiffPixels: 20,
           },
         },
       },
@@ -152,6 +224,14 @@ describe("filtering", () => {
             skip: false,
             disableCSSInjection: true,
             elementsToMask: [".sticky"],
+            ignoreRegions: [{ selector: ".clock" }],
+            clip: { x: 0, y: 0, width: 200, height: 100 },
+            captureTimeoutMs: 60000,
+            routes: [{ url: "**/api/user", json: { name: "Ada" } }],
+            har: { path: "fixtures/button.har" },
+            determinism: false,
+            waitFor: 300,
+            readiness: { images: true, domStableMs: 100 },
           },
         },
       },
@@ -176,8 +256,31 @@ describe("filtering", () => {
       baseUrl: "http://localhost:4477",
       viewportKeys: ["default", "mobile"],
       globalViewport: createMockViewportMap(),
+      kind: "story",
+      screenshotTarget: "#storybook-root",
+      buildUrl: buildTestUrl,
     };
 
+    it("should use custom kind, screenshot target and URL builder", () => {
+      const result = normalizeStories(mockStories, {
+        ...defaultOptions,
+        viewportKeys: ["default"],
+        kind: "ladle-story",
+        screenshotTarget: ".ladle-main",
+        buildUrl: (baseUrl, storyId, variant) =>
+          `${baseUrl}/?story=${storyId}&variant=${variant.name}`,
+      });
+
+      expect(result.find(r => r.caseId === "input-text")).toMatchObject({
+        kind: "ladle-story",
+        screenshotTarget: ".ladle-main",
+        url: "http://localhost:4477/?story=input-text&variant=",
+      });
+      expect(
+        result.find(r => r.caseId === "button-primary")?.screenshotTarget
+      ).toBe("#button");
+    });
+
     it("should normalize stories and create instances", () => {
       const result = normalizeStories(mockStories, defaultOptions);
 
@@ -193,6 +296,8 @@ describe("filtering", () => {
       );
       expect(buttonPrimary?.screenshotTarget).toBe("#button");
       expect(buttonPrimary?.threshold).toBe(0.1);
+      expect(buttonPrimary?.maxDiffPercentage).toBe(0.5);
+      expect(buttonPrimary?.maxDiffPixels).toBe(20);
       expect(buttonPrimary?.viewport).toEqual({ width: 1024, height: 768 });
 
       // ensure elementsToMask propagates when provided
@@ -200,6 +305,63 @@ describe("filtering", () => {
         r => r.caseId === "button-with-css-disable" && r.variantId === "default"
       );
       expect(cssDisabled?.elementsToMask).toEqual([".sticky"]);
+      expect(cssDisabled?.ignoreRegions).toEqual([{ selector: ".clock" }]);
+      expect(cssDisabled?.routes).toEqual([
+        { url: "**/api/user", json: { name: "Ada" } },
+      ]);
+      expect(cssDisabled?.har).toEqual({ path: "fixtures/button.har" });
+      expect(cssDisabled?.determinism).toBe(false);
+      expect(cssDisabled?.waitFor).toBe(300);
+      expect(cssDisabled?.readiness).toEqual({
+        images: true,
+        domStableMs: 100,
+      });
+      expect(cssDisabled?.clip).toEqual({
+        x: 0,
+        y: 0,
+        width: 200,
+        height: 100,
+      });
+      expect(cssDisabled?.captureTimeoutMs).toBe(60000);
+    });
+
+    it("should keep string readiness predicates and drop functions", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const stories = {
+        chart: {
+          id: "chart",
+          title: "Chart",
+          parameters: {
+            visualTesting: {
+              readiness: { predicate: "window.__CHART_READY__ === true" },
+            },
+          },
+        },
+        table: {
+          id: "table",
+          title: "Table",
+          parameters: {
+            visualTesting: {
+              readiness: { predicate: () => true, fonts: true },
+            },
+          },
+        },
+      };
+
+      const result = normalizeStories(stories, {
+        ...defaultOptions,
+        viewportKeys: ["default"],
+      });
+
+      expect(result.map(r => r.readiness)).toEqual([
+        { predicate: "window.__CHART_READY__ === true" },
+        { fonts: true },
+      ]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(
+        "Ignoring readiness.predicate of story table: use a JavaScript expression string instead of a function"
+      );
+      warn.mockRestore();
     });
 
     it("should skip stories marked with skip: true", () => {
@@ -273,6 +435,142 @@ describe("filtering", () => {
       expect(inputText).toBeUndefined(); // Excluded by include filter
     });
 
+    it("should keep story tags and select stories by tag", () => {
+      const stories = {
+        "button-primary": {
+          id: "button-primary",
+          title: "Primary Button",
+          tags: ["dev", "visual"],
+        },
+        "button-opted-out": {
+          id: "button-opted-out",
+          title: "Opted Out Button",
+          tags: ["dev", "visual", "!visual"],
+        },
+        "button-flaky": {
+          id: "button-flaky",
+          title: "Flaky Button",
+          tags: ["visual", "flaky"],
+        },
+      };
+
+      const result = normalizeStories(stories, {
+        ...defaultOptions,
+        viewportKeys: ["default"],
+        includeTags: ["visual"],
+        excludeTags: ["flaky"],
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].caseId).toBe("button-primary");
+      expect(result[0].tags).toEqual(["dev", "visual"]);
+    });
+
+    it("should expand story variants and the globals matrix into variant IDs", () => {
+      const stories = {
+        "button-primary": {
+          id: "button-primary",
+          title: "Primary Button",
+          parameters: {
+            visualTesting: {
+              variants: {
+                disabled: { args: { disabled: true } },
+                rtl: { globals: { direction: "rtl" } },
+              },
+            },
+          },
+        },
+      };
+
+      const result = normalizeStories(stories, {
+        ...defaultOptions,
+        viewportKeys: ["default"],
+        globals: { theme: ["light", "dark"] },
+      });
+
+      expect(result.map(r => [r.variantId, r.url])).toEqual([
+        [
+          "disabled-theme-light-default",
+          "http://localhost:4477/iframe.html?id=button-primary&args=disabled:true&globals=theme:light",
+        ],
+        [
+          "disabled-theme-dark-default",
+          "http://localhost:4477/iframe.html?id=button-primary&args=disabled:true&globals=theme:dark",
+        ],
+        [
+          "rtl-theme-light-default",
+          "http://localhost:4477/iframe.html?id=button-primary&globals=theme:light;direction:rtl",
+        ],
+        [
+          "rtl-theme-dark-default",
+          "http://localhost:4477/iframe.html?id=button-primary&globals=theme:dark;direction:rtl",
+        ],
+      ]);
+      expect(result.every(r => r.caseId === "button-primary")).toBe(true);
+    });
+
+    it("should skip a variant whose args cannot be encoded", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const stories = {
+        "button-primary": {
+          id: "button-primary",
+          title: "Primary Button",
+          parameters: {
+            visualTesting: {
+              variants: {
+                label: { args: { label: "Hello, world!" } },
+                disabled: { args: { disabled: true } },
+              },
+            },
+          },
+        },
+        "button-secondary": { id: "button-secondary", title: "Secondary" },
+      };
+
+      const result = normalizeStories(stories, {
+        ...defaultOptions,
+        viewportKeys: ["default"],
+      });
+
+      expect(result.map(r => `${r.caseId}/${r.variantId}`)).toEqual([
+        "button-primary/disabled-default",
+        "button-secondary/default",
+      ]);
+      expect(warn).toHaveBeenCalledWith(
+        'Skipping story button-primary (variant label): Cannot encode "label" as a URL parameter'
+      );
+      warn.mockRestore();
+    });
+
+    it("should reject variants whose names collide after slugging", () => {
+      const stories = {
+        "button-primary": {
+          id: "button-primary",
+          title: "Primary Button",
+          parameters: {
+            visualTesting: {
+              variants: {
+                "dark mode": { globals: { theme: "dark" } },
+                "dark-mode": { globals: { theme: "dark" } },
+              },
+            },
+          },
+        },
+      };
+
+      expect(() => normalizeStories(stories, defaultOptions)).toThrow(
+        'Invalid variants for story button-primary: more than one variant is named "dark-mode"'
+      );
+    });
+
+    it("should keep viewport-only variant IDs when no variants are configured", () => {
+      const result = normalizeStories(mockStories, defaultOptions);
+
+      expect(new Set(result.map(r => r.variantId))).toEqual(
+        new Set(["default", "mobile"])
+      );
+    });
+
     it("should handle baseUrl with trailing slash", () => {
       const result = normalizeStories(mockStories, {
         ...defaultOptions,
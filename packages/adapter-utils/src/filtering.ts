@@ -0,0 +1,346 @@
+import type {
+  TestCaseMeta,
+  TestCaseInstanceMeta,
+  ViewportMap,
+  BrowserName,
+  Viewport,
+  FilterOptions,
+  IgnoreRegion,
+  ClipRect,
+  NetworkRouteRule,
+  HarReplayOptions,
+  DeterminismConfig,
+  ReadinessConfig,
+} from "@visnap/protocol";
+import { minimatch } from "minimatch";
+
+import {
+  combineVariants,
+  expandGlobalsMatrix,
+  parseStoryVariants,
+  type StoryParamValue,
+  type StoryVariant,
+} from "./variants";
+
+/**
+ * Story filtering and normalization shared by the story adapters
+ */
+
+/**
+ * Normalizes a single value or list of filter values, dropping empty entries.
+ */
+function toFilterList(value: string | string[] | undefined): string[] {
+  return Array.isArray(value)
+    ? value.filter(item => item != null && item !== "")
+    : value && value !== ""
+      ? [value]
+      : [];
+}
+
+/**
+ * Resolves the tags of a story. Entries are applied in order and a `!tag`
+ * entry removes a previously added tag, matching Storybook's tag combining,
+ * so a story can opt out of a tag set on its component with `tags: ['!visual']`.
+ */
+export function resolveStoryTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+
+  const tags = new Set<string>();
+  for (const tag of raw) {
+    if (typeof tag !== "string" || tag === "") continue;
+    if (tag.startsWith("!")) {
+      tags.delete(tag.slice(1));
+    } else {
+      tags.add(tag);
+    }
+  }
+  return [...tags];
+}
+
+/**
+ * Reads a story's `readiness` parameter. Story parameters are serialized out
+ * of the browser, so only expression strings are kept as `predicate`; a
+ * function predicate is dropped with a warning.
+ */
+function parseReadiness(
+  storyId: string,
+  raw: unknown
+): ReadinessConfig | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const { predicate, ...readiness } = raw as ReadinessConfig;
+  if (predicate === undefined || typeof predicate === "string") {
+    return raw as ReadinessConfig;
+  }
+  console.warn(
+    `Ignoring readiness.predicate of story ${storyId}: use a JavaScript expression string instead of a function`
+  );
+  return readiness;
+}
+
+/**
+ * Creates a predicate function that filters stories by include and exclude patterns
+ * and tags. Patterns support minimatch wildcards. Invalid patterns are ignored.
+ * A story must have at least one of `includeTags` (when set) and none of `excludeTags`.
+ *
+ * @param options - Filter options with include and exclude patterns and tags
+ * @returns Predicate function that returns true if story should be included
+ *
+ */
+export function createTestCaseFilter(options: FilterOptions) {
+  const includePatterns = toFilterList(options.include);
+  const excludePatterns = toFilterList(options.exclude);
+  const includeTags = toFilterList(options.includeTags);
+  const excludeTags = toFilterList(options.excludeTags);
+
+  return (story: TestCaseMeta) => {
+    const storyId = story.id;
+    const storyTags = story.tags ?? [];
+
+    // Check tags
+    if (
+      includeTags.length > 0 &&
+      !includeTags.some(tag => storyTags.includes(tag))
+    ) {
+      return false;
+    }
+    if (excludeTags.some(tag => storyTags.includes(tag))) return false;
+
+    // Check include patterns
+    if (includePatterns.length > 0) {
+      const matchesInclude = includePatterns.some((pattern: string) =>
+        minimatch(storyId, pattern)
+      );
+      if (!matchesInclude) return false;
+    }
+
+    // Check exclude patterns
+    if (excludePatterns.length > 0) {
+      const matchesExclude = excludePatterns.some((pattern: string) =>
+        minimatch(storyId, pattern)
+      );
+      if (matchesExclude) return false;
+    }
+
+    return true;
+  };
+}
+
+/**
+ * Normalizes and expands raw stories (`{ id, title, tags, parameters.visualTesting }`,
+ * as in Storybook's `extract()` output) into TestCaseInstanceMeta[].
+ * Applies runtime guards, include/exclude and tag filtering, skip handling, and case-level config.
+ * Each story is expanded into one instance per variant (story `variants` combined with
+ * the `globals` matrix) and viewport; the variant name prefixes the viewport in `variantId`.
+ *
+ * Each adapter passes its own `kind`, `screenshotTarget` default and `buildUrl`,
+ * so `visualTesting` behaves the same for every story catalogue.
+ */
+export function normalizeStories(
+  stories: Record<string, unknown>,
+  options: FilterOptions & {
+    baseUrl: string;
+    viewportKeys: string[];
+    globalViewport?: ViewportMap;
+    globals?: Record<string, StoryParamValue[]>;
+    kind: string;
+    screenshotTarget: string;
+    buildUrl: (
+      baseUrl: string,
+      storyId: string,
+      variant: StoryVariant
+    ) => string;
+  }
+): TestCaseInstanceMeta[] {
+  const metas: TestCaseMeta[] = [];
+  const storyVariants = new Map<string, StoryVariant[]>();
+  const globalsVariants = expandGlobalsMatrix(options.globals);
+  const currentBaseUrl = options.baseUrl.replace(/\/$/, "");
+
+  for (const raw of Object.values(stories)) {
+    if (!raw || typeof raw !== "object") continue;
+    const storyObj = raw as TestCaseMeta;
+
+    const id = typeof storyObj.id === "string" ? storyObj.id : undefined;
+    const title =
+      typeof storyObj.title === "string" ? storyObj.title : (id ?? "");
+    if (!id) continue;
+    const tags = resolveStoryTags(storyObj.tags);
+
+    // Get visualTesting under parameters.visualTesting, fallback to empty object
+    const parameters = storyObj as { parameters?: { visualTesting?: unknown } };
+    const vt =
+      parameters.parameters &&
+      typeof parameters.parameters.visualTesting === "object" &&
+      parameters.parameters.visualTesting !== null
+        ? (parameters.parameters.visualTesting as Record<string, unknown>)
+        : {};
+
+    const skip = typeof vt.skip === "boolean" ? vt.skip : false;
+    const screenshotTarget =
+      typeof vt.screenshotTarget === "string" ? vt.screenshotTarget : undefined;
+    const threshold =
+      typeof vt.threshold === "number" ? vt.threshold : undefined;
+    const maxDiffPercentage =
+      typeof vt.maxDiffPercentage === "number"
+        ? vt.maxDiffPercentage
+        : undefined;
+    const maxDiffPixels =
+      typeof vt.maxDiffPixels === "number" ? vt.maxDiffPixels : undefined;
+    const browser =
+      Array.isArray(vt.browser) || typeof vt.browser === "string"
+        ? (vt.browser as BrowserName | BrowserName[])
+        : undefined;
+    const viewport =
+      typeof vt.viewport === "object" && vt.viewport !== null
+        ? (vt.viewport as Viewport)
+        : undefined;
+    const disableCSSInjection =
+      typeof vt.disableCSSInjection === "boolean"
+        ? vt.disableCSSInjection
+        : undefined;
+    const interactions = Array.isArray(vt.interactions)
+      ? vt.interactions
+      : undefined;
+    const elementsToMask = Array.isArray(vt.elementsToMask)
+      ? vt.elementsToMask
+      : undefined;
+    const ignoreRegions = Array.isArray(vt.ignoreRegions)
+      ? (vt.ignoreRegions as IgnoreRegion[])
+      : undefined;
+    const fullPage = typeof vt.fullPage === "boolean" ? vt.fullPage : undefined;
+    const clip =
+      typeof vt.clip === "object" && vt.clip !== null
+        ? (vt.clip as ClipRect)
+        : undefined;
+    const captureTimeoutMs =
+      typeof vt.captureTimeoutMs === "number" ? vt.captureTimeoutMs : undefined;
+    const routes = Array.isArray(vt.routes)
+      ? (vt.routes as NetworkRouteRule[])
+      : undefined;
+    const har =
+      typeof vt.har === "string" ||
+      (typeof vt.har === "object" && vt.har !== null)
+        ? (vt.har as string | HarReplayOptions)
+        : undefined;
+    const determinism =
+      vt.determinism === false ||
+      (typeof vt.determinism === "object" && vt.determinism !== null)
+        ? (vt.determinism as DeterminismConfig | false)
+        : undefined;
+    const waitFor =
+      typeof vt.waitFor === "string" || typeof vt.waitFor === "number"
+        ? vt.waitFor
+        : undefined;
+    const readiness = parseReadiness(id, vt.readiness);
+    storyVariants.set(id, parseStoryVariants(vt.variants));
+
+    metas.push({
+      id,
+      title,
+      kind: "story",
+      tags,
+      visualTesting: {
+        skip,
+        screenshotTarget,
+        threshold,
+        maxDiffPercentage,
+        maxDiffPixels,
+        browser,
+        viewport,
+        disableCSSInjection,
+        interactions,
+        elementsToMask,
+        ignoreRegions,
+        fullPage,
+        clip,
+        captureTimeoutMs,
+        routes,
+        har,
+        determinism,
+        waitFor,
+        readiness,
+      },
+    });
+  }
+
+  // Build filter predicate from include/exclude and tags
+  const filter = createTestCaseFilter({
+    include: options.include,
+    exclude: options.exclude,
+    includeTags: options.includeTags,
+    excludeTags: options.excludeTags,
+  });
+  const filtered = metas
+    .filter(story => !story.visualTesting?.skip)
+    .filter(filter);
+
+  const instances: TestCaseInstanceMeta[] = [];
+  for (const story of filtered) {
+    const visualConfig = story.visualTesting;
+    const variants = combineVariants(
+      storyVariants.get(story.id) ?? [],
+      globalsVariants
+    );
+
+    // Variant names are slugs, so distinct names like "a b" and "a-b" would
+    // share a variant ID and overwrite each other's baselines
+    const variantNames = new Set<string>();
+    for (const variant of variants) {
+      if (variantNames.has(variant.name)) {
+        throw new Error(
+          `Invalid variants for story ${story.id}: more than one variant is named "${variant.name}" after replacing characters other than letters, digits, "_" and "-"`
+        );
+      }
+      variantNames.add(variant.name);
+    }
+
+    for (const variant of variants) {
+      let url: string;
+      try {
+        url = options.buildUrl(currentBaseUrl, story.id, variant);
+      } catch (error) {
+        const variantLabel = variant.name ? ` (variant ${variant.name})` : "";
+        console.warn(
+          `Skipping story ${story.id}${variantLabel}: ${(error as Error).message}`
+        );
+        continue;
+      }
+      for (const viewportKey of options.viewportKeys) {
+        // Use global viewport configuration as fallback if individual test case doesn't have viewport config
+        const viewportConfig =
+          visualConfig?.viewport || options.globalViewport?.[viewportKey];
+
+        instances.push({
+          id: story.id,
+          title: story.title,
+          kind: options.kind,
+          tags: story.tags,
+          caseId: story.id,
+          variantId: variant.name
+            ? `${variant.name}-${viewportKey}`
+            : viewportKey,
+          url,
+          screenshotTarget:
+            visualConfig?.screenshotTarget ?? options.screenshotTarget,
+          viewport: viewportConfig,
+          threshold: visualConfig?.threshold,
+          maxDiffPercentage: visualConfig?.maxDiffPercentage,
+          maxDiffPixels: visualConfig?.maxDiffPixels,
+          disableCSSInjection: visualConfig?.disableCSSInjection,
+          interactions: visualConfig?.interactions,
+          elementsToMask: visualConfig?.elementsToMask,
+          ignoreRegions: visualConfig?.ignoreRegions,
+          fullPage: visualConfig?.fullPage,
+          clip: visualConfig?.clip,
+          captureTimeoutMs: visualConfig?.captureTimeoutMs,
+          routes: visualConfig?.routes,
+          har: visualConfig?.har,
+          determinism: visualConfig?.determinism,
+          waitFor: visualConfig?.waitFor,
+          readiness: visualConfig?.readiness,
+        });
+      }
+    }
+  }
+  return instances;
+}
@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Helpers shared by the visnap test-case adapters
+ *
+ * Framework-neutral building blocks for adapters: a static server for builds,
+ * JSON fetching for manifests, and normalization of story catalogues into
+ * test case instances.
+ */
+
+export { normalizeStories } from "./filtering";
+export { createServerManager } from "./server";
+export type { ServerManager, ServerManagerOptions } from "./server";
+export { fetchJson, resolveManifestUrl, withTimeout } from "./utils";
+export type { StoryParamValue, StoryVariant } from "./variants";
@@ -27,6 +27,7 @@ const mockCreateServer = vi.mocked(http.createServer);
 // const mockHandler = vi.mocked(handler);
 
 describe("server", () => {
+  const options = { label: "Storybook static directory", defaultPort: 4477 };
   let mockServer: any;
 
   beforeEach(() => {
@@ -44,7 +45,11 @@ describe("server", () => {
   describe("createServerManager", () => {
     describe("URL source", () => {
       it("should use URL directly without starting server", async () => {
-        const manager = createServerManager("https://example.com", 3000);
+        const manager = createServerManager(
+          "https://example.com",
+          3000,
+          options
+        );
 
         await manager.ensureStarted();
 
@@ -54,7 +59,11 @@ describe("server", () => {
       });
 
       it("should remove trailing slash from URL", async () => {
-        const manager = createServerManager("https://example.com/", 3000);
+        const manager = createServerManager(
+          "https://example.com/",
+          3000,
+          options
+        );
 
         await manager.ensureStarted();
 
@@ -62,7 +71,11 @@ describe("server", () => {
       });
 
       it("should handle HTTP URLs", async () => {
-        const manager = createServerManager("http://localhost:3000", 3000);
+        const manager = createServerManager(
+          "http://localhost:3000",
+          3000,
+          options
+        );
 
         await manager.ensureStarted();
 
@@ -79,7 +92,11 @@ describe("server", () => {
           }
         );
 
-        const manager = createServerManager("/path/to/storybook", 3000);
+        const manager = createServerManager(
+          "/path/to/storybook",
+          3000,
+          options
+        );
 
         await manager.ensureStarted();
 
@@ -102,7 +119,11 @@ describe("server", () => {
           }
         );
 
-        const manager = createServerManager("/path/to/storybook");
+        const manager = createServerManager(
+          "/path/to/storybook",
+          undefined,
+          options
+        );
 
         await manager.ensureStarted();
 
@@ -113,10 +134,39 @@ describe("server", () => {
         expect(manager.getBaseUrl()).toBe("http://localhost:4477");
       });
 
+      it("should use the configured label and default port", async () => {
+        mockExistsSync.mockReturnValueOnce(false).mockReturnValue(true);
+        mockServer.listen.mockImplementation(
+          (_port: any, callback: () => void) => {
+            callback();
+          }
+        );
+
+        const manager = createServerManager("./build", undefined, {
+          label: "Ladle build directory",
+          defaultPort: 4479,
+        });
+
+        await expect(manager.ensureStarted()).rejects.toThrow(
+          "Ladle build directory not found: ./build"
+        );
+        await manager.ensureStarted();
+
+        expect(mockServer.listen).toHaveBeenCalledWith(
+          4479,
+          expect.any(Function)
+        );
+        expect(manager.getBaseUrl()).toBe("http://localhost:4479");
+      });
+
       it("should throw error for non-existent directory", async () => {
         mockExistsSync.mockReturnValue(false);
 
-        const manager = createServerManager("/nonexistent/path");
+        const manager = createServerManager(
+          "/nonexistent/path",
+          undefined,
+          options
+        );
 
         await expect(manager.ensureStarted()).rejects.toThrow(
           "Storybook static directory not found: /nonexistent/path"
@@ -131,7 +181,11 @@ describe("server", () => {
           }
         );
 
-        const manager = createServerManager("/path/to/storybook");
+        const manager = createServerManager(
+          "/path/to/storybook",
+          undefined,
+          options
+        );
 
         await expect(manager.ensureStarted()).rejects.toThrow(
           "Server start timed out"
@@ -155,7 +209,11 @@ describe("server", () => {
           }
         );
 
-        const manager = createServerManager("/path/to/storybook");
+        const manager = createServerManager(
+          "/path/to/storybook",
+          undefined,
+          options
+        );
 
         await expect(manager.ensureStarted()).rejects.toThrow(
           "Port already in use"
@@ -170,7 +228,11 @@ describe("server", () => {
           }
         );
 
-        const manager = createServerManager("/path/to/storybook");
+        const manager = createServerManager(
+          "/path/to/storybook",
+          undefined,
+          options
+        );
 
         await manager.ensureStarted();
         await manager.ensureStarted();
@@ -192,7 +254,11 @@ describe("server", () => {
           callback();
         });
 
-        const manager = createServerManager("/path/to/storybook");
+        const manager = createServerManager(
+          "/path/to/storybook",
+          undefined,
+          options
+        );
 
         await manager.ensureStarted();
         expect(manager.getBaseUrl()).toBe("http://localhost:4477");
@@ -203,7 +269,11 @@ describe("server", () => {
       });
 
       it("should handle stop when no server is running", async () => {
-        const manager = createServerManager("https://example.com");
+        const manager = createServerManager(
+          "https://example.com",
+          undefined,
+          options
+        );
 
         await manager.ensureStarted();
         await manager.stop();
@@ -223,7 +293,11 @@ describe("server", () => {
           callback();
         });
 
-        const manager = createServerManager("/path/to/storybook");
+        const manager = createServerManager(
+          "/path/to/storybook",
+          undefined,
+          options
+        );
 
         await manager.ensureStarted();
         await manager.stop();
@@ -240,7 +314,11 @@ describe("server", () => {
           }
         );
 
-        const manager = createServerManager("/path/to/storybook");
+        const manager = createServerManager(
+          "/path/to/storybook",
+          undefined,
+          options
+        );
 
         await manager.ensureStarted();
 
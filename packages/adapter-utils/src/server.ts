@@ -1,8 +1,9 @@
 /**
- * @fileoverview Server management utilities for Storybook adapter
+ * @fileoverview Static server management shared by the test-case adapters
  *
  * Provides functions for starting and managing a local static file server
- * for Storybook static builds or connecting to existing Storybook instances.
+ * for static builds (Storybook, Ladle, Histoire, HTML fixtures) or connecting
+ * to an already running instance.
  */
 
 import { existsSync } from "node:fs";
@@ -10,7 +11,6 @@ import http from "node:http";
 
 import handler from "serve-handler";
 
-const DEFAULT_PORT = 4477;
 const SERVER_START_TIMEOUT_MS = 5000;
 
 export interface ServerManager {
@@ -20,11 +20,23 @@ export interface ServerManager {
 }
 
 /**
- * Creates a server manager that handles starting/stopping the Storybook server
+ * Options describing the served build
+ * @property label - Name of the served directory in errors, e.g. "Storybook static directory"
+ * @property defaultPort - Port used when none is configured
+ */
+export interface ServerManagerOptions {
+  label: string;
+  defaultPort: number;
+}
+
+/**
+ * Creates a server manager that serves `source` when it is a directory, or
+ * uses it as the base URL when it is a URL
  */
 export function createServerManager(
   source: string,
-  port?: number
+  port: number | undefined,
+  { label, defaultPort }: ServerManagerOptions
 ): ServerManager {
   let server: http.Server | null = null;
   let baseUrl: string | undefined;
@@ -44,10 +56,10 @@ export function createServerManager(
     }
 
     if (!existsSync(source)) {
-      throw new Error(`Storybook static directory not found: ${source}`);
+      throw new Error(`${label} not found: ${source}`);
     }
 
-    const serverPort = port ?? DEFAULT_PORT;
+    const serverPort = port ?? defaultPort;
     server = http.createServer((request, response) =>
       handler(request, response, { public: source, cleanUrls: false })
     );
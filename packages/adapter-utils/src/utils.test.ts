@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { fetchJson, resolveManifestUrl, withTimeout } from "./utils";
+
+describe("utils", () => {
+  describe("withTimeout", () => {
+    it("should resolve with the promise result when promise resolves within timeout", async () => {
+      const promise = Promise.resolve("success");
+      const result = await withTimeout(promise, 1000, "timeout");
+      expect(result).toBe("success");
+    });
+
+    it("should reject with timeout error when promise takes too long", async () => {
+      const promise = new Promise(resolve =>
+        setTimeout(() => resolve("delayed"), 200)
+      );
+      await expect(withTimeout(promise, 100, "timeout")).rejects.toThrow(
+        "timeout"
+      );
+    });
+
+    it("should reject with original error when promise rejects", async () => {
+      const promise = Promise.reject(new Error("original error"));
+      await expect(withTimeout(promise, 1000, "timeout")).rejects.toThrow(
+        "original error"
+      );
+    });
+
+    it("should clear timeout when promise resolves", async () => {
+      const clearTimeoutSpy = vi.spyOn(global, "clearTimeout");
+      const promise = Promise.resolve("success");
+      await withTimeout(promise, 1000, "timeout");
+      expect(clearTimeoutSpy).toHaveBeenCalled();
+    });
+
+    it("should clear timeout when promise rejects", async () => {
+      const clearTimeoutSpy = vi.spyOn(global, "clearTimeout");
+      const promise = Promise.reject(new Error("error"));
+      try {
+        await withTimeout(promise, 1000, "timeout");
+      } catch {
+        // Expected to throw
+      }
+      expect(clearTimeoutSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe("fetchJson", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should return the parsed JSON body", async () => {
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        json: async () => ({ stories: [] }),
+      }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await expect(
+        fetchJson("http://localhost:6006/index.json", 1000)
+      ).resolves.toEqual({ stories: [] });
+      expect(fetchMock).toHaveBeenCalledWith(
+        "http://localhost:6006/index.json"
+      );
+    });
+
+    it("should throw on an unsuccessful response", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => ({ ok: false, status: 404, json: async () => ({}) }))
+      );
+
+      await expect(
+        fetchJson("http://localhost:6006/index.json", 1000)
+      ).rejects.toThrow(
+        "Failed to fetch http://localhost:6006/index.json: HTTP 404"
+      );
+    });
+
+    it("should throw when the request times out", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(() => new Promise(() => {}))
+      );
+
+      await expect(
+        fetchJson("http://localhost:6006/index.json", 10)
+      ).rejects.toThrow("Fetching http://localhost:6006/index.json timed out");
+    });
+  });
+
+  describe("resolveManifestUrl", () => {
+    it("should resolve a relative manifest against the base URL", () => {
+      expect(
+        resolveManifestUrl("http://localhost:6006/", "./visnap.json")
+      ).toBe("http://localhost:6006/visnap.json");
+      expect(resolveManifestUrl("http://localhost:6006", "meta/vt.json")).toBe(
+        "http://localhost:6006/meta/vt.json"
+      );
+    });
+
+    it("should keep a manifest that is already a URL", () => {
+      expect(
+        resolveManifestUrl(
+          "http://localhost:6006",
+          "https://cdn.example.com/vt.json"
+        )
+      ).toBe("https://cdn.example.com/vt.json");
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Utility functions shared by the test-case adapters
+ */
+
+/**
+ * Races a promise against a timeout and ensures the timer is always cleared.
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  message: string
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      err => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Fetches and parses a JSON document with a timeout.
+ * @throws {Error} If the request times out or the response is not OK
+ */
+export async function fetchJson(
+  url: string,
+  timeoutMs: number
+): Promise<unknown> {
+  const response = await withTimeout(
+    fetch(url),
+    timeoutMs,
+    `Fetching ${url} timed out`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+  }
+  return await response.json();
+}
+
+/**
+ * Resolves a manifest location against a base URL unless it is already a URL.
+ */
+export function resolveManifestUrl(baseUrl: string, manifest: string): string {
+  if (/^https?:\/\//i.test(manifest)) return manifest;
+  return `${baseUrl.replace(/\/$/, "")}/${manifest.replace(/^\.?\//, "")}`;
+}
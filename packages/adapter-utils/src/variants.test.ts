@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  combineVariants,
+  expandGlobalsMatrix,
+  parseStoryVariants,
+} from "./variants";
+
+describe("variants", () => {
+  describe("expandGlobalsMatrix", () => {
+    it("should return no variants for an empty matrix", () => {
+      expect(expandGlobalsMatrix(undefined)).toEqual([]);
+      expect(expandGlobalsMatrix({ theme: [] })).toEqual([]);
+    });
+
+    it("should expand every combination in a deterministic order", () => {
+      expect(
+        expandGlobalsMatrix({ theme: ["light", "dark"], locale: ["en", "fr"] })
+      ).toEqual([
+        {
+          name: "theme-light_locale-en",
+          globals: { theme: "light", locale: "en" },
+        },
+        {
+          name: "theme-light_locale-fr",
+          globals: { theme: "light", locale: "fr" },
+        },
+        {
+          name: "theme-dark_locale-en",
+          globals: { theme: "dark", locale: "en" },
+        },
+        {
+          name: "theme-dark_locale-fr",
+          globals: { theme: "dark", locale: "fr" },
+        },
+      ]);
+    });
+  });
+
+  describe("parseStoryVariants", () => {
+    it("should parse named variants and ignore invalid entries", () => {
+      expect(
+        parseStoryVariants({
+          "long label": { args: { label: "A much longer label" } },
+          dark: { globals: { theme: "dark" } },
+          broken: "not-an-object",
+          "!!!": { args: {} },
+        })
+      ).toEqual([
+        {
+          name: "long-label",
+          args: { label: "A much longer label" },
+          globals: undefined,
+        },
+        { name: "dark", args: undefined, globals: { theme: "dark" } },
+      ]);
+    });
+
+    it("should return no variants when not configured", () => {
+      expect(parseStoryVariants(undefined)).toEqual([]);
+      expect(parseStoryVariants([{ args: {} }])).toEqual([]);
+    });
+  });
+
+  describe("combineVariants", () => {
+    it("should return a single unnamed variant when nothing is configured", () => {
+      expect(combineVariants([], [])).toEqual([{ name: "" }]);
+    });
+
+    it("should cross story variants with globals and let the story win", () => {
+      const result = combineVariants(
+        [
+          { name: "rtl", globals: { direction: "rtl", theme: "dark" } },
+          { name: "long", args: { label: "Long" } },
+        ],
+        [
+          { name: "theme-light", globals: { theme: "light" } },
+          { name: "theme-dark", globals: { theme: "dark" } },
+        ]
+      );
+
+      expect(result).toEqual([
+        {
+          name: "rtl-theme-light",
+          globals: { theme: "dark", direction: "rtl" },
+        },
+        {
+          name: "rtl-theme-dark",
+          globals: { theme: "dark", direction: "rtl" },
+        },
+        {
+          name: "long-theme-light",
+          args: { label: "Long" },
+          globals: { theme: "light" },
+        },
+        {
+          name: "long-theme-dark",
+          args: { label: "Long" },
+          globals: { theme: "dark" },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Story variants shared by the story adapters
+ *
+ * Expands stories into named variants rendered with different `args` and
+ * `globals`. Each adapter encodes them into its own preview URLs.
+ */
+
+/** Value of a story arg or global */
+export type StoryParamValue =
+  | string
+  | number
+  | boolean
+  | null
+  | StoryParamValue[]
+  | { [key: string]: StoryParamValue };
+
+/**
+ * A named rendering of a story
+ * @property name - Variant name, part of the variant ID and the screenshot filename
+ * @property args - Story args
+ * @property globals - Globals (theme, locale, ...)
+ */
+export interface StoryVariant {
+  name: string;
+  args?: Record<string, StoryParamValue>;
+  globals?: Record<string, StoryParamValue>;
+}
+
+/**
+ * Turns a variant name or value into a string that is safe in IDs and filenames.
+ */
+function toVariantSlug(value: unknown): string {
+  return String(value)
+    .replace(/[^a-zA-Z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Expands a globals matrix into one variant per combination of values.
+ * Variant names list each global and its value, e.g. `theme-dark_locale-fr`.
+ * @param matrix - Values to try for each global
+ * @returns Variants in deterministic order, or an empty array for an empty matrix
+ */
+export function expandGlobalsMatrix(
+  matrix: Record<string, StoryParamValue[]> | undefined
+): StoryVariant[] {
+  const entries = Object.entries(matrix ?? {}).filter(
+    ([, values]) => Array.isArray(values) && values.length > 0
+  );
+  if (entries.length === 0) return [];
+
+  let variants: StoryVariant[] = [{ name: "", globals: {} }];
+  for (const [key, values] of entries) {
+    variants = variants.flatMap(variant =>
+      values.map(value => ({
+        name: [variant.name, `${toVariantSlug(key)}-${toVariantSlug(value)}`]
+          .filter(Boolean)
+          .join("_"),
+        globals: { ...variant.globals, [key]: value },
+      }))
+    );
+  }
+  return variants;
+}
+
+/**
+ * Parses `parameters.visualTesting.variants` of a story.
+ * Accepts a record of variant name to `{ args?, globals? }`; invalid entries are ignored.
+ */
+export function parseStoryVariants(raw: unknown): StoryVariant[] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return [];
+
+  const variants: StoryVariant[] = [];
+  for (const [name, config] of Object.entries(raw)) {
+    const slug = toVariantSlug(name);
+    if (!slug || !config || typeof config !== "object") continue;
+    const { args, globals } = config as Record<string, unknown>;
+    variants.push({
+      name: slug,
+      args: isParamRecord(args) ? args : undefined,
+      globals: isParamRecord(globals) ? globals : undefined,
+    });
+  }
+  return variants;
+}
+
+/**
+ * Combines a story's own variants with the configured globals variants.
+ * Story globals take precedence over the matrix for the same key.
+ * @returns Variants to capture; a single unnamed variant when neither is configured
+ */
+export function combineVariants(
+  storyVariants: StoryVariant[],
+  globalsVariants: StoryVariant[]
+): StoryVariant[] {
+  const own = storyVariants.length > 0 ? storyVariants : [{ name: "" }];
+  const fromGlobals =
+    globalsVariants.length > 0 ? globalsVariants : [{ name: "" }];
+
+  return own.flatMap(variant =>
+    fromGlobals.map(globalsVariant => {
+      const globals = { ...globalsVariant.globals, ...variant.globals };
+      return {
+        name: [variant.name, globalsVariant.name].filter(Boolean).join("-"),
+        ...(variant.args && { args: variant.args }),
+        ...(Object.keys(globals).length > 0 && { globals }),
+      };
+    })
+  );
+}
+
+/**
+ * Checks that a value is a plain object of story params.
+ */
+function isParamRecord(
+  value: unknown
+): value is Record<string, StoryParamValue> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,37 @@
+import { resolve } from "path";
+
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: "node",
+    setupFiles: ["./src/__mocks__/setup.ts"],
+    coverage: {
+      provider: "v8",
+      reporter: ["text", "json", "html"],
+      exclude: [
+        "node_modules/",
+        "dist/",
+        "src/__mocks__/",
+        "**/*.d.ts",
+        "**/*.config.*",
+      ],
+      thresholds: {
+        global: {
+          branches: 80,
+          functions: 85,
+          lines: 85,
+          statements: 85,
+        },
+      },
+    },
+    testTimeout: 10000,
+    hookTimeout: 10000,
+  },
+  resolve: {
+    alias: {
+      "@": resolve(__dirname, "./src"),
+    },
+  },
+});
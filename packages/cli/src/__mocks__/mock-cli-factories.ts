@@ -62,6 +62,8 @@ export function createMockCommandOptions(
   overrides: {
     include?: string | string[];
     exclude?: string | string[];
+    tag?: string[];
+    excludeTag?: string[];
     config?: string;
     jsonReport?: string | boolean;
     htmlReport?: string | boolean;
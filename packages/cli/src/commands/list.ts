@@ -9,6 +9,8 @@ import { createSpinner, shouldUseSpinner } from "../utils/spinner";
 
 interface ListOptions extends CliOptions {
   config?: string;
+  tag?: string[];
+  excludeTag?: string[];
 }
 
 const listHandler = async (options: ListOptions): Promise<void> => {
@@ -25,6 +27,8 @@ const listHandler = async (options: ListOptions): Promise<void> => {
     const cliOptions: CliOptions & { configPath?: string } = {
       include: options.include,
       exclude: options.exclude,
+      includeTags: options.tag,
+      excludeTags: options.excludeTag,
       ...(options.config ? { configPath: options.config } : {}),
     };
 
@@ -68,6 +72,12 @@ const listHandler = async (options: ListOptions): Promise<void> => {
         `• Filters applied: ${options.include ? `include=${options.include}` : ""} ${options.exclude ? `exclude=${options.exclude}` : ""}`
       );
     }
+
+    if (options.tag || options.excludeTag) {
+      log.plain(
+        `• Tags applied: ${options.tag ? `tag=${options.tag}` : ""} ${options.excludeTag ? `exclude-tag=${options.excludeTag}` : ""}`
+      );
+    }
   } catch (error) {
     if (useSpinner) {
       spinner!.fail("Failed to discover test cases");
@@ -96,6 +106,14 @@ export const command: Command<ListOptions> = {
       .option(
         "--exclude <pattern>",
         "Exclude test cases matching pattern (can be used multiple times)"
+      )
+      .option(
+        "--tag <tags...>",
+        "Only include test cases with any of these tags (e.g. Storybook story tags)"
+      )
+      .option(
+        "--exclude-tag <tags...>",
+        "Exclude test cases with any of these tags"
       );
   },
 };
@@ -30,6 +30,10 @@ interface TestCommandOptions extends CliOptions {
   config?: string;
   /** Whether to select test cases interactively */
   interactive?: boolean;
+  /** Only include test cases with any of these tags */
+  tag?: string[];
+  /** Exclude test cases with any of these tags */
+  excludeTag?: string[];
 }
 
 /**
@@ -51,6 +55,8 @@ const testHandler = async (options: TestCommandOptions): Promise<void> => {
       const cliOptions: CliOptions & { configPath?: string } = {
         include: options.include,
         exclude: options.exclude,
+        includeTags: options.tag,
+        excludeTags: options.excludeTag,
         ...(options.config ? { configPath: options.config } : {}),
       };
 
@@ -153,6 +159,14 @@ export const command: Command<TestCommandOptions> = {
       .option(
         "--exclude <pattern>",
         "Exclude test cases matching pattern (can be used multiple times)"
+      )
+      .option(
+        "--tag <tags...>",
+        "Only include test cases with any of these tags (e.g. Storybook story tags)"
+      )
+      .option(
+        "--exclude-tag <tags...>",
+        "Exclude test cases with any of these tags"
       );
   },
 };
@@ -1,5 +1,6 @@
 import {
   updateBaselineCli,
+  acceptBaselinesCli,
   log,
   runInDocker,
   DEFAULT_DOCKER_IMAGE,
@@ -21,13 +22,62 @@ interface UpdateCommandOptions
   docker?: boolean;
   config?: string;
   interactive?: boolean;
+  failed?: boolean;
+  accept?: string[];
+  tag?: string[];
+  excludeTag?: string[];
 }
 
+const acceptHandler = async (
+  options: UpdateCommandOptions,
+  spinner: ReturnType<typeof createSpinner> | null
+): Promise<void> => {
+  if (spinner) {
+    spinner.start("Accepting current screenshots as baselines...");
+  } else {
+    log.info("Accepting current screenshots as baselines...");
+  }
+
+  const result = await acceptBaselinesCli(
+    {},
+    {
+      failed: options.failed,
+      ids: options.accept,
+      ...(options.config ? { configPath: options.config } : {}),
+    }
+  );
+
+  const summary = `Accepted ${result.accepted.length} baseline(s)`;
+  if (spinner) {
+    spinner.succeed(`${summary} ✅`);
+  } else {
+    log.success(`${summary} ✅`);
+  }
+
+  if (result.missing.length > 0) {
+    log.warn(
+      `No current screenshot found for: ${result.missing.join(", ")}. Run 'visnap test' to capture them first.`
+    );
+  }
+
+  if (result.accepted.length === 0 && result.missing.length === 0) {
+    log.plain("\nNothing to accept: the last run has no failed test cases.");
+  }
+
+  exit(result.missing.length > 0 ? 1 : 0);
+};
+
 const updateHandler = async (options: UpdateCommandOptions): Promise<void> => {
   const useSpinner = shouldUseSpinner();
   const spinner = useSpinner ? createSpinner() : null;
 
   try {
+    // Promote existing current screenshots instead of capturing again
+    if (options.failed || options.accept?.length) {
+      await acceptHandler(options, spinner);
+      return;
+    }
+
     // Handle interactive mode
     if (options.interactive) {
       if (useSpinner) {
@@ -39,6 +89,8 @@ const updateHandler = async (options: UpdateCommandOptions): Promise<void> => {
       const cliOptions: CliOptions & { configPath?: string } = {
         include: options.include,
         exclude: options.exclude,
+        includeTags: options.tag,
+        excludeTags: options.excludeTag,
         ...(options.config ? { configPath: options.config } : {}),
       };
 
@@ -89,6 +141,11 @@ const updateHandler = async (options: UpdateCommandOptions): Promise<void> => {
                 : [options.exclude]),
             ]
           : []),
+        // Forward tag filters if present
+        ...(options.tag?.length ? ["--tag", ...options.tag] : []),
+        ...(options.excludeTag?.length
+          ? ["--exclude-tag", ...options.excludeTag]
+          : []),
       ];
       const status = await runInDocker({ image, args });
       if (useSpinner) {
@@ -108,6 +165,8 @@ const updateHandler = async (options: UpdateCommandOptions): Promise<void> => {
     const cliOptions: CliOptions & { configPath?: string } = {
       include: options.include,
       exclude: options.exclude,
+      includeTags: options.tag,
+      excludeTags: options.excludeTag,
       ...(options.config ? { configPath: options.config } : {}),
     };
 
@@ -137,6 +196,12 @@ const updateHandler = async (options: UpdateCommandOptions): Promise<void> => {
       );
     }
 
+    if (options.tag || options.excludeTag) {
+      log.plain(
+        `Tags applied: ${options.tag ? `tag=${options.tag}` : ""} ${options.excludeTag ? `exclude-tag=${options.excludeTag}` : ""}`
+      );
+    }
+
     log.plain("\nNext steps:");
     log.plain(
       "• Run 'visnap test' to compare current screenshots with baselines"
@@ -175,6 +240,22 @@ export const command: Command<UpdateCommandOptions> = {
       .option(
         "--exclude <pattern>",
         "Exclude test cases matching pattern (can be used multiple times)"
+      )
+      .option(
+        "--tag <tags...>",
+        "Only include test cases with any of these tags (e.g. Storybook story tags)"
+      )
+      .option(
+        "--exclude-tag <tags...>",
+        "Exclude test cases with any of these tags"
+      )
+      .option(
+        "--failed",
+        "Accept current screenshots of test cases that failed in the last run"
+      )
+      .option(
+        "--accept <ids...>",
+        "Accept current screenshots of the given test case IDs"
       );
   },
 };
@@ -85,6 +85,7 @@ export class PresentationService {
     outcome: {
       total?: number;
       passed?: number;
+      flaky?: number;
       failedDiffs?: number;
       failedErrors?: number;
       captureFailures?: number;
@@ -94,6 +95,7 @@ export class PresentationService {
     const summary: TestSummary = {
       total: result.outcome.total || 0,
       passed: result.outcome.passed || 0,
+      flaky: result.outcome.flaky || 0,
       failed: result.outcome.failedDiffs || 0,
       errors:
         (result.outcome.failedErrors || 0) +
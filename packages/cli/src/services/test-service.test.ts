@@ -250,6 +250,23 @@ describe("TestService", () => {
       });
     });
 
+    it("should forward tag filters", async () => {
+      const options = createMockCommandOptions({
+        docker: true,
+        tag: ["visual", "smoke"],
+        excludeTag: ["flaky"],
+      });
+
+      mockRunInDocker.mockResolvedValue(0);
+
+      await testService.executeTests(options);
+
+      expect(mockRunInDocker).toHaveBeenCalledWith({
+        image: "visnap/test:latest",
+        args: ["test", "--tag", "visual", "smoke", "--exclude-tag", "flaky"],
+      });
+    });
+
     it("should handle docker failure", async () => {
       const options = createMockCommandOptions({ docker: true });
 
@@ -11,6 +11,8 @@ import { resolveReporterConfig } from "./reporter-config-resolver";
 export interface TestServiceOptions {
   include?: string | string[];
   exclude?: string | string[];
+  tag?: string[];
+  excludeTag?: string[];
   jsonReport?: string | boolean;
   htmlReport?: string | boolean;
   docker?: boolean;
@@ -23,6 +25,7 @@ export interface TestServiceResult {
   outcome: {
     total?: number;
     passed?: number;
+    flaky?: number;
     failedDiffs?: number;
     failedErrors?: number;
     captureFailures?: number;
@@ -66,6 +69,8 @@ export class TestService {
     const cliOptions: CliOptions & { configPath?: string } = {
       include: options.include,
       exclude: options.exclude,
+      includeTags: options.tag,
+      excludeTags: options.excludeTag,
       // forward explicit config path to core
       ...(options.config ? { configPath: options.config } : {}),
     };
@@ -131,6 +136,11 @@ export class TestService {
               : [options.exclude]),
           ]
         : []),
+      // Forward tag filters if present
+      ...(options.tag?.length ? ["--tag", ...options.tag] : []),
+      ...(options.excludeTag?.length
+        ? ["--exclude-tag", ...options.excludeTag]
+        : []),
       // Forward jsonReport flag if present
       ...(options.jsonReport
         ? [
@@ -9,6 +9,7 @@ import { table } from "table";
 export interface TestSummary {
   total: number;
   passed: number;
+  flaky: number;
   failed: number;
   errors: number;
   captureFailures: number;
@@ -21,6 +22,8 @@ export function formatTestSummary(summary: TestSummary): void {
   const total = summary.total;
   const passedPct =
     total > 0 ? ((summary.passed / total) * 100).toFixed(1) : "0.0";
+  const flakyPct =
+    total > 0 ? ((summary.flaky / total) * 100).toFixed(1) : "0.0";
   const failedPct =
     total > 0 ? ((summary.failed / total) * 100).toFixed(1) : "0.0";
   const errorPct =
@@ -30,6 +33,7 @@ export function formatTestSummary(summary: TestSummary): void {
     [chalk.cyan("Metric"), chalk.cyan("Count"), chalk.cyan("Percentage")],
     ["Total Tests", total.toString(), "100.0%"],
     ["Passed", summary.passed.toString(), `${passedPct}%`],
+    ["Flaky", summary.flaky.toString(), `${flakyPct}%`],
     ["Failed", summary.failed.toString(), `${failedPct}%`],
     ["Errors", summary.errors.toString(), `${errorPct}%`],
     ["Capture Failures", summary.captureFailures.toString(), "-"],
@@ -75,6 +79,12 @@ export function formatNextSteps(summary: TestSummary): void {
     log.plain("• Check error details and fix configuration issues");
   }
 
+  if (summary.flaky > 0) {
+    log.plain(
+      "• Some tests only passed after a retry; check them for unstable content"
+    );
+  }
+
   if (summary.captureFailures > 0) {
     log.plain("• Verify Storybook is running and accessible");
   }
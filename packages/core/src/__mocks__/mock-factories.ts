@@ -77,6 +77,9 @@ export function createMockCaptureResult(
     error?: string;
     captureDurationMs?: number;
     captureFilename?: string;
+    attempts?: number;
+    parentId?: string;
+    checkpoint?: string;
   }> = {}
 ) {
   return {
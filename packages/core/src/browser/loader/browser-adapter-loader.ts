@@ -14,7 +14,9 @@ import log from "@/utils/logger";
  * @param adapterName - Name of the adapter to resolve
  * @returns Promise resolving to the imported module
  */
-async function resolveAndImportAdapter(adapterName: string): Promise<any> {
+export async function resolveAndImportAdapter(
+  adapterName: string
+): Promise<any> {
   // Strategy 1: Try to resolve from project's node_modules (local installation)
   // This should work in all environments when packages are properly installed locally
   try {
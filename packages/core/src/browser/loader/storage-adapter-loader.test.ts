@@ -0,0 +1,92 @@
+import { FsStorageAdapter } from "@visnap/fs-adapter";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { resolveAndImportAdapter } from "./browser-adapter-loader";
+import { loadStorageAdapter } from "./storage-adapter-loader";
+
+import { createMockStorageAdapter } from "@/__mocks__/mock-adapters";
+import { createMockConfig } from "@/__mocks__/mock-factories";
+
+vi.mock("@visnap/fs-adapter", () => ({
+  FsStorageAdapter: vi.fn(),
+}));
+
+vi.mock("./browser-adapter-loader", () => ({
+  resolveAndImportAdapter: vi.fn(),
+}));
+
+describe("loadStorageAdapter", () => {
+  const mockResolveAndImportAdapter = vi.mocked(resolveAndImportAdapter);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should default to the filesystem adapter", async () => {
+    await loadStorageAdapter(createMockConfig({ screenshotDir: "shots" }));
+
+    expect(FsStorageAdapter).toHaveBeenCalledWith({ screenshotDir: "shots" });
+    expect(mockResolveAndImportAdapter).not.toHaveBeenCalled();
+  });
+
+  it("should load the configured adapter module with screenshotDir and options", async () => {
+    const storage = createMockStorageAdapter();
+    const createAdapter = vi.fn().mockResolvedValue(storage);
+    mockResolveAndImportAdapter.mockResolvedValue({ createAdapter });
+
+    const config = createMockConfig({ screenshotDir: "shots" });
+    config.adapters.storage = {
+      name: "visnap-s3-storage",
+      options: { bucket: "snapshots" },
+    };
+
+    const result = await loadStorageAdapter(config);
+
+    expect(mockResolveAndImportAdapter).toHaveBeenCalledWith(
+      "visnap-s3-storage"
+    );
+    expect(createAdapter).toHaveBeenCalledWith({
+      screenshotDir: "shots",
+      bucket: "snapshots",
+    });
+    expect(result).toBe(storage);
+    expect(FsStorageAdapter).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid storage adapter options before loading", async () => {
+    const config = createMockConfig();
+    config.adapters.storage = {
+      name: "visnap-s3-storage",
+      options: "bucket=snapshots",
+    } as unknown as typeof config.adapters.storage;
+
+    await expect(loadStorageAdapter(config)).rejects.toThrow(
+      "Invalid storage adapter options"
+    );
+    expect(mockResolveAndImportAdapter).not.toHaveBeenCalled();
+  });
+
+  it("should fail when the module does not export createAdapter", async () => {
+    mockResolveAndImportAdapter.mockResolvedValue({ other: vi.fn() });
+
+    const config = createMockConfig();
+    config.adapters.storage = { name: "bad-storage" };
+
+    await expect(loadStorageAdapter(config)).rejects.toThrow(
+      "Failed to load storage adapter bad-storage: Storage adapter bad-storage must export createAdapter function"
+    );
+  });
+
+  it("should fail when the adapter is missing required methods", async () => {
+    mockResolveAndImportAdapter.mockResolvedValue({
+      createAdapter: () => ({ write: vi.fn(), read: vi.fn() }),
+    });
+
+    const config = createMockConfig();
+    config.adapters.storage = { name: "partial-storage" };
+
+    await expect(loadStorageAdapter(config)).rejects.toThrow(
+      "missing required methods: getReadablePath, exists, list"
+    );
+  });
+});
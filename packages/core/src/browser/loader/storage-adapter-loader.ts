@@ -5,18 +5,73 @@
 import { FsStorageAdapter } from "@visnap/fs-adapter";
 import type { VisualTestingToolConfig, StorageAdapter } from "@visnap/protocol";
 
+import { resolveAndImportAdapter } from "./browser-adapter-loader";
+import { formatAdapterError } from "./error-formatter";
+
 import { DEFAULT_SCREENSHOT_DIR } from "@/constants";
+import { validateStorageAdapterOptions } from "@/lib/config-schema";
+import log from "@/utils/logger";
+
+const REQUIRED_STORAGE_METHODS = [
+  "write",
+  "read",
+  "getReadablePath",
+  "exists",
+  "list",
+] as const;
 
 /**
  * Loads storage adapter based on configuration.
- * Currently only supports filesystem storage via FsStorageAdapter.
+ * Uses the module configured in `adapters.storage`, falling back to the
+ * filesystem storage via FsStorageAdapter when none is configured.
  * @param config - Visual testing tool configuration
  * @returns Promise resolving to initialized storage adapter
+ * @throws {ConfigError} If `adapters.storage` is not a valid adapter entry
+ * @throws {Error} If the configured adapter cannot be loaded or is incomplete
  */
 export async function loadStorageAdapter(
   config: VisualTestingToolConfig
 ): Promise<StorageAdapter> {
-  return new FsStorageAdapter({
-    screenshotDir: config.screenshotDir ?? DEFAULT_SCREENSHOT_DIR,
-  });
+  const screenshotDir = config.screenshotDir ?? DEFAULT_SCREENSHOT_DIR;
+
+  if (!config.adapters?.storage) {
+    return new FsStorageAdapter({ screenshotDir });
+  }
+
+  const { name: moduleName, options } = validateStorageAdapterOptions(
+    config.adapters.storage
+  );
+
+  try {
+    log.debug(`Loading storage adapter '${moduleName}'...`);
+
+    const mod = await resolveAndImportAdapter(moduleName);
+
+    // Check if the module exports createAdapter function
+    if (typeof mod?.createAdapter !== "function") {
+      throw new Error(
+        `Storage adapter ${moduleName} must export createAdapter function. ` +
+          `Found exports: ${Object.keys(mod).join(", ")}`
+      );
+    }
+
+    const adapter = await mod.createAdapter({
+      screenshotDir,
+      ...options,
+    });
+
+    const missing = REQUIRED_STORAGE_METHODS.filter(
+      method => typeof adapter?.[method] !== "function"
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Storage adapter ${moduleName} is missing required methods: ${missing.join(", ")}`
+      );
+    }
+
+    return adapter as StorageAdapter;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(formatAdapterError(moduleName, "storage", errorMessage));
+  }
 }
@@ -104,6 +104,14 @@ describe("compare", () => {
     if (mockPNGBitblt) {
       mockPNGBitblt.mockImplementation(() => {});
     }
+    mockPNG.mockImplementation(function (options?: {
+      width?: number;
+      height?: number;
+    }) {
+      const width = options?.width || 100;
+      const height = options?.height || 100;
+      return { data: new Uint8Array(width * height * 4), width, height } as any;
+    });
   });
 
   describe("compareDirectories with odiff", () => {
@@ -132,12 +140,15 @@ describe("compare", () => {
         match: true,
         reason: "",
         diffPercentage: 0,
+        diffPixels: 0,
       });
       expect(result[1]).toEqual({
         id: "file2.png",
         match: false,
         reason: "pixel-diff",
         diffPercentage: 5.2,
+        diffPixels: 100,
+        diffRegions: [],
       });
     });
 
@@ -163,6 +174,7 @@ describe("compare", () => {
         match: true,
         reason: "",
         diffPercentage: 0,
+        diffPixels: 0,
       });
       expect(result[1]).toEqual({
         id: "file2.png",
@@ -193,6 +205,7 @@ describe("compare", () => {
         match: true,
         reason: "",
         diffPercentage: 0,
+        diffPixels: 0,
       });
       expect(result[1]).toEqual({
         id: "file2.png",
@@ -224,10 +237,104 @@ describe("compare", () => {
         {
           threshold: 0.2,
           diffColor: "#ff0000",
+          failOnLayoutDiff: true,
         }
       );
     });
 
+    it("should report a size mismatch with both dimensions", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+      const pngHeader = (width: number, height: number) => {
+        const buffer = Buffer.alloc(24);
+        buffer.writeUInt32BE(width, 16);
+        buffer.writeUInt32BE(height, 20);
+        return buffer;
+      };
+      (mockStorage.read as any).mockImplementation((kind: string) =>
+        Promise.resolve(
+          kind === "base" ? pngHeader(200, 100) : pngHeader(200, 102)
+        )
+      );
+
+      mockOdiffCompare.mockResolvedValueOnce({
+        match: false,
+        reason: "layout-diff",
+      });
+
+      const result = await compareDirectories(mockStorage, {
+        comparisonCore: "odiff",
+      });
+
+      expect(result[0]).toEqual({
+        id: "file1.png",
+        match: false,
+        reason: "size-mismatch",
+        diffPercentage: 0,
+        baseDimensions: { width: 200, height: 100 },
+        currentDimensions: { width: 200, height: 102 },
+      });
+    });
+
+    it("should let odiff compare different sizes in pad mode", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+
+      mockOdiffCompare.mockResolvedValueOnce({ match: true });
+
+      await compareDirectories(mockStorage, {
+        comparisonCore: "odiff",
+        sizeMismatch: "pad",
+      });
+
+      expect(mockOdiffCompare).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ failOnLayoutDiff: false })
+      );
+    });
+
+    it("should report both dimensions for a padded pixel diff", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+      const pngHeader = (width: number, height: number) => {
+        const buffer = Buffer.alloc(24);
+        buffer.writeUInt32BE(width, 16);
+        buffer.writeUInt32BE(height, 20);
+        return buffer;
+      };
+      (mockStorage.read as any).mockImplementation((kind: string) =>
+        Promise.resolve(
+          kind === "base" ? pngHeader(200, 100) : pngHeader(200, 102)
+        )
+      );
+
+      mockOdiffCompare.mockResolvedValueOnce({
+        match: false,
+        reason: "pixel-diff",
+        diffPercentage: 2,
+        diffCount: 400,
+      });
+
+      const result = await compareDirectories(mockStorage, {
+        comparisonCore: "odiff",
+        sizeMismatch: "pad",
+      });
+
+      expect(result[0]).toMatchObject({
+        reason: "pixel-diff",
+        baseDimensions: { width: 200, height: 100 },
+        currentDimensions: { width: 200, height: 102 },
+      });
+    });
+
     it("should handle odiff errors", async () => {
       const mockStorage = createMockStorage();
       (mockStorage.list as any).mockImplementation(() =>
@@ -301,6 +408,8 @@ describe("compare", () => {
         match: false,
         reason: "pixel-diff",
         diffPercentage: 0.5, // 50/10000 * 100
+        diffPixels: 50,
+        diffRegions: [],
       });
     });
 
@@ -324,6 +433,151 @@ describe("compare", () => {
         match: true,
         reason: "",
         diffPercentage: 0,
+        diffPixels: 0,
+      });
+    });
+
+    it("should pass a diff within the configured tolerance", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+
+      mockPixelmatch.mockImplementation(() => 50);
+
+      const result = await compareDirectories(mockStorage, {
+        comparisonCore: "pixelmatch",
+        maxDiffPercentage: 1,
+        maxDiffPixels: 50,
+      });
+
+      expect(result[0]).toEqual({
+        id: "file1.png",
+        match: true,
+        reason: "",
+        diffPercentage: 0.5,
+        diffPixels: 50,
+        diffRegions: [],
+      });
+    });
+
+    it("should fail when any configured tolerance is exceeded", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+
+      mockPixelmatch.mockImplementation(() => 50);
+
+      const result = await compareDirectories(mockStorage, {
+        comparisonCore: "pixelmatch",
+        maxDiffPercentage: 1,
+        maxDiffPixels: 10,
+      });
+
+      expect(result[0]).toMatchObject({
+        match: false,
+        reason: "pixel-diff",
+        diffPixels: 50,
+      });
+    });
+
+    it("should report regions of pixels highlighted in the diff", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+      mockPixelmatch.mockImplementation((_a, _b, output) => {
+        for (const [x, y] of [
+          [10, 10],
+          [12, 11],
+          [80, 90],
+        ]) {
+          output!.set([0, 255, 0, 255], (y * 100 + x) * 4);
+        }
+        return 3;
+      });
+
+      const result = await compareDirectories(mockStorage, {
+        comparisonCore: "pixelmatch",
+        diffColor: "#00ff00",
+      });
+
+      expect(result[0].diffRegions).toEqual([
+        { x: 10, y: 10, width: 3, height: 2, pixels: 2 },
+        { x: 80, y: 90, width: 1, height: 1, pixels: 1 },
+      ]);
+    });
+
+    it("should fail fast when image sizes differ", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+      (mockPNG.sync.read as any)
+        .mockImplementationOnce(() => ({
+          data: new Uint8Array(100 * 102 * 4),
+          width: 100,
+          height: 102,
+        }))
+        .mockImplementationOnce(() => ({
+          data: new Uint8Array(40000),
+          width: 100,
+          height: 100,
+        }));
+
+      const result = await compareDirectories(mockStorage, {
+        comparisonCore: "pixelmatch",
+      });
+
+      expect(mockPixelmatch).not.toHaveBeenCalled();
+      expect(result[0]).toEqual({
+        id: "file1.png",
+        match: false,
+        reason: "size-mismatch",
+        diffPercentage: 0,
+        baseDimensions: { width: 100, height: 100 },
+        currentDimensions: { width: 100, height: 102 },
+      });
+    });
+
+    it("should pad images of different sizes in pad mode", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["file1.png"])
+      );
+      (mockPNG.sync.read as any)
+        .mockImplementationOnce(() => ({
+          data: new Uint8Array(100 * 102 * 4),
+          width: 100,
+          height: 102,
+        }))
+        .mockImplementationOnce(() => ({
+          data: new Uint8Array(40000),
+          width: 100,
+          height: 100,
+        }));
+      mockPixelmatch.mockImplementation(() => 200);
+
+      const result = await compareDirectories(mockStorage, {
+        comparisonCore: "pixelmatch",
+        sizeMismatch: "pad",
+      });
+
+      expect(mockPixelmatch).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        100,
+        102,
+        expect.anything()
+      );
+      expect(result[0]).toMatchObject({
+        match: false,
+        reason: "pixel-diff",
+        diffPixels: 200,
+        baseDimensions: { width: 100, height: 100 },
+        currentDimensions: { width: 100, height: 102 },
       });
     });
 
@@ -402,6 +656,7 @@ describe("compare", () => {
         {
           threshold: 0.1, // default threshold
           diffColor: "#00ff00",
+          failOnLayoutDiff: true,
         }
       );
       expect(mockOdiffCompare).toHaveBeenNthCalledWith(
@@ -412,10 +667,138 @@ describe("compare", () => {
         {
           threshold: 0.2, // test case specific threshold
           diffColor: "#00ff00",
+          failOnLayoutDiff: true,
         }
       );
     });
 
+    it("should apply per-case tolerance over the global one", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["story1-default.png", "story2-default.png"])
+      );
+
+      mockOdiffCompare.mockResolvedValue({
+        match: false,
+        reason: "pixel-diff",
+        diffCount: 50,
+        diffPercentage: 0.5,
+      });
+
+      const result = await compareTestCases(
+        mockStorage,
+        {
+          ...mockConfig,
+          comparison: { ...mockConfig.comparison, maxDiffPercentage: 0.1 },
+        } as any,
+        [mockTestCases[0], { ...mockTestCases[1], maxDiffPercentage: 1 }] as any
+      );
+
+      expect(result[0]).toMatchObject({ match: false, reason: "pixel-diff" });
+      expect(result[1]).toMatchObject({
+        match: true,
+        reason: "",
+        diffPercentage: 0.5,
+        diffPixels: 50,
+      });
+    });
+
+    it("should exclude configured and resolved ignore regions", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["story1-default.png"])
+      );
+      (mockStorage.read as any).mockImplementation(
+        (kind: string, filename: string) =>
+          Promise.resolve(
+            filename.endsWith(".meta.json")
+              ? Buffer.from(
+                  JSON.stringify({
+                    ignoreRegions: [
+                      kind === "base"
+                        ? { x: 5, y: 5, width: 10, height: 10 }
+                        : { x: 5, y: 7, width: 10, height: 10 },
+                      { x: 0, y: 0, width: 20, height: 4 },
+                    ],
+                  })
+                )
+              : Buffer.from("mock-png-data")
+          )
+      );
+      mockOdiffCompare.mockResolvedValueOnce({ match: true });
+
+      await compareTestCases(
+        mockStorage,
+        mockConfig as any,
+        [
+          {
+            ...mockTestCases[0],
+            ignoreRegions: [
+              { x: 0, y: 0, width: 20, height: 4 },
+              { selector: ".clock" },
+            ],
+          },
+        ] as any
+      );
+
+      expect(mockStorage.read).toHaveBeenCalledWith(
+        "base",
+        "story1-default.meta.json"
+      );
+      expect(mockOdiffCompare).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({
+          ignoreRegions: [
+            { x1: 0, y1: 0, x2: 19, y2: 3 },
+            { x1: 5, y1: 5, x2: 14, y2: 14 },
+            { x1: 5, y1: 7, x2: 14, y2: 16 },
+          ],
+        })
+      );
+    });
+
+    it("should not count pixels inside ignore regions with pixelmatch", async () => {
+      const mockStorage = createMockStorage();
+      (mockStorage.list as any).mockImplementation(() =>
+        Promise.resolve(["story1-default.png"])
+      );
+      (mockStorage.exists as any).mockImplementation(
+        (_kind: string, filename: string) =>
+          Promise.resolve(!filename.endsWith(".meta.json"))
+      );
+      (mockPNG.sync.read as any).mockImplementation(() => ({
+        data: new Uint8Array(40000).fill(255),
+        width: 100,
+        height: 100,
+      }));
+      let ignoredPixel: number[] = [];
+      let keptPixel: number[] = [];
+      mockPixelmatch.mockImplementation(current => {
+        ignoredPixel = Array.from(current.subarray(0, 4));
+        keptPixel = Array.from(current.subarray(10 * 4, 10 * 4 + 4));
+        return 0;
+      });
+
+      await compareTestCases(
+        mockStorage,
+        {
+          ...mockConfig,
+          comparison: { ...mockConfig.comparison, core: "pixelmatch" },
+        } as any,
+        [
+          {
+            ...mockTestCases[0],
+            ignoreRegions: [{ x: 0, y: 0, width: 10, height: 10 }],
+          },
+        ] as any
+      );
+
+      expect(ignoredPixel).toEqual([0, 0, 0, 0]);
+      expect(keptPixel).toEqual([255, 255, 255, 255]);
+    });
+
     it("should handle missing comparison config with defaults", async () => {
       const configWithoutComparison = { ...mockConfig };
       delete (configWithoutComparison as any).comparison;
@@ -442,6 +825,7 @@ describe("compare", () => {
         {
           threshold: 0.1, // DEFAULT_THRESHOLD
           diffColor: "#00ff00", // DEFAULT_DIFF_COLOR
+          failOnLayoutDiff: true, // DEFAULT_SIZE_MISMATCH
         }
       );
     });
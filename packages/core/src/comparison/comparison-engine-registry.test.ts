@@ -5,6 +5,13 @@ import {
   comparisonEngineRegistry,
   registerBuiltInEngines,
 } from "./comparison-engine-registry";
+import { createComparisonEngine } from "./utils";
+
+import { resolveAndImportAdapter } from "@/browser/adapter-loader";
+
+vi.mock("@/browser/adapter-loader", () => ({
+  resolveAndImportAdapter: vi.fn(),
+}));
 
 describe("comparison-engine-registry", () => {
   beforeEach(() => {
@@ -209,4 +216,102 @@ describe("comparison-engine-registry", () => {
       ).rejects.toThrow("Engine error");
     });
   });
+
+  describe("resolve", () => {
+    const mockResolveAndImportAdapter = vi.mocked(resolveAndImportAdapter);
+
+    beforeEach(() => {
+      mockResolveAndImportAdapter.mockReset();
+    });
+
+    it("should return a registered engine by name", async () => {
+      registerBuiltInEngines();
+
+      const engine = await comparisonEngineRegistry.resolve("pixelmatch");
+
+      expect(engine).toBeInstanceOf(PixelmatchEngine);
+      expect(mockResolveAndImportAdapter).not.toHaveBeenCalled();
+    });
+
+    it("should return an engine object without registering it", async () => {
+      const customEngine = {
+        name: "perceptual",
+        compare: vi.fn(),
+      };
+
+      const engine = await comparisonEngineRegistry.resolve(customEngine);
+
+      expect(engine).toBe(customEngine);
+      expect(comparisonEngineRegistry.has("perceptual")).toBe(false);
+    });
+
+    it("should not let an engine object replace a built-in engine", async () => {
+      registerBuiltInEngines();
+      const customEngine = { name: "odiff", compare: vi.fn() };
+
+      await comparisonEngineRegistry.resolve(customEngine);
+
+      expect(comparisonEngineRegistry.get("odiff")).toBeInstanceOf(OdiffEngine);
+    });
+
+    it("should reject objects that are not comparison engines", async () => {
+      await expect(
+        comparisonEngineRegistry.resolve({ name: "broken" } as any)
+      ).rejects.toThrow("must have a name and a compare function");
+    });
+
+    it("should load an engine module and cache it under the module name", async () => {
+      const moduleEngine = { name: "ssim", compare: vi.fn() };
+      const createEngine = vi.fn().mockResolvedValue(moduleEngine);
+      mockResolveAndImportAdapter.mockResolvedValue({ createEngine });
+
+      const first = await comparisonEngineRegistry.resolve("visnap-ssim");
+      const second = await comparisonEngineRegistry.resolve("visnap-ssim");
+
+      expect(first).toBe(moduleEngine);
+      expect(second).toBe(moduleEngine);
+      expect(mockResolveAndImportAdapter).toHaveBeenCalledTimes(1);
+      expect(mockResolveAndImportAdapter).toHaveBeenCalledWith("visnap-ssim");
+    });
+
+    it("should fail when the module cannot be imported", async () => {
+      registerBuiltInEngines();
+      mockResolveAndImportAdapter.mockRejectedValue(
+        new Error("Cannot find module")
+      );
+
+      await expect(
+        comparisonEngineRegistry.resolve("missing-engine")
+      ).rejects.toThrow(
+        "Comparison engine 'missing-engine' not found. Available engines: odiff, pixelmatch"
+      );
+    });
+
+    it("should fail when the module does not export createEngine", async () => {
+      mockResolveAndImportAdapter.mockResolvedValue({ compare: vi.fn() });
+
+      await expect(
+        comparisonEngineRegistry.resolve("bad-engine")
+      ).rejects.toThrow("must export createEngine function");
+    });
+
+    it("should fail when createEngine returns an invalid engine", async () => {
+      mockResolveAndImportAdapter.mockResolvedValue({
+        createEngine: () => ({}),
+      });
+
+      await expect(
+        comparisonEngineRegistry.resolve("bad-engine")
+      ).rejects.toThrow("createEngine must return an object");
+    });
+  });
+
+  describe("createComparisonEngine", () => {
+    it("should register built-in engines on first use", async () => {
+      const engine = await createComparisonEngine("odiff");
+
+      expect(engine).toBeInstanceOf(OdiffEngine);
+      expect(comparisonEngineRegistry.has("pixelmatch")).toBe(true);
+    });
+  });
 });
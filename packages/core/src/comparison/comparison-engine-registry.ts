@@ -1,6 +1,22 @@
 import type { ComparisonEngine, ComparisonCore } from "@visnap/protocol";
 
-import { OdiffEngine, PixelmatchEngine } from "./compare";
+import { OdiffEngine, PixelmatchEngine } from "./engines";
+
+import { resolveAndImportAdapter } from "@/browser/adapter-loader";
+import { getErrorMessage } from "@/utils/error-handler";
+import log from "@/utils/logger";
+
+/**
+ * Checks whether a value implements the ComparisonEngine interface
+ */
+function isComparisonEngine(value: unknown): value is ComparisonEngine {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ComparisonEngine).name === "string" &&
+    typeof (value as ComparisonEngine).compare === "function"
+  );
+}
 
 /**
  * Registry for comparison engines
@@ -9,10 +25,10 @@ class ComparisonEngineRegistry {
   private engines = new Map<ComparisonCore, ComparisonEngine>();
 
   /**
-   * Register a comparison engine
+   * Register a comparison engine, optionally under a name other than its own
    */
-  register(engine: ComparisonEngine): void {
-    this.engines.set(engine.name as ComparisonCore, engine);
+  register(engine: ComparisonEngine, name: ComparisonCore = engine.name): void {
+    this.engines.set(name, engine);
   }
 
   /**
@@ -41,6 +57,59 @@ class ComparisonEngineRegistry {
   has(name: ComparisonCore): boolean {
     return this.engines.has(name);
   }
+
+  /**
+   * Resolve an engine from config: a ComparisonEngine object is returned as-is
+   * without registering it, so it cannot replace a built-in engine, a registered
+   * name is returned directly, and any other name is imported as a module
+   * exporting a createEngine function
+   */
+  async resolve(
+    core: ComparisonCore | ComparisonEngine
+  ): Promise<ComparisonEngine> {
+    if (typeof core !== "string") {
+      if (!isComparisonEngine(core)) {
+        throw new Error(
+          "Comparison engine objects must have a name and a compare function"
+        );
+      }
+      return core;
+    }
+
+    if (this.has(core)) {
+      return this.get(core);
+    }
+
+    log.debug(`Loading comparison engine '${core}'...`);
+    const mod: unknown = await resolveAndImportAdapter(core).catch(
+      (error: unknown) => {
+        throw new Error(
+          `Comparison engine '${core}' not found. Available engines: ${Array.from(this.engines.keys()).join(", ")}. ` +
+            `To use a custom engine, install it locally: npm install -D ${core} (${getErrorMessage(error)})`
+        );
+      }
+    );
+
+    const exports = typeof mod === "object" && mod !== null ? mod : {};
+    const createEngine =
+      "createEngine" in exports ? exports.createEngine : undefined;
+    if (typeof createEngine !== "function") {
+      throw new Error(
+        `Comparison engine ${core} must export createEngine function. ` +
+          `Found exports: ${Object.keys(exports).join(", ")}`
+      );
+    }
+
+    const engine: unknown = await createEngine();
+    if (!isComparisonEngine(engine)) {
+      throw new Error(
+        `Comparison engine ${core} createEngine must return an object with a name and a compare function`
+      );
+    }
+
+    this.register(engine, core);
+    return engine;
+  }
 }
 
 // Global registry instance
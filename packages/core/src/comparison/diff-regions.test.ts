@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+
+import { findDiffRegions, hexToRgb, pixelMatchesColor } from "./diff-regions";
+
+/**
+ * Builds a predicate over a width x height image from a list of changed points.
+ */
+const changedAt = (width: number, points: Array<[number, number]>) => {
+  const changed = new Set(points.map(([x, y]) => y * width + x));
+  return (index: number) => changed.has(index);
+};
+
+describe("diff-regions", () => {
+  describe("findDiffRegions", () => {
+    it("should return no regions when nothing changed", () => {
+      expect(findDiffRegions(50, 50, () => false)).toEqual([]);
+    });
+
+    it("should return the bounding box of a single cluster", () => {
+      const regions = findDiffRegions(
+        100,
+        100,
+        changedAt(100, [
+          [10, 20],
+          [14, 22],
+          [12, 25],
+        ])
+      );
+
+      expect(regions).toEqual([
+        { x: 10, y: 20, width: 5, height: 6, pixels: 3 },
+      ]);
+    });
+
+    it("should merge changes a few pixels apart into one region", () => {
+      const regions = findDiffRegions(
+        100,
+        100,
+        changedAt(100, [
+          [6, 6],
+          [12, 6],
+        ])
+      );
+
+      expect(regions).toEqual([{ x: 6, y: 6, width: 7, height: 1, pixels: 2 }]);
+    });
+
+    it("should keep distant changes as separate regions in reading order", () => {
+      const regions = findDiffRegions(
+        200,
+        200,
+        changedAt(200, [
+          [150, 10],
+          [5, 100],
+          [10, 10],
+        ])
+      );
+
+      expect(regions.map(r => [r.x, r.y])).toEqual([
+        [10, 10],
+        [150, 10],
+        [5, 100],
+      ]);
+    });
+
+    it("should keep only the largest regions when there are too many", () => {
+      const points: Array<[number, number]> = [];
+      for (let i = 0; i < 60; i++) {
+        points.push([(i % 10) * 40, Math.floor(i / 10) * 40]);
+      }
+      // Make one region larger than the others
+      points.push([1, 0], [2, 0]);
+
+      const regions = findDiffRegions(400, 240, changedAt(400, points));
+
+      expect(regions).toHaveLength(50);
+      expect(regions[0]).toEqual({
+        x: 0,
+        y: 0,
+        width: 3,
+        height: 1,
+        pixels: 3,
+      });
+    });
+  });
+
+  describe("pixelMatchesColor", () => {
+    it("should compare the RGB channels at the given offset", () => {
+      const data = new Uint8Array([0, 0, 0, 255, 0, 255, 0, 128]);
+
+      expect(pixelMatchesColor(data, 4, [0, 255, 0])).toBe(true);
+      expect(pixelMatchesColor(data, 0, [0, 255, 0])).toBe(false);
+    });
+  });
+
+  describe("hexToRgb", () => {
+    it("should parse hex colors with or without a leading hash", () => {
+      expect(hexToRgb("#00ff00")).toEqual([0, 255, 0]);
+      expect(hexToRgb("FF0000")).toEqual([255, 0, 0]);
+    });
+
+    it("should throw on invalid colors", () => {
+      expect(() => hexToRgb("green")).toThrow("Invalid hex color: green");
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Clustering of changed pixels into diff regions
+ */
+
+import type { DiffRegion } from "@visnap/protocol";
+
+/** Changed pixels are bucketed into square cells of this size; touching cells form one region */
+const DIFF_REGION_CELL_SIZE = 8;
+/** Maximum number of regions reported per comparison; the largest ones are kept */
+const MAX_DIFF_REGIONS = 50;
+
+/**
+ * Converts a hex color string to RGB values.
+ * @param hex - Hex color string (e.g., "#ff0000" or "ff0000")
+ * @returns RGB values as a tuple
+ * @throws {Error} If the hex string is invalid
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  const HEX_COLOR_REGEX = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i;
+  const result = HEX_COLOR_REGEX.exec(hex);
+  if (!result) {
+    throw new Error(`Invalid hex color: ${hex}`);
+  }
+  return [
+    parseInt(result[1], 16),
+    parseInt(result[2], 16),
+    parseInt(result[3], 16),
+  ];
+}
+
+/**
+ * Checks whether the RGBA pixel at the given byte offset has the given color.
+ * @param data - RGBA pixel data
+ * @param offset - Byte offset of the pixel
+ * @param color - RGB color to match
+ * @returns True if the pixel's RGB channels equal the color
+ */
+export function pixelMatchesColor(
+  data: Uint8Array,
+  offset: number,
+  color: [number, number, number]
+): boolean {
+  return (
+    data[offset] === color[0] &&
+    data[offset + 1] === color[1] &&
+    data[offset + 2] === color[2]
+  );
+}
+
+/**
+ * Groups changed pixels into bounding boxes of connected regions.
+ * Pixels are bucketed into small cells so that changes a few pixels apart
+ * (such as the glyphs of one label) end up in the same region.
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param isChanged - Returns whether the pixel at the given index changed
+ * @returns Regions ordered top-to-bottom, left-to-right
+ */
+export function findDiffRegions(
+  width: number,
+  height: number,
+  isChanged: (pixelIndex: number) => boolean
+): DiffRegion[] {
+  const columns = Math.ceil(width / DIFF_REGION_CELL_SIZE);
+  const rows = Math.ceil(height / DIFF_REGION_CELL_SIZE);
+  const cellCount = columns * rows;
+  const cellPixels = new Uint32Array(cellCount);
+  const cellMinX = new Int32Array(cellCount);
+  const cellMinY = new Int32Array(cellCount);
+  const cellMaxX = new Int32Array(cellCount);
+  const cellMaxY = new Int32Array(cellCount);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / DIFF_REGION_CELL_SIZE) * columns;
+    for (let x = 0; x < width; x++) {
+      if (!isChanged(y * width + x)) continue;
+
+      const cell = row + Math.floor(x / DIFF_REGION_CELL_SIZE);
+      if (cellPixels[cell] === 0) {
+        cellMinX[cell] = x;
+        cellMinY[cell] = y;
+        cellMaxX[cell] = x;
+        cellMaxY[cell] = y;
+      } else {
+        cellMinX[cell] = Math.min(cellMinX[cell], x);
+        cellMaxX[cell] = Math.max(cellMaxX[cell], x);
+        cellMaxY[cell] = y;
+      }
+      cellPixels[cell]++;
+    }
+  }
+
+  const visited = new Uint8Array(cellCount);
+  const regions: DiffRegion[] = [];
+
+  for (let start = 0; start < cellCount; start++) {
+    if (cellPixels[start] === 0 || visited[start]) continue;
+
+    let minX = cellMinX[start];
+    let minY = cellMinY[start];
+    let maxX = cellMaxX[start];
+    let maxY = cellMaxY[start];
+    let pixels = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      minX = Math.min(minX, cellMinX[cell]);
+      minY = Math.min(minY, cellMinY[cell]);
+      maxX = Math.max(maxX, cellMaxX[cell]);
+      maxY = Math.max(maxY, cellMaxY[cell]);
+      pixels += cellPixels[cell];
+
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const neighborColumn = column + dx;
+          const neighborRow = row + dy;
+          if (
+            neighborColumn < 0 ||
+            neighborColumn >= columns ||
+            neighborRow < 0 ||
+            neighborRow >= rows
+          ) {
+            continue;
+          }
+          const neighbor = neighborRow * columns + neighborColumn;
+          if (cellPixels[neighbor] > 0 && !visited[neighbor]) {
+            visited[neighbor] = 1;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+
+    regions.push({
+      x: minX,
+      y: minY,
+      width: maxX - minX + 1,
+      height: maxY - minY + 1,
+      pixels,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.pixels - a.pixels)
+    .slice(0, MAX_DIFF_REGIONS)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+}
@@ -5,9 +5,13 @@
 import type { StorageAdapter } from "@visnap/protocol";
 
 import type { CompareOptions, CompareResult } from "./test-case-comparer";
-import { createComparisonEngine } from "./utils";
+import { applyDiffTolerance, createComparisonEngine } from "./utils";
 
-import { DEFAULT_THRESHOLD, DEFAULT_DIFF_COLOR } from "@/constants";
+import {
+  DEFAULT_THRESHOLD,
+  DEFAULT_DIFF_COLOR,
+  DEFAULT_SIZE_MISMATCH,
+} from "@/constants";
 
 // CompareOptions and CompareResult are defined in test-case-comparer.ts
 
@@ -33,8 +37,9 @@ export const compareDirectories = async (
 
   const threshold = options.threshold ?? DEFAULT_THRESHOLD;
   const diffColor = options.diffColor ?? DEFAULT_DIFF_COLOR;
+  const sizeMismatch = options.sizeMismatch ?? DEFAULT_SIZE_MISMATCH;
 
-  const engine = createComparisonEngine(options.comparisonCore);
+  const engine = await createComparisonEngine(options.comparisonCore);
   const results: CompareResult[] = [];
 
   for (const file of files) {
@@ -50,16 +55,27 @@ export const compareDirectories = async (
       continue;
     }
 
-    const diffResult = await engine.compare(storage, file, {
-      threshold,
-      diffColor,
-    });
+    const diffResult = applyDiffTolerance(
+      await engine.compare(storage, file, {
+        threshold,
+        diffColor,
+        sizeMismatch,
+      }),
+      {
+        maxDiffPercentage: options.maxDiffPercentage,
+        maxDiffPixels: options.maxDiffPixels,
+      }
+    );
 
     results.push({
       id: file,
       match: diffResult.match,
       reason: diffResult.reason,
       diffPercentage: diffResult.diffPercentage,
+      diffPixels: diffResult.diffPixels,
+      diffRegions: diffResult.diffRegions,
+      baseDimensions: diffResult.baseDimensions,
+      currentDimensions: diffResult.currentDimensions,
     });
   }
 
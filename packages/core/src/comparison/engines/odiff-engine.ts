@@ -2,12 +2,121 @@
  * @fileoverview Odiff-based comparison engine for image comparison
  */
 
-import type { StorageAdapter, ComparisonEngine } from "@visnap/protocol";
+import type {
+  StorageAdapter,
+  ComparisonEngine,
+  DiffRegion,
+  ImageDimensions,
+  RegionRect,
+  SizeMismatchMode,
+} from "@visnap/protocol";
 import odiff from "odiff-bin";
+import { PNG } from "pngjs";
 
-import { DEFAULT_DIFF_COLOR } from "@/constants";
+import { findDiffRegions, hexToRgb, pixelMatchesColor } from "../diff-regions";
+
+import { DEFAULT_DIFF_COLOR, DEFAULT_SIZE_MISMATCH } from "@/constants";
 import { getErrorMessage } from "@/utils/error-handler";
 
+/**
+ * Reads image dimensions from the IHDR chunk of a PNG file.
+ * @param buffer - Encoded PNG data
+ * @returns Width and height of the image
+ */
+function readPngDimensions(buffer: Uint8Array): ImageDimensions {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.length);
+  // 8-byte signature, 4-byte chunk length and "IHDR" precede width and height
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+/**
+ * Reads the dimensions of the base and current images.
+ * @param storage - Storage adapter for accessing image files
+ * @param filename - Name of the compared image file
+ * @returns Base and current image dimensions
+ */
+async function readImageDimensions(
+  storage: StorageAdapter,
+  filename: string
+): Promise<{
+  baseDimensions: ImageDimensions;
+  currentDimensions: ImageDimensions;
+}> {
+  const [baseBuffer, currentBuffer] = await Promise.all([
+    storage.read("base", filename),
+    storage.read("current", filename),
+  ]);
+  return {
+    baseDimensions: readPngDimensions(baseBuffer),
+    currentDimensions: readPngDimensions(currentBuffer),
+  };
+}
+
+/**
+ * Reads the base and current image dimensions when the sizes differ.
+ * @param storage - Storage adapter for accessing image files
+ * @param filename - Name of the compared image file
+ * @returns Both dimensions, or undefined if the sizes match or cannot be read
+ */
+async function readSizeDifference(
+  storage: StorageAdapter,
+  filename: string
+): Promise<
+  | { baseDimensions: ImageDimensions; currentDimensions: ImageDimensions }
+  | undefined
+> {
+  try {
+    const dimensions = await readImageDimensions(storage, filename);
+    const { baseDimensions: base, currentDimensions: current } = dimensions;
+    return base.width !== current.width || base.height !== current.height
+      ? dimensions
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Locates changed regions in the diff image odiff wrote. Pixels that already
+ * have the highlight color in the current screenshot are not counted.
+ * @param storage - Storage adapter for accessing image files
+ * @param filename - Name of the compared image file
+ * @param diffColor - Hex color odiff used to highlight differences
+ * @returns Changed regions, or undefined if the images cannot be decoded
+ */
+async function readDiffRegions(
+  storage: StorageAdapter,
+  filename: string,
+  diffColor: string
+): Promise<DiffRegion[] | undefined> {
+  try {
+    const [diffBuffer, currentBuffer] = await Promise.all([
+      storage.read("diff", filename),
+      storage.read("current", filename),
+    ]);
+    const diffPng = PNG.sync.read(Buffer.from(diffBuffer));
+    const currentPng = PNG.sync.read(Buffer.from(currentBuffer));
+    const color = hexToRgb(diffColor);
+
+    return findDiffRegions(diffPng.width, diffPng.height, index => {
+      if (!pixelMatchesColor(diffPng.data, index * 4, color)) return false;
+      const x = index % diffPng.width;
+      const y = Math.floor(index / diffPng.width);
+      return (
+        x >= currentPng.width ||
+        y >= currentPng.height ||
+        !pixelMatchesColor(
+          currentPng.data,
+          (y * currentPng.width + x) * 4,
+          color
+        )
+      );
+    });
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Odiff-based comparison engine for image comparison.
  */
@@ -18,32 +127,67 @@ export class OdiffEngine implements ComparisonEngine {
    * Compares two images using the odiff engine.
    * @param storage - Storage adapter for accessing image files
    * @param filename - Name of the image file to compare
-   * @param options - Comparison options including threshold and diff color
+   * @param options - Comparison options including threshold, diff color, size mismatch handling and ignore regions
    * @returns Promise resolving to comparison result
    */
   async compare(
     storage: StorageAdapter,
     filename: string,
-    options: { threshold: number; diffColor?: string }
-  ): Promise<{ match: boolean; reason: string; diffPercentage?: number }> {
+    options: {
+      threshold: number;
+      diffColor?: string;
+      sizeMismatch?: SizeMismatchMode;
+      ignoreRegions?: RegionRect[];
+    }
+  ): Promise<{
+    match: boolean;
+    reason: string;
+    diffPercentage?: number;
+    diffPixels?: number;
+    diffRegions?: DiffRegion[];
+    baseDimensions?: ImageDimensions;
+    currentDimensions?: ImageDimensions;
+  }> {
     try {
       // Get readable paths for odiff (it expects file paths)
       const currentFile = await storage.getReadablePath("current", filename);
       const baseFile = await storage.getReadablePath("base", filename);
       const diffFile = await storage.getReadablePath("diff", filename);
 
+      const diffColor = options.diffColor ?? DEFAULT_DIFF_COLOR;
       const diffResult = await odiff.compare(currentFile, baseFile, diffFile, {
-        diffColor: options.diffColor ?? DEFAULT_DIFF_COLOR,
+        diffColor,
         threshold: options.threshold,
+        failOnLayoutDiff:
+          (options.sizeMismatch ?? DEFAULT_SIZE_MISMATCH) === "fail",
+        ignoreRegions: options.ignoreRegions?.map(region => ({
+          x1: region.x,
+          y1: region.y,
+          x2: region.x + region.width - 1,
+          y2: region.y + region.height - 1,
+        })),
       });
 
       if (diffResult.match) {
-        return { match: true, reason: "", diffPercentage: 0 };
+        return { match: true, reason: "", diffPercentage: 0, diffPixels: 0 };
       } else if (diffResult.reason === "pixel-diff") {
+        // Images of different sizes are padded in "pad" mode; report both
+        // sizes like the pixelmatch engine does
+        const sizeDifference = await readSizeDifference(storage, filename);
         return {
           match: false,
           reason: diffResult.reason,
           diffPercentage: diffResult.diffPercentage,
+          diffPixels: diffResult.diffCount,
+          diffRegions: await readDiffRegions(storage, filename, diffColor),
+          ...sizeDifference,
+        };
+      } else if (diffResult.reason === "layout-diff") {
+        return {
+          match: false,
+          reason: "size-mismatch",
+          diffPercentage: 0,
+          ...(await readImageDimensions(storage, filename)),
         };
       } else {
         return {
@@ -2,12 +2,25 @@
  * @fileoverview Pixelmatch-based comparison engine for image comparison
  */
 
-import type { StorageAdapter, ComparisonEngine } from "@visnap/protocol";
+import type {
+  StorageAdapter,
+  ComparisonEngine,
+  DiffRegion,
+  ImageDimensions,
+  RegionRect,
+  SizeMismatchMode,
+} from "@visnap/protocol";
 import pixelmatch from "pixelmatch";
 import { PNG } from "pngjs";
 
+import { findDiffRegions, hexToRgb, pixelMatchesColor } from "../diff-regions";
+
+import { DEFAULT_SIZE_MISMATCH } from "@/constants";
 import { getErrorMessage } from "@/utils/error-handler";
 
+/** Color pixelmatch uses to highlight differences when none is configured */
+const PIXELMATCH_DEFAULT_DIFF_COLOR: [number, number, number] = [255, 0, 0];
+
 /**
  * Resizes a PNG image to the specified dimensions.
  * @param image - The PNG image to resize
@@ -21,6 +34,27 @@ function resizeImage(image: PNG, width: number, height: number): PNG {
   return resized as PNG;
 }
 
+/**
+ * Clears the given regions to transparent black so they compare as equal.
+ * @param image - The PNG image to modify in place
+ * @param regions - Rectangles to clear, in image pixels
+ */
+function clearRegions(image: PNG, regions: RegionRect[]): void {
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(image.width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+    for (let y = top; y < bottom; y++) {
+      image.data.fill(
+        0,
+        (y * image.width + left) * 4,
+        (y * image.width + right) * 4
+      );
+    }
+  }
+}
+
 /**
  * Pixelmatch-based comparison engine for image comparison.
  */
@@ -31,14 +65,27 @@ export class PixelmatchEngine implements ComparisonEngine {
    * Compares two images using the pixelmatch engine.
    * @param storage - Storage adapter for accessing image files
    * @param filename - Name of the image file to compare
-   * @param options - Comparison options including threshold and diff color
+   * @param options - Comparison options including threshold, diff color, size mismatch handling and ignore regions
    * @returns Promise resolving to comparison result
    */
   async compare(
     storage: StorageAdapter,
     filename: string,
-    options: { threshold: number; diffColor?: string }
-  ): Promise<{ match: boolean; reason: string; diffPercentage?: number }> {
+    options: {
+      threshold: number;
+      diffColor?: string;
+      sizeMismatch?: SizeMismatchMode;
+      ignoreRegions?: RegionRect[];
+    }
+  ): Promise<{
+    match: boolean;
+    reason: string;
+    diffPercentage?: number;
+    diffPixels?: number;
+    diffRegions?: DiffRegion[];
+    baseDimensions?: ImageDimensions;
+    currentDimensions?: ImageDimensions;
+  }> {
     try {
       // Read and decode PNG files using storage adapter
       const [currentBuffer, baseBuffer] = await Promise.all([
@@ -48,26 +95,54 @@ export class PixelmatchEngine implements ComparisonEngine {
       let currentPng = PNG.sync.read(Buffer.from(currentBuffer)) as any;
       let basePng = PNG.sync.read(Buffer.from(baseBuffer)) as any;
 
-      // Handle dimension mismatches by resizing images
-      const maxWidth = Math.max(currentPng.width || 100, basePng.width || 100);
-      const maxHeight = Math.max(
-        currentPng.height || 100,
-        basePng.height || 100
-      );
+      // Handle dimension mismatches by failing fast or padding both images
+      let dimensions:
+        | {
+            baseDimensions: ImageDimensions;
+            currentDimensions: ImageDimensions;
+          }
+        | undefined;
 
       if (
         currentPng.width !== basePng.width ||
         currentPng.height !== basePng.height
       ) {
+        dimensions = {
+          baseDimensions: { width: basePng.width, height: basePng.height },
+          currentDimensions: {
+            width: currentPng.width,
+            height: currentPng.height,
+          },
+        };
+
+        if ((options.sizeMismatch ?? DEFAULT_SIZE_MISMATCH) === "fail") {
+          return {
+            match: false,
+            reason: "size-mismatch",
+            diffPercentage: 0,
+            ...dimensions,
+          };
+        }
+
+        const maxWidth = Math.max(currentPng.width, basePng.width);
+        const maxHeight = Math.max(currentPng.height, basePng.height);
         currentPng = resizeImage(currentPng, maxWidth, maxHeight);
         basePng = resizeImage(basePng, maxWidth, maxHeight);
       }
 
+      if (options.ignoreRegions && options.ignoreRegions.length > 0) {
+        clearRegions(currentPng, options.ignoreRegions);
+        clearRegions(basePng, options.ignoreRegions);
+      }
+
       const { width, height } = currentPng;
       const totalPixels = width * height;
 
       // Create diff image buffer
       const diffPng = new PNG({ width, height });
+      const diffColor = options.diffColor
+        ? hexToRgb(options.diffColor)
+        : PIXELMATCH_DEFAULT_DIFF_COLOR;
 
       // Compare images using pixelmatch
       const mismatchedPixels = pixelmatch(
@@ -78,23 +153,28 @@ export class PixelmatchEngine implements ComparisonEngine {
         height,
         {
           threshold: options.threshold,
-          diffColor: options.diffColor
-            ? hexToRgb(options.diffColor)
-            : undefined,
+          diffColor,
         }
       );
 
       const diffPercentage = (mismatchedPixels / totalPixels) * 100;
 
-      // Only write diff image when there are actual differences
+      // Only write diff image and locate changed regions when there are actual differences
+      let diffRegions: DiffRegion[] | undefined;
       if (mismatchedPixels > 0) {
         await storage.write("diff", filename, PNG.sync.write(diffPng));
+        diffRegions = findDiffRegions(width, height, index =>
+          pixelMatchesColor(diffPng.data, index * 4, diffColor)
+        );
       }
 
       return {
         match: mismatchedPixels === 0,
         reason: mismatchedPixels === 0 ? "" : "pixel-diff",
         diffPercentage,
+        diffPixels: mismatchedPixels,
+        diffRegions,
+        ...dimensions,
       };
     } catch (error) {
       const message = getErrorMessage(error);
@@ -113,22 +193,3 @@ export class PixelmatchEngine implements ComparisonEngine {
     }
   }
 }
-
-/**
- * Converts a hex color string to RGB values.
- * @param hex - Hex color string (e.g., "#ff0000" or "ff0000")
- * @returns RGB values as a tuple
- * @throws {Error} If the hex string is invalid
- */
-function hexToRgb(hex: string): [number, number, number] {
-  const HEX_COLOR_REGEX = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i;
-  const result = HEX_COLOR_REGEX.exec(hex);
-  if (!result) {
-    throw new Error(`Invalid hex color: ${hex}`);
-  }
-  return [
-    parseInt(result[1], 16),
-    parseInt(result[2], 16),
-    parseInt(result[3], 16),
-  ];
-}
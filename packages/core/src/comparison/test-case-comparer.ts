@@ -7,29 +7,47 @@ import type {
   TestCaseInstance,
   VisualTestingToolConfig,
   ComparisonCore,
+  ComparisonEngine,
+  DiffRegion,
+  IgnoreRegion,
+  ImageDimensions,
+  RegionRect,
+  SizeMismatchMode,
 } from "@visnap/protocol";
 import { SNAPSHOT_EXTENSION } from "@visnap/protocol";
 
-import { createComparisonEngine } from "./utils";
+import {
+  applyDiffTolerance,
+  createComparisonEngine,
+  type DiffTolerance,
+} from "./utils";
 
 import {
   DEFAULT_THRESHOLD,
   DEFAULT_COMPARISON_CORE,
   DEFAULT_DIFF_COLOR,
+  DEFAULT_SIZE_MISMATCH,
 } from "@/constants";
 import { createConcurrencyPool } from "@/lib/pool";
+import { readSnapshotMetadata } from "@/test/screenshot-writer";
 import { roundToTwoDecimals } from "@/utils/math";
 
 /**
  * Options for image comparison operations.
  */
 export interface CompareOptions {
-  /** The comparison engine to use for image comparison. */
-  comparisonCore: ComparisonCore;
+  /** The comparison engine to use: built-in name, module name, or engine object. */
+  comparisonCore: ComparisonCore | ComparisonEngine;
   /** Pixel difference threshold (0-1) for determining matches. */
   threshold?: number;
   /** Color to use for highlighting differences in diff images. */
   diffColor?: string;
+  /** Maximum percentage (0-100) of differing pixels that still passes. */
+  maxDiffPercentage?: number;
+  /** Maximum number of differing pixels that still passes. */
+  maxDiffPixels?: number;
+  /** Whether images of different sizes fail fast or are padded and compared. */
+  sizeMismatch?: SizeMismatchMode;
 }
 
 /**
@@ -44,10 +62,52 @@ export interface CompareResult {
   reason: string;
   /** Percentage of pixels that differ (0-100). */
   diffPercentage?: number;
+  /** Number of pixels that differ, when reported by the engine. */
+  diffPixels?: number;
+  /** Bounding boxes of connected changed regions, when reported by the engine. */
+  diffRegions?: DiffRegion[];
+  /** Baseline image dimensions, reported when the sizes differ. */
+  baseDimensions?: ImageDimensions;
+  /** Current image dimensions, reported when the sizes differ. */
+  currentDimensions?: ImageDimensions;
   /** Duration of the comparison operation in milliseconds. */
   comparisonDurationMs?: number;
 }
 
+/**
+ * Collects the rectangles to exclude from comparing a snapshot: configured
+ * rectangles plus selector regions resolved during base and current capture.
+ * @param storage - Storage adapter for reading snapshot metadata
+ * @param filename - Snapshot filename
+ * @param configured - Ignore regions configured for the test case
+ * @returns Distinct rectangles in image pixels
+ */
+async function collectIgnoreRegions(
+  storage: StorageAdapter,
+  filename: string,
+  configured: IgnoreRegion[]
+): Promise<RegionRect[]> {
+  const [baseMetadata, currentMetadata] = await Promise.all([
+    readSnapshotMetadata(storage, "base", filename),
+    readSnapshotMetadata(storage, "current", filename),
+  ]);
+  const regions = [
+    ...configured.filter(
+      (region): region is RegionRect => !("selector" in region)
+    ),
+    ...(baseMetadata?.ignoreRegions ?? []),
+    ...(currentMetadata?.ignoreRegions ?? []),
+  ];
+
+  const seen = new Set<string>();
+  return regions.filter(({ x, y, width, height }) => {
+    const key = `${x},${y},${width},${height}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 /**
  * Compares test case screenshots with support for per-test-case configuration.
  * @param storage - Storage adapter for accessing image files
@@ -65,10 +125,17 @@ export const compareTestCases = async (
     core: config.comparison?.core ?? DEFAULT_COMPARISON_CORE,
     threshold: config.comparison?.threshold ?? DEFAULT_THRESHOLD,
     diffColor: config.comparison?.diffColor ?? DEFAULT_DIFF_COLOR,
+    sizeMismatch: config.comparison?.sizeMismatch ?? DEFAULT_SIZE_MISMATCH,
+  };
+  const globalTolerance: DiffTolerance = {
+    maxDiffPercentage: config.comparison?.maxDiffPercentage,
+    maxDiffPixels: config.comparison?.maxDiffPixels,
   };
 
-  // Map filename -> threshold (supports per-instance override)
+  // Map filename -> threshold and tolerance (supports per-instance override)
   const idToThreshold = new Map<string, number>();
+  const idToTolerance = new Map<string, DiffTolerance>();
+  const idToIgnoreRegions = new Map<string, IgnoreRegion[]>();
   for (const testCase of testCases) {
     const file = `${testCase.caseId}-${testCase.variantId}${SNAPSHOT_EXTENSION}`;
     const maybeThreshold = (testCase as unknown as { threshold?: number })
@@ -76,6 +143,14 @@ export const compareTestCases = async (
     if (typeof maybeThreshold === "number") {
       idToThreshold.set(file, maybeThreshold);
     }
+    idToTolerance.set(file, {
+      maxDiffPercentage:
+        testCase.maxDiffPercentage ?? globalTolerance.maxDiffPercentage,
+      maxDiffPixels: testCase.maxDiffPixels ?? globalTolerance.maxDiffPixels,
+    });
+    if (testCase.ignoreRegions && testCase.ignoreRegions.length > 0) {
+      idToIgnoreRegions.set(file, testCase.ignoreRegions);
+    }
   }
 
   // Only compare files that correspond to the test cases that were actually run
@@ -97,7 +172,7 @@ export const compareTestCases = async (
   // Only include files that are expected from the test cases
   const files = Array.from(expectedFiles).sort((a, b) => a.localeCompare(b));
 
-  const engine = createComparisonEngine(comparisonConfig.core);
+  const engine = await createComparisonEngine(comparisonConfig.core);
   const maxConcurrencyConfig = config.runtime?.maxConcurrency;
   const compareMax =
     typeof maxConcurrencyConfig === "number"
@@ -121,12 +196,21 @@ export const compareTestCases = async (
     }
 
     const threshold = idToThreshold.get(file) ?? comparisonConfig.threshold;
+    const configuredIgnoreRegions = idToIgnoreRegions.get(file);
+    const ignoreRegions = configuredIgnoreRegions
+      ? await collectIgnoreRegions(storage, file, configuredIgnoreRegions)
+      : undefined;
 
     const comparisonStartTime = performance.now();
-    const diffResult = await engine.compare(storage, file, {
-      threshold,
-      diffColor: comparisonConfig.diffColor,
-    });
+    const diffResult = applyDiffTolerance(
+      await engine.compare(storage, file, {
+        threshold,
+        diffColor: comparisonConfig.diffColor,
+        sizeMismatch: comparisonConfig.sizeMismatch,
+        ignoreRegions,
+      }),
+      idToTolerance.get(file) ?? globalTolerance
+    );
     const comparisonDurationMs = roundToTwoDecimals(
       performance.now() - comparisonStartTime
     );
@@ -136,6 +220,10 @@ export const compareTestCases = async (
       match: diffResult.match,
       reason: diffResult.reason,
       diffPercentage: diffResult.diffPercentage,
+      diffPixels: diffResult.diffPixels,
+      diffRegions: diffResult.diffRegions,
+      baseDimensions: diffResult.baseDimensions,
+      currentDimensions: diffResult.currentDimensions,
       comparisonDurationMs,
     };
   });
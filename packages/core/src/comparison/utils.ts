@@ -4,21 +4,85 @@
 
 import type { ComparisonCore, ComparisonEngine } from "@visnap/protocol";
 
-import { OdiffEngine, PixelmatchEngine } from "./engines";
+import {
+  comparisonEngineRegistry,
+  registerBuiltInEngines,
+} from "./comparison-engine-registry";
 
 /**
  * Creates a comparison engine instance based on the specified core.
- * @param core - The comparison core to use
- * @returns Comparison engine instance
- * @throws {Error} If the comparison core is not supported
+ * Built-in engines are registered on first use; other names are loaded
+ * through the comparison engine registry.
+ * @param core - Built-in engine name, engine module name, or engine object
+ * @returns Promise resolving to the comparison engine instance
+ * @throws {Error} If the comparison core cannot be resolved
  */
-export function createComparisonEngine(core: ComparisonCore): ComparisonEngine {
-  switch (core) {
-    case "odiff":
-      return new OdiffEngine();
-    case "pixelmatch":
-      return new PixelmatchEngine();
-    default:
-      throw new Error(`Unsupported comparison core: ${core}`);
+export async function createComparisonEngine(
+  core: ComparisonCore | ComparisonEngine
+): Promise<ComparisonEngine> {
+  if (
+    !comparisonEngineRegistry.has("odiff") ||
+    !comparisonEngineRegistry.has("pixelmatch")
+  ) {
+    registerBuiltInEngines();
   }
+  return comparisonEngineRegistry.resolve(core);
+}
+
+/**
+ * Returns the display name of a configured comparison core.
+ * @param core - Engine name or engine object
+ * @returns Engine name
+ */
+export function getComparisonCoreName(
+  core: ComparisonCore | ComparisonEngine
+): string {
+  return typeof core === "string" ? core : core.name;
+}
+
+/**
+ * Failure tolerance applied on top of the engine's per-pixel threshold.
+ */
+export interface DiffTolerance {
+  /** Maximum percentage (0-100) of differing pixels that still passes. */
+  maxDiffPercentage?: number;
+  /** Maximum number of differing pixels that still passes. */
+  maxDiffPixels?: number;
+}
+
+/**
+ * Turns a pixel-diff result into a match when the diff stays within every
+ * configured tolerance. Without any tolerance, any differing pixel fails.
+ * @param result - Result returned by the comparison engine
+ * @param tolerance - Configured diff tolerance
+ * @returns The result, marked as a match if the diff is tolerated
+ */
+export function applyDiffTolerance<
+  T extends {
+    match: boolean;
+    reason: string;
+    diffPercentage?: number;
+    diffPixels?: number;
+  },
+>(result: T, tolerance: DiffTolerance): T {
+  const { maxDiffPercentage, maxDiffPixels } = tolerance;
+  if (
+    result.match ||
+    result.reason !== "pixel-diff" ||
+    (maxDiffPercentage === undefined && maxDiffPixels === undefined)
+  ) {
+    return result;
+  }
+
+  const withinPercentage =
+    maxDiffPercentage === undefined ||
+    (result.diffPercentage !== undefined &&
+      result.diffPercentage <= maxDiffPercentage);
+  const withinPixels =
+    maxDiffPixels === undefined ||
+    (result.diffPixels !== undefined && result.diffPixels <= maxDiffPixels);
+
+  return withinPercentage && withinPixels
+    ? { ...result, match: true, reason: "" }
+    : result;
 }
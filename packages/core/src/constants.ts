@@ -15,11 +15,21 @@ export const DEFAULT_THRESHOLD = 0.1;
 export const DEFAULT_BROWSER = "chromium" as const;
 export const DEFAULT_COMPARISON_CORE = "odiff" as const;
 export const DEFAULT_DIFF_COLOR = "#00ff00";
+/** Images of different sizes fail instead of being padded and pixel-compared */
+export const DEFAULT_SIZE_MISMATCH = "fail" as const;
+/** No retries by default - a single failed attempt fails the case */
+export const DEFAULT_RETRIES = 0;
 
 // Timeouts (in milliseconds)
 
 /** 30 second timeout per capture - prevents hanging on problematic pages */
 export const DEFAULT_CAPTURE_TIMEOUT_MS = 30000;
+/** 60 second timeout for a configured web server to respond - dev servers compile on start */
+export const DEFAULT_WEB_SERVER_TIMEOUT_MS = 60000;
+/** Interval between web server health checks */
+export const WEB_SERVER_POLL_INTERVAL_MS = 250;
+/** Grace period for a web server to exit after SIGTERM before it is killed */
+export const WEB_SERVER_STOP_TIMEOUT_MS = 5000;
 
 // File extensions
 export const CONFIG_FILE_EXTENSIONS = {
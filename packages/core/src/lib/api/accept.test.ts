@@ -0,0 +1,168 @@
+import { readFile } from "fs/promises";
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { acceptBaselines, acceptBaselinesCli } from "./accept";
+
+import { createMockStorageAdapter } from "@/__mocks__/mock-adapters";
+import { createMockConfig } from "@/__mocks__/mock-factories";
+import { loadStorageAdapter } from "@/browser/adapter-loader";
+import { resolveEffectiveConfig } from "@/lib/config";
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(),
+}));
+
+vi.mock("@/lib/config", () => ({
+  resolveEffectiveConfig: vi.fn(),
+  resolveScreenshotDir: (dir?: string) => dir ?? "visnap",
+}));
+
+vi.mock("@/browser/adapter-loader", () => ({
+  loadStorageAdapter: vi.fn(),
+}));
+
+describe("accept API", () => {
+  const mockReadFile = vi.mocked(readFile);
+  const mockResolveEffectiveConfig = vi.mocked(resolveEffectiveConfig);
+  const mockLoadStorageAdapter = vi.mocked(loadStorageAdapter);
+
+  let storage: ReturnType<typeof createMockStorageAdapter>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = createMockStorageAdapter({
+      read: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3])),
+      exists: vi
+        .fn()
+        .mockImplementation(
+          async (_kind: string, filename: string) =>
+            !filename.endsWith(".meta.json")
+        ),
+    });
+    mockLoadStorageAdapter.mockResolvedValue(storage);
+    mockResolveEffectiveConfig.mockResolvedValue(
+      createMockConfig({ screenshotDir: "shots" })
+    );
+  });
+
+  describe("acceptBaselines", () => {
+    it("should copy named cases from current to base", async () => {
+      const result = await acceptBaselines({}, { ids: ["button-primary"] });
+
+      expect(storage.read).toHaveBeenCalledWith(
+        "current",
+        "button-primary.png"
+      );
+      expect(storage.write).toHaveBeenCalledWith(
+        "base",
+        "button-primary.png",
+        new Uint8Array([1, 2, 3])
+      );
+      expect(result).toEqual({ accepted: ["button-primary.png"], missing: [] });
+      expect(mockReadFile).not.toHaveBeenCalled();
+    });
+
+    it("should accept IDs given as snapshot filenames and sanitize them", async () => {
+      const result = await acceptBaselines(
+        {},
+        { ids: ["card-default.png", "page/home"] }
+      );
+
+      expect(result.accepted).toEqual(["card-default.png", "page_home.png"]);
+    });
+
+    it("should promote failures from the JSON report", async () => {
+      mockReadFile.mockResolvedValue(
+        JSON.stringify({
+          failures: [
+            { id: "a.png", reason: "pixel-diff" },
+            { id: "b.png", reason: "missing-base" },
+          ],
+        })
+      );
+
+      const result = await acceptBaselines({}, { failed: true });
+
+      expect(mockReadFile).toHaveBeenCalledWith("shots/report.json", "utf8");
+      expect(result.accepted).toEqual(["a.png", "b.png"]);
+    });
+
+    it("should use the configured JSON report path", async () => {
+      mockResolveEffectiveConfig.mockResolvedValue(
+        createMockConfig({ reporter: { json: "reports/visnap.json" } })
+      );
+      mockReadFile.mockResolvedValue(JSON.stringify({ failures: [] }));
+
+      await acceptBaselines({}, { failed: true });
+
+      expect(mockReadFile).toHaveBeenCalledWith("reports/visnap.json", "utf8");
+    });
+
+    it("should prefer an explicit report path", async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({ failures: [] }));
+
+      await acceptBaselines({}, { failed: true, reportPath: "custom.json" });
+
+      expect(mockReadFile).toHaveBeenCalledWith("custom.json", "utf8");
+    });
+
+    it("should report cases without a current screenshot as missing", async () => {
+      vi.mocked(storage.exists).mockImplementation(
+        async (_kind, filename) =>
+          filename !== "gone.png" && !filename.endsWith(".meta.json")
+      );
+
+      const result = await acceptBaselines({}, { ids: ["gone", "kept"] });
+
+      expect(result).toEqual({ accepted: ["kept.png"], missing: ["gone.png"] });
+      expect(storage.write).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not copy the same case twice", async () => {
+      mockReadFile.mockResolvedValue(
+        JSON.stringify({ failures: [{ id: "a.png", reason: "pixel-diff" }] })
+      );
+
+      const result = await acceptBaselines({}, { failed: true, ids: ["a"] });
+
+      expect(result.accepted).toEqual(["a.png"]);
+      expect(storage.write).toHaveBeenCalledTimes(1);
+    });
+
+    it("should copy the metadata sidecar along with the screenshot", async () => {
+      vi.mocked(storage.exists).mockResolvedValue(true);
+
+      await acceptBaselines({}, { ids: ["card"] });
+
+      expect(storage.read).toHaveBeenCalledWith("current", "card.meta.json");
+      expect(storage.write).toHaveBeenCalledWith(
+        "base",
+        "card.meta.json",
+        new Uint8Array([1, 2, 3])
+      );
+    });
+
+    it("should throw a helpful error when the report cannot be read", async () => {
+      mockReadFile.mockRejectedValue(new Error("ENOENT"));
+
+      await expect(acceptBaselines({}, { failed: true })).rejects.toThrow(
+        "Unable to read test report at shots/report.json"
+      );
+    });
+  });
+
+  describe("acceptBaselinesCli", () => {
+    it("should forward the config path to config resolution", async () => {
+      await acceptBaselinesCli(
+        {},
+        { ids: ["a"], configPath: "visnap.config.ts" }
+      );
+
+      expect(mockResolveEffectiveConfig).toHaveBeenCalledWith(
+        {},
+        { configPath: "visnap.config.ts" }
+      );
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { readFile } from "fs/promises";
+
+import type { VisualTestingToolConfig, TestResult } from "@visnap/protocol";
+import { SNAPSHOT_EXTENSION } from "@visnap/protocol";
+
+import { loadStorageAdapter } from "@/browser/adapter-loader";
+import { resolveEffectiveConfig, resolveScreenshotDir } from "@/lib/config";
+import {
+  toMetadataFilename,
+  toSnapshotFilename,
+} from "@/test/screenshot-writer";
+import { ConfigError, getErrorMessage } from "@/utils/error-handler";
+import log from "@/utils/logger";
+
+export interface AcceptOptions {
+  /** Promote every case that failed in the last test run */
+  failed?: boolean;
+  /** Promote only the named test cases */
+  ids?: string[];
+  /** Path to the JSON report of the last run (defaults to the configured JSON report path) */
+  reportPath?: string;
+}
+
+export interface AcceptResult {
+  /** Snapshot filenames copied from current into base */
+  accepted: string[];
+  /** Snapshot filenames that had no current image to promote */
+  missing: string[];
+}
+
+/**
+ * Resolves the JSON report location the same way the reporter writes it.
+ * @param config - Effective configuration
+ * @param reportPath - Explicit report path override
+ * @returns Path to the JSON report
+ */
+function resolveReportPath(
+  config: VisualTestingToolConfig,
+  reportPath?: string
+): string {
+  if (reportPath) return reportPath;
+  if (typeof config.reporter?.json === "string") return config.reporter.json;
+  return `${resolveScreenshotDir(config.screenshotDir)}/report.json`;
+}
+
+/**
+ * Reads the snapshot filenames of failed cases from a JSON report.
+ * @param reportPath - Path to the JSON report written by the JSON reporter
+ * @returns Filenames of failed snapshots
+ * @throws {ConfigError} If the report cannot be read or parsed
+ */
+async function readFailedFromReport(reportPath: string): Promise<string[]> {
+  let report: Pick<TestResult, "failures">;
+  try {
+    report = JSON.parse(await readFile(reportPath, "utf8"));
+  } catch (error) {
+    throw new ConfigError(
+      `Unable to read test report at ${reportPath}: ${getErrorMessage(error)}. Run 'visnap test' with the JSON reporter enabled first.`
+    );
+  }
+
+  return (report.failures ?? []).map(failure => failure.id);
+}
+
+/**
+ * Maps a user supplied ID (with or without extension) to its snapshot filename.
+ * @param id - Test case ID or snapshot filename
+ * @returns Snapshot filename in storage
+ */
+function toFilename(id: string): string {
+  return toSnapshotFilename(
+    id.endsWith(SNAPSHOT_EXTENSION)
+      ? id.slice(0, -SNAPSHOT_EXTENSION.length)
+      : id
+  );
+}
+
+/**
+ * Internal function that promotes current screenshots to baselines without capturing.
+ * @param options - Configuration options
+ * @param acceptOptions - Selection of cases to accept
+ * @param configPath - Optional path to the configuration file
+ * @returns Accepted and missing snapshot filenames
+ */
+async function acceptBaselinesInternal(
+  options: Partial<VisualTestingToolConfig>,
+  acceptOptions: AcceptOptions,
+  configPath?: string
+): Promise<AcceptResult> {
+  const effectiveConfig = await resolveEffectiveConfig(
+    options,
+    configPath ? { configPath } : undefined
+  );
+
+  const selected = new Set<string>();
+  if (acceptOptions.failed) {
+    const reportPath = resolveReportPath(
+      effectiveConfig,
+      acceptOptions.reportPath
+    );
+    for (const filename of await readFailedFromReport(reportPath)) {
+      selected.add(toFilename(filename));
+    }
+  }
+  for (const id of acceptOptions.ids ?? []) {
+    selected.add(toFilename(id));
+  }
+
+  const storage = await loadStorageAdapter(effectiveConfig);
+  const accepted: string[] = [];
+  const missing: string[] = [];
+
+  for (const filename of selected) {
+    if (!(await storage.exists("current", filename))) {
+      log.warn(`No current screenshot to accept: ${filename}`);
+      missing.push(filename);
+      continue;
+    }
+
+    const buffer = await storage.read("current", filename);
+    await storage.write("base", filename, buffer);
+
+    // Carry over capture metadata such as resolved ignore regions
+    const metadataFilename = toMetadataFilename(filename);
+    if (await storage.exists("current", metadataFilename)) {
+      await storage.write(
+        "base",
+        metadataFilename,
+        await storage.read("current", metadataFilename)
+      );
+    }
+    log.success(`Accepted: ${filename}`);
+    accepted.push(filename);
+  }
+
+  return { accepted, missing };
+}
+
+/**
+ * Promotes existing current screenshots to baselines without re-capturing.
+ * @param options - Configuration options
+ * @param acceptOptions - Selection of cases to accept
+ * @returns Accepted and missing snapshot filenames
+ */
+export async function acceptBaselines(
+  options: Partial<VisualTestingToolConfig>,
+  acceptOptions: AcceptOptions
+): Promise<AcceptResult> {
+  return acceptBaselinesInternal(options, acceptOptions);
+}
+
+/**
+ * Promotes existing current screenshots to baselines with CLI-specific options.
+ * @param options - Configuration options
+ * @param cliOptions - Selection of cases to accept and config path
+ * @returns Accepted and missing snapshot filenames
+ */
+export async function acceptBaselinesCli(
+  options: Partial<VisualTestingToolConfig> = {},
+  cliOptions: AcceptOptions & { configPath?: string }
+): Promise<AcceptResult> {
+  const { configPath, ...acceptOptions } = cliOptions;
+  return acceptBaselinesInternal(options, acceptOptions, configPath);
+}
@@ -4,6 +4,10 @@ export type { TestResult } from "@visnap/protocol";
 // Update API
 export { updateBaseline, updateBaselineCli } from "./update";
 
+// Accept API
+export { acceptBaselines, acceptBaselinesCli } from "./accept";
+export type { AcceptOptions, AcceptResult } from "./accept";
+
 // Init API
 export { initializeProject } from "./init";
 export type { InitOptions, InitResult } from "./init";
@@ -18,6 +18,7 @@ import {
 import { parseBrowsersFromConfig } from "@/browser/browser-config";
 import { resolveEffectiveConfig } from "@/lib/config";
 import { discoverCasesFromAllAdapters } from "@/test/test-discovery";
+import { startWebServer } from "@/web-server";
 
 // Mock dependencies
 const mockGetAdapter = vi.fn();
@@ -47,6 +48,10 @@ vi.mock("@/test/test-discovery", () => ({
   discoverCasesFromAllAdapters: vi.fn(),
 }));
 
+vi.mock("@/web-server", () => ({
+  startWebServer: vi.fn(),
+}));
+
 describe("list API", () => {
   const mockLoadBrowserAdapter = vi.mocked(loadBrowserAdapter);
   const mockLoadAllTestCaseAdapters = vi.mocked(loadAllTestCaseAdapters);
@@ -55,6 +60,20 @@ describe("list API", () => {
   const mockDiscoverCasesFromAllAdapters = vi.mocked(
     discoverCasesFromAllAdapters
   );
+
+  /**
+   * Discovery mock that resolves the browser adapter like an adapter needing a page.
+   */
+  const discoverWithBrowser =
+    (testCases: ReturnType<typeof createMockTestCase>[]) =>
+    async (
+      _adapters: unknown,
+      browserAdapter: Parameters<typeof discoverCasesFromAllAdapters>[1]
+    ) => {
+      if (typeof browserAdapter === "function") await browserAdapter();
+      return testCases;
+    };
+
   beforeEach(() => {
     vi.clearAllMocks();
 
@@ -78,7 +97,9 @@ describe("list API", () => {
       mockLoadBrowserAdapter.mockResolvedValue(mockBrowserAdapter);
       mockLoadAllTestCaseAdapters.mockResolvedValue(mockTestCaseAdapters);
       mockParseBrowsersFromConfig.mockReturnValue(mockBrowsers);
-      mockDiscoverCasesFromAllAdapters.mockResolvedValue(mockTestCases);
+      mockDiscoverCasesFromAllAdapters.mockImplementation(
+        discoverWithBrowser(mockTestCases)
+      );
 
       // Make sure the pool returns the expected adapter
       mockGetAdapter.mockResolvedValue(mockBrowserAdapter);
@@ -103,7 +124,7 @@ describe("list API", () => {
       );
       expect(mockDiscoverCasesFromAllAdapters).toHaveBeenCalledWith(
         mockTestCaseAdapters,
-        mockBrowserAdapter,
+        expect.any(Function),
         mockConfig.viewport,
         mockBrowsers
       );
@@ -409,7 +430,9 @@ describe("list API", () => {
       mockLoadBrowserAdapter.mockResolvedValue(mockBrowserAdapter);
       mockLoadAllTestCaseAdapters.mockResolvedValue(mockTestCaseAdapters);
       mockParseBrowsersFromConfig.mockReturnValue(mockBrowsers);
-      mockDiscoverCasesFromAllAdapters.mockResolvedValue(mockTestCases);
+      mockDiscoverCasesFromAllAdapters.mockImplementation(
+        discoverWithBrowser(mockTestCases)
+      );
       mockGetAdapter.mockResolvedValue(mockBrowserAdapter);
 
       await listTestCases();
@@ -426,6 +449,46 @@ describe("list API", () => {
       expect(mockDisposeAll).toHaveBeenCalledTimes(1);
     });
 
+    it("should not launch a browser when no adapter needs a page", async () => {
+      mockResolveEffectiveConfig.mockResolvedValue(createMockConfig());
+      mockLoadAllTestCaseAdapters.mockResolvedValue([
+        createMockTestCaseAdapter(),
+      ]);
+      mockParseBrowsersFromConfig.mockReturnValue([{ name: "chromium" }]);
+      mockDiscoverCasesFromAllAdapters.mockResolvedValue([
+        createMockTestCase({ caseId: "button", variantId: "default" }),
+      ]);
+
+      const result = await listTestCases();
+
+      expect(result.testCases).toHaveLength(1);
+      expect(mockGetAdapter).not.toHaveBeenCalled();
+    });
+
+    it("should start the web server before discovery and stop it afterwards", async () => {
+      const stop = vi.fn().mockResolvedValue(undefined);
+      const webServer = {
+        command: "npm run storybook",
+        url: "http://localhost:6006",
+      };
+      vi.mocked(startWebServer).mockResolvedValue({ stop });
+      mockResolveEffectiveConfig.mockResolvedValue(
+        createMockConfig({ webServer })
+      );
+      mockLoadAllTestCaseAdapters.mockResolvedValue([
+        createMockTestCaseAdapter(),
+      ]);
+      mockParseBrowsersFromConfig.mockReturnValue([{ name: "chromium" }]);
+      mockDiscoverCasesFromAllAdapters.mockRejectedValue(
+        new Error("Discovery failed")
+      );
+
+      await expect(listTestCases()).rejects.toThrow("Discovery failed");
+
+      expect(startWebServer).toHaveBeenCalledWith(webServer);
+      expect(stop).toHaveBeenCalledTimes(1);
+    });
+
     it("should call disposeAll even when discovery fails", async () => {
       const mockConfig = createMockConfig();
       const mockBrowserAdapter = createMockBrowserAdapter();
@@ -456,6 +519,9 @@ describe("list API", () => {
       mockLoadAllTestCaseAdapters.mockResolvedValue(mockTestCaseAdapters);
       mockParseBrowsersFromConfig.mockReturnValue(mockBrowsers);
       mockGetAdapter.mockRejectedValue(adapterError);
+      mockDiscoverCasesFromAllAdapters.mockImplementation(
+        discoverWithBrowser([])
+      );
 
       await expect(listTestCases()).rejects.toThrow("Adapter failed");
 
@@ -510,7 +576,9 @@ describe("list API", () => {
       mockLoadBrowserAdapter.mockResolvedValue(mockBrowserAdapter);
       mockLoadAllTestCaseAdapters.mockResolvedValue(mockTestCaseAdapters);
       mockParseBrowsersFromConfig.mockReturnValue(mockBrowsers);
-      mockDiscoverCasesFromAllAdapters.mockResolvedValue(mockTestCases);
+      mockDiscoverCasesFromAllAdapters.mockImplementation(
+        discoverWithBrowser(mockTestCases)
+      );
       mockGetAdapter.mockResolvedValue(mockBrowserAdapter);
 
       await listTestCases();
@@ -13,6 +13,7 @@ import { parseBrowsersFromConfig } from "@/browser/browser-config";
 import { resolveEffectiveConfig } from "@/lib/config";
 import { discoverCasesFromAllAdapters } from "@/test/test-discovery";
 import log from "@/utils/logger";
+import { startWebServer, type WebServerHandle } from "@/web-server";
 
 export interface ListResult {
   testCases: (TestCaseInstanceMeta & { browser: BrowserName })[];
@@ -34,6 +35,8 @@ async function listTestCasesInternal(
   cliOptions?: {
     include?: string | string[];
     exclude?: string | string[];
+    includeTags?: string | string[];
+    excludeTags?: string | string[];
     configPath?: string;
   }
 ): Promise<ListResult> {
@@ -57,17 +60,17 @@ async function listTestCasesInternal(
   };
 
   let testCases: (TestCaseInstanceMeta & { browser: BrowserName })[] = [];
+  let webServer: WebServerHandle | undefined;
 
   try {
-    // Get initialized browser adapter from pool
-    const browserAdapter = await getBrowserAdapter(
-      browsers[0].name,
-      browsers[0].options
-    );
+    if (effectiveConfig.webServer) {
+      webServer = await startWebServer(effectiveConfig.webServer);
+    }
 
+    // Get the browser adapter from the pool only when an adapter needs a page
     testCases = await discoverCasesFromAllAdapters(
       testCaseAdapters,
-      browserAdapter,
+      () => getBrowserAdapter(browsers[0].name, browsers[0].options),
       effectiveConfig.viewport,
       browsers
     );
@@ -83,6 +86,12 @@ async function listTestCasesInternal(
         log.warn(`Error stopping test case adapter ${adapter.name}: ${error}`);
       }
     }
+
+    try {
+      await webServer?.stop();
+    } catch (error) {
+      log.warn(`Error stopping web server: ${error}`);
+    }
   }
 
   // Extract unique browsers and viewports
@@ -128,7 +137,12 @@ export async function listTestCases(
  */
 export async function listTestCasesCli(
   options: Partial<VisualTestingToolConfig> = {},
-  cliOptions: { include?: string | string[]; exclude?: string | string[] }
+  cliOptions: {
+    include?: string | string[];
+    exclude?: string | string[];
+    includeTags?: string | string[];
+    excludeTags?: string | string[];
+  }
 ): Promise<ListResult> {
   return listTestCasesInternal(options, cliOptions);
 }
@@ -1,5 +1,6 @@
 import type { VisualTestingToolConfig, TestResult } from "@visnap/protocol";
 
+import { getComparisonCoreName } from "@/comparison/utils";
 import { resolveEffectiveConfig } from "@/lib/config";
 import { executeTestRun } from "@/utils/testcase-runner";
 
@@ -14,6 +15,8 @@ async function runVisualTestsInternal(
   cliOptions?: {
     include?: string | string[];
     exclude?: string | string[];
+    includeTags?: string | string[];
+    excludeTags?: string | string[];
     configPath?: string;
   }
 ): Promise<TestResult> {
@@ -34,7 +37,11 @@ async function runVisualTestsInternal(
   const config = {
     screenshotDir: effectiveConfig.screenshotDir,
     adapters: effectiveConfig.adapters,
-    comparison: effectiveConfig.comparison,
+    comparison: effectiveConfig.comparison && {
+      ...effectiveConfig.comparison,
+      // Engine objects are not serializable; keep only their name for reports
+      core: getComparisonCoreName(effectiveConfig.comparison.core),
+    },
     runtime: effectiveConfig.runtime,
     viewport: effectiveConfig.viewport,
     reporter: effectiveConfig.reporter,
@@ -69,7 +76,12 @@ export async function runVisualTests(
  */
 export async function runVisualTestsCli(
   options: Partial<VisualTestingToolConfig> = {},
-  cliOptions: { include?: string | string[]; exclude?: string | string[] }
+  cliOptions: {
+    include?: string | string[];
+    exclude?: string | string[];
+    includeTags?: string | string[];
+    excludeTags?: string | string[];
+  }
 ): Promise<TestResult> {
   return runVisualTestsInternal(options, cliOptions);
 }
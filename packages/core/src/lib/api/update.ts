@@ -13,6 +13,8 @@ async function updateBaselineInternal(
   cliOptions?: {
     include?: string | string[];
     exclude?: string | string[];
+    includeTags?: string | string[];
+    excludeTags?: string | string[];
     configPath?: string;
   }
 ): Promise<void> {
@@ -38,7 +40,12 @@ export async function updateBaseline(
  */
 export async function updateBaselineCli(
   options: Partial<VisualTestingToolConfig> = {},
-  cliOptions: { include?: string | string[]; exclude?: string | string[] }
+  cliOptions: {
+    include?: string | string[];
+    exclude?: string | string[];
+    includeTags?: string | string[];
+    excludeTags?: string | string[];
+  }
 ): Promise<void> {
   return updateBaselineInternal(options, cliOptions);
 }
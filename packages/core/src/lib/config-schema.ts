@@ -15,9 +15,12 @@ const viewportMapSchema = type("object");
 const comparisonCoreSchema = type("'odiff'|'pixelmatch'|string");
 
 const comparisonConfigSchema = type({
-  core: comparisonCoreSchema,
+  core: comparisonCoreSchema.or("object"),
   threshold: "number>=0&number<=1",
   diffColor: "string?",
+  "maxDiffPercentage?": "number>=0&number<=100",
+  "maxDiffPixels?": "number.integer>=0",
+  "sizeMismatch?": "'fail'|'pad'",
 });
 
 const browserNameSchema = type("'chromium'|'firefox'|'webkit'|string");
@@ -34,9 +37,23 @@ const testCaseAdapterOptionsSchema = type({
   options: "object?",
 });
 
+const storageAdapterOptionsSchema = type({
+  name: "string",
+  options: "object?",
+});
+
 const runtimeConfigSchema = type({
   "maxConcurrency?": "number>0|object",
   "quiet?": "boolean",
+  "retries?": "number.integer>=0",
+  "captureTimeoutMs?": "number>0",
+});
+
+const webServerConfigSchema = type({
+  command: "string>0",
+  url: "string>0",
+  "timeout?": "number>0",
+  "reuseExisting?": "boolean",
 });
 
 const reporterConfigSchema = type({
@@ -50,12 +67,14 @@ const visualTestingToolConfigSchema = type({
   adapters: {
     browser: browserAdapterOptionsSchema,
     testCase: "object[]",
+    "storage?": storageAdapterOptionsSchema,
   },
   "comparison?": comparisonConfigSchema,
   "screenshotDir?": "string",
   "runtime?": runtimeConfigSchema,
   "viewport?": viewportMapSchema,
   "reporter?": reporterConfigSchema,
+  "webServer?": webServerConfigSchema,
 });
 
 // ============= Type Exports (inferred from schemas) =============
@@ -68,8 +87,10 @@ export type BrowserName = typeof browserNameSchema.infer;
 export type BrowserConfiguration = typeof browserConfigurationSchema.infer;
 export type BrowserAdapterOptions = typeof browserAdapterOptionsSchema.infer;
 export type TestCaseAdapterOptions = typeof testCaseAdapterOptionsSchema.infer;
+export type StorageAdapterOptions = typeof storageAdapterOptionsSchema.infer;
 export type RuntimeConfig = typeof runtimeConfigSchema.infer;
 export type ReporterConfig = typeof reporterConfigSchema.infer;
+export type WebServerConfig = typeof webServerConfigSchema.infer;
 export type VisualTestingToolConfig =
   typeof visualTestingToolConfigSchema.infer;
 
@@ -148,6 +169,19 @@ export function validateTestCaseAdapterOptions(
   return options as TestCaseAdapterOptions[];
 }
 
+/**
+ * Validates storage adapter options
+ */
+export function validateStorageAdapterOptions(
+  options: unknown
+): StorageAdapterOptions {
+  const result = storageAdapterOptionsSchema(options);
+  if (result instanceof type.errors) {
+    throw new ConfigError(`Invalid storage adapter options: ${result.summary}`);
+  }
+  return result;
+}
+
 /**
  * Validates runtime config
  */
@@ -192,7 +226,9 @@ export {
   browserConfigurationSchema,
   browserAdapterOptionsSchema,
   testCaseAdapterOptionsSchema,
+  storageAdapterOptionsSchema,
   runtimeConfigSchema,
   reporterConfigSchema,
+  webServerConfigSchema,
   visualTestingToolConfigSchema,
 };
@@ -193,6 +193,37 @@ describe("config", () => {
       expect(result.comparison?.threshold).toBe(0.1);
     });
 
+    it("should override test case adapter filters with CLI options", async () => {
+      mockExistsSync.mockReturnValue(true);
+      const fileConfig = {
+        adapters: {
+          browser: { name: "chromium" },
+          testCase: [
+            {
+              name: "@visnap/storybook-adapter",
+              options: { source: "./storybook-static", include: ["*"] },
+            },
+          ],
+        },
+      };
+      mockBundleRequire.mockResolvedValue({
+        mod: { default: fileConfig },
+        dependencies: [],
+      });
+
+      const result = await resolveEffectiveConfig(
+        {},
+        { includeTags: ["visual"], excludeTags: "flaky" }
+      );
+
+      expect(result.adapters.testCase[0].options).toEqual({
+        source: "./storybook-static",
+        include: ["*"],
+        includeTags: ["visual"],
+        excludeTags: "flaky",
+      });
+    });
+
     it("should ensure default screenshot directory", async () => {
       mockExistsSync.mockReturnValue(true);
       const fileConfig = {
@@ -4,9 +4,12 @@
 
 import type { VisualTestingToolConfig } from "@visnap/protocol";
 
+import { getComparisonCoreName } from "@/comparison/utils";
 import {
   DEFAULT_CONCURRENCY,
   DEFAULT_COMPARISON_CORE,
+  DEFAULT_RETRIES,
+  DEFAULT_CAPTURE_TIMEOUT_MS,
   DEFAULT_THRESHOLD,
 } from "@/constants";
 import { log } from "@/utils/logger";
@@ -20,7 +23,7 @@ export const logEffectiveConfig = (config: VisualTestingToolConfig): void => {
   log.info("Effective configuration:");
   log.dim(`  Screenshot directory: ${config.screenshotDir}`);
   log.dim(
-    `  Comparison core: ${config.comparison?.core ?? DEFAULT_COMPARISON_CORE}`
+    `  Comparison core: ${getComparisonCoreName(config.comparison?.core ?? DEFAULT_COMPARISON_CORE)}`
   );
   log.dim(
     `  Comparison threshold: ${config.comparison?.threshold ?? DEFAULT_THRESHOLD}`
@@ -28,8 +31,20 @@ export const logEffectiveConfig = (config: VisualTestingToolConfig): void => {
   log.dim(
     `  Max concurrency: ${config.runtime?.maxConcurrency ?? DEFAULT_CONCURRENCY}`
   );
+  log.dim(`  Retries: ${config.runtime?.retries ?? DEFAULT_RETRIES}`);
+  log.dim(
+    `  Capture timeout: ${config.runtime?.captureTimeoutMs ?? DEFAULT_CAPTURE_TIMEOUT_MS}ms`
+  );
   log.dim(`  Browser adapter: ${config.adapters.browser.name}`);
   log.dim(`  Test case adapter: ${config.adapters.testCase[0]?.name}`);
+  log.dim(
+    `  Storage adapter: ${config.adapters.storage?.name ?? "@visnap/fs-adapter"}`
+  );
+  if (config.webServer) {
+    log.dim(
+      `  Web server: ${config.webServer.command} (${config.webServer.url})`
+    );
+  }
   if (config.viewport) {
     const viewportKeys = Object.keys(config.viewport);
     log.dim(
@@ -39,6 +39,8 @@ export const resolveEffectiveConfig = async (
   cliOptions?: {
     include?: string | string[];
     exclude?: string | string[];
+    includeTags?: string | string[];
+    excludeTags?: string | string[];
     configPath?: string;
   }
 ): Promise<VisualTestingToolConfig> => {
@@ -49,18 +51,30 @@ export const resolveEffectiveConfig = async (
   const merged = merge({}, configFile, options);
 
   // Apply CLI option overrides if provided
-  if (cliOptions && (cliOptions.include || cliOptions.exclude)) {
+  if (
+    cliOptions &&
+    (cliOptions.include ||
+      cliOptions.exclude ||
+      cliOptions.includeTags ||
+      cliOptions.excludeTags)
+  ) {
     // Override the test case adapter options with CLI options for all adapters
     for (const adapter of merged.adapters.testCase) {
       const newOptions: Record<string, unknown> = { ...adapter.options };
 
-      // Only set include/exclude if they have actual values
+      // Only set filters if they have actual values
       if (cliOptions.include !== undefined) {
         newOptions.include = cliOptions.include;
       }
       if (cliOptions.exclude !== undefined) {
         newOptions.exclude = cliOptions.exclude;
       }
+      if (cliOptions.includeTags !== undefined) {
+        newOptions.includeTags = cliOptions.includeTags;
+      }
+      if (cliOptions.excludeTags !== undefined) {
+        newOptions.excludeTags = cliOptions.excludeTags;
+      }
 
       adapter.options = newOptions;
     }
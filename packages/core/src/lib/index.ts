@@ -2,6 +2,8 @@
 export {
   updateBaseline,
   updateBaselineCli,
+  acceptBaselines,
+  acceptBaselinesCli,
   initializeProject,
   runVisualTests,
   runVisualTestsCli,
@@ -10,7 +12,14 @@ export {
 } from "./api";
 
 // High-level API types
-export type { InitOptions, InitResult, ListResult, TestResult } from "./api";
+export type {
+  AcceptOptions,
+  AcceptResult,
+  InitOptions,
+  InitResult,
+  ListResult,
+  TestResult,
+} from "./api";
 
 // Configuration utilities
 export {
@@ -56,5 +65,9 @@ export type { DirectoryConfig } from "@/utils";
 export { runInDocker, runInDockerWithConfig } from "@/docker";
 export type { DockerRunOptions, DockerConfigOptions } from "@/docker";
 
+// Web server utilities
+export { startWebServer } from "@/web-server";
+export type { WebServerHandle } from "@/web-server";
+
 // Re-export constants
 export { DEFAULT_DOCKER_IMAGE } from "@/constants";
@@ -0,0 +1,248 @@
+import type { ScreenshotResult } from "@visnap/protocol";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { executeCapture } from "./capture-executor";
+
+import {
+  createMockBrowserAdapter,
+  createMockStorageAdapter,
+} from "@/__mocks__/mock-adapters";
+import {
+  createMockScreenshotResult,
+  createMockTestCase,
+} from "@/__mocks__/mock-factories";
+
+describe("executeCapture", () => {
+  const storage = createMockStorageAdapter();
+  const testCase = createMockTestCase({ caseId: "button", variantId: "lg" });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Creates an adapter whose capture only settles when its signal aborts.
+   */
+  const createHangingAdapter = () => {
+    const signals: AbortSignal[] = [];
+    const adapter = createMockBrowserAdapter({
+      capture: vi.fn(
+        (_opts, signal?: AbortSignal) =>
+          new Promise<ScreenshotResult>((_, reject) => {
+            signals.push(signal!);
+            signal?.addEventListener("abort", () =>
+              reject(new Error("Page closed"))
+            );
+          })
+      ),
+    });
+    return { adapter, signals };
+  };
+
+  it("should pass an abort signal to the adapter and write the screenshot", async () => {
+    const adapter = createMockBrowserAdapter({
+      capture: vi.fn().mockResolvedValue(
+        createMockScreenshotResult({
+          meta: { id: "button-lg", elapsedMs: 10 },
+        })
+      ),
+    });
+
+    const results = await executeCapture(
+      [testCase],
+      async () => adapter,
+      storage,
+      "test",
+      1,
+      1000
+    );
+
+    expect(adapter.capture).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "button-lg", url: testCase.url }),
+      expect.any(AbortSignal)
+    );
+    expect(storage.write).toHaveBeenCalledWith(
+      "current",
+      "button-lg.png",
+      expect.any(Uint8Array)
+    );
+    expect(results[0].error).toBeUndefined();
+  });
+
+  it("should pass per-case network, determinism and readiness settings to the adapter", async () => {
+    const adapter = createMockBrowserAdapter({
+      capture: vi.fn().mockResolvedValue(createMockScreenshotResult()),
+    });
+    const routes = [{ url: "**/api/prices", json: { price: 10 } }];
+
+    await executeCapture(
+      [
+        {
+          ...testCase,
+          routes,
+          har: "fixtures/shop.har",
+          determinism: { timezoneId: "Asia/Tokyo" },
+          waitFor: ".chart",
+          readiness: { fonts: true },
+        },
+      ],
+      async () => adapter,
+      storage,
+      "test",
+      1,
+      1000
+    );
+
+    expect(adapter.capture).toHaveBeenCalledWith(
+      expect.objectContaining({
+        routes,
+        har: "fixtures/shop.har",
+        determinism: { timezoneId: "Asia/Tokyo" },
+        waitFor: ".chart",
+        readiness: { fonts: true },
+      }),
+      expect.any(AbortSignal)
+    );
+  });
+
+  it("should write checkpoints and return them after their case", async () => {
+    const adapter = createMockBrowserAdapter({
+      capture: vi.fn().mockResolvedValue(
+        createMockScreenshotResult({
+          meta: { id: "button-lg", elapsedMs: 10 },
+          checkpoints: [{ name: "pressed", buffer: new Uint8Array([1]) }],
+        })
+      ),
+    });
+
+    const results = await executeCapture(
+      [testCase],
+      async () => adapter,
+      storage,
+      "update",
+      1,
+      1000
+    );
+
+    expect(storage.write).toHaveBeenCalledWith(
+      "base",
+      "button--pressed-lg.png",
+      new Uint8Array([1])
+    );
+    expect(results.map(r => r.id)).toEqual(["button-lg", "button--pressed-lg"]);
+    expect(results[1]).toMatchObject({
+      captureFilename: "button--pressed-lg.png",
+      parentId: "button-lg",
+      checkpoint: "pressed",
+    });
+    expect(results[1].result?.buffer).toHaveLength(0);
+  });
+
+  it("should report and warn about screenshots that did not stabilize", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const adapter = createMockBrowserAdapter({
+      capture: vi.fn().mockResolvedValue(
+        createMockScreenshotResult({
+          meta: { id: "button-lg", elapsedMs: 10, attempts: 2, stable: true },
+          checkpoints: [
+            {
+              name: "pressed",
+              buffer: new Uint8Array([1]),
+              attempts: 5,
+              stable: false,
+            },
+          ],
+        })
+      ),
+    });
+
+    const results = await executeCapture(
+      [testCase],
+      async () => adapter,
+      storage,
+      "test",
+      1,
+      1000
+    );
+
+    expect(results[0]).toMatchObject({ stable: true, stabilizeAttempts: 2 });
+    expect(results[1]).toMatchObject({ stable: false, stabilizeAttempts: 5 });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Unstable: button--pressed-lg >> still changing after 5 screenshots"
+      )
+    );
+    warn.mockRestore();
+  });
+
+  it("should abort the capture when the timeout elapses", async () => {
+    const { adapter, signals } = createHangingAdapter();
+
+    const pending = executeCapture(
+      [testCase],
+      async () => adapter,
+      storage,
+      "test",
+      1,
+      1000
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+    const results = await pending;
+
+    expect(signals[0].aborted).toBe(true);
+    expect(results[0]).toMatchObject({
+      id: "button-lg",
+      error: "Capture timeout after 1000ms",
+    });
+    expect(storage.write).not.toHaveBeenCalled();
+  });
+
+  it("should prefer the per-case capture timeout", async () => {
+    const { adapter, signals } = createHangingAdapter();
+
+    const pending = executeCapture(
+      [{ ...testCase, captureTimeoutMs: 5000 }],
+      async () => adapter,
+      storage,
+      "test",
+      1,
+      1000
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(signals[0].aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    const results = await pending;
+
+    expect(signals[0].aborted).toBe(true);
+    expect(results[0].error).toBe("Capture timeout after 5000ms");
+  });
+
+  it("should not abort captures that complete in time", async () => {
+    let signal: AbortSignal | undefined;
+    const adapter = createMockBrowserAdapter({
+      capture: vi.fn((_opts, s?: AbortSignal) => {
+        signal = s;
+        return Promise.resolve(createMockScreenshotResult());
+      }),
+    });
+
+    await executeCapture(
+      [testCase],
+      async () => adapter,
+      storage,
+      "test",
+      1,
+      1000
+    );
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(signal?.aborted).toBe(false);
+  });
+});
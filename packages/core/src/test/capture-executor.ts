@@ -10,11 +10,13 @@ import type {
 } from "@visnap/protocol";
 import { SNAPSHOT_EXTENSION } from "@visnap/protocol";
 
-import { DEFAULT_CAPTURE_TIMEOUT_MS } from "@/constants";
 import { createConcurrencyPool } from "@/lib/pool";
+import { toCheckpointCaseId } from "@/test/checkpoints";
 import {
   writeScreenshotToFile,
+  writeSnapshotMetadata,
   cleanupTempFiles,
+  toSnapshotFilename,
 } from "@/test/screenshot-writer";
 import log from "@/utils/logger";
 import { roundToTwoDecimals } from "@/utils/math";
@@ -28,6 +30,32 @@ export interface CaptureResult {
   error?: string;
   captureDurationMs?: number;
   captureFilename?: string;
+  attempts?: number;
+  /** In stabilize mode, whether two consecutive screenshots matched */
+  stable?: boolean;
+  /** In stabilize mode, screenshots taken until the page settled or attempts ran out */
+  stabilizeAttempts?: number;
+  /** For checkpoints, the ID of the test case whose interactions captured it */
+  parentId?: string;
+  /** For checkpoints, the name of the `snapshot` interaction */
+  checkpoint?: string;
+}
+
+/**
+ * Reads the stabilize mode outcome of a screenshot, warning when the page
+ * was still changing after the last attempt.
+ */
+function readStability(
+  id: string,
+  screenshot: { attempts?: number; stable?: boolean }
+): Pick<CaptureResult, "stable" | "stabilizeAttempts"> {
+  if (screenshot.stable === undefined) return {};
+  if (!screenshot.stable) {
+    log.warn(
+      `Unstable: ${id} >> still changing after ${screenshot.attempts} screenshots`
+    );
+  }
+  return { stable: screenshot.stable, stabilizeAttempts: screenshot.attempts };
 }
 
 /**
@@ -37,7 +65,8 @@ export interface CaptureResult {
  * @param storage - Storage adapter for writing screenshots
  * @param mode - Capture mode ("test" or "update")
  * @param maxConcurrency - Maximum number of concurrent captures
- * @returns Promise resolving to capture results
+ * @param captureTimeoutMs - Maximum time per capture unless a case overrides it
+ * @returns Promise resolving to capture results, followed by the checkpoints of each case
  */
 export async function executeCapture(
   cases: (TestCaseInstanceMeta & { browser: BrowserName })[],
@@ -47,7 +76,8 @@ export async function executeCapture(
   ) => Promise<BrowserAdapter>,
   storage: any, // StorageAdapter type
   mode: "test" | "update",
-  maxConcurrency: number
+  maxConcurrency: number,
+  captureTimeoutMs: number
 ): Promise<CaptureResult[]> {
   const tempFiles = new Set<string>();
 
@@ -62,7 +92,7 @@ export async function executeCapture(
     const runCapture = async (
       variant: TestCaseInstanceMeta & { browser: BrowserName },
       _index: number
-    ) => {
+    ): Promise<CaptureResult[]> => {
       const id = `${variant.caseId}-${variant.variantId}`;
       const captureFilename = `${id}${SNAPSHOT_EXTENSION}`;
       const browserInfo = variant.browser ? ` (${variant.browser})` : "";
@@ -77,79 +107,150 @@ export async function executeCapture(
           undefined // browserOptions would be passed from the caller
         );
 
-        // Add timeout protection to prevent hanging
+        // Cancel the capture if it exceeds its timeout; the signal lets the
+        // adapter release the page/context instead of leaving it running
+        const timeoutMs = variant.captureTimeoutMs ?? captureTimeoutMs;
         const abortController = new AbortController();
-        const capturePromise = adapterToUse.capture({
-          id,
-          url: variant.url,
-          screenshotTarget: variant.screenshotTarget,
-          viewport: variant.viewport,
-          disableCSSInjection: variant.disableCSSInjection,
-          interactions: variant.interactions,
-          elementsToMask: variant.elementsToMask,
-        });
-
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
         const timeoutPromise = new Promise<never>((_, reject) => {
-          const timeoutId = setTimeout(() => {
+          timeoutId = setTimeout(() => {
+            reject(new Error(`Capture timeout after ${timeoutMs}ms`));
             abortController.abort();
-            reject(
-              new Error(`Capture timeout after ${DEFAULT_CAPTURE_TIMEOUT_MS}ms`)
-            );
-          }, DEFAULT_CAPTURE_TIMEOUT_MS);
-
-          // Clean up timeout if capture completes first
-          abortController.signal.addEventListener("abort", () => {
-            clearTimeout(timeoutId);
-          });
+          }, timeoutMs);
         });
 
-        const result = await Promise.race([capturePromise, timeoutPromise]);
+        const capturePromise = adapterToUse.capture(
+          {
+            id,
+            url: variant.url,
+            screenshotTarget: variant.screenshotTarget,
+            viewport: variant.viewport,
+            disableCSSInjection: variant.disableCSSInjection,
+            interactions: variant.interactions,
+            elementsToMask: variant.elementsToMask,
+            ignoreRegions: variant.ignoreRegions,
+            fullPage: variant.fullPage,
+            clip: variant.clip,
+            routes: variant.routes,
+            har: variant.har,
+            determinism: variant.determinism,
+            waitFor: variant.waitFor,
+            readiness: variant.readiness,
+          },
+          abortController.signal
+        );
+
+        let result: ScreenshotResult;
+        try {
+          result = await Promise.race([capturePromise, timeoutPromise]);
+        } finally {
+          clearTimeout(timeoutId);
+        }
 
         // Write screenshot to disk immediately to prevent memory accumulation
         // during concurrent captures. The buffer is written to disk and then
         // cleared from memory to reduce memory pressure.
-        const finalPath = await writeScreenshotToFile(
+        const writeScreenshot = async (
+          buffer: Uint8Array,
+          screenshotId: string,
+          ignoreRegions: ScreenshotResult["meta"]["ignoreRegions"]
+        ) => {
+          const finalPath = await writeScreenshotToFile(
+            buffer,
+            storage,
+            screenshotId,
+            mode === "update" ? "base" : "current"
+          );
+          tempFiles.add(finalPath);
+
+          // Keep the resolved ignore regions next to the screenshot so that
+          // comparisons can exclude them without altering the image
+          if (variant.ignoreRegions && variant.ignoreRegions.length > 0) {
+            await writeSnapshotMetadata(
+              storage,
+              mode === "update" ? "base" : "current",
+              toSnapshotFilename(screenshotId),
+              { ignoreRegions: ignoreRegions ?? [] }
+            );
+          }
+
+          // Remove from temp files on success
+          tempFiles.delete(finalPath);
+        };
+
+        await writeScreenshot(
           result.buffer,
-          storage,
           result.meta.id,
-          mode === "update" ? "base" : "current"
+          result.meta.ignoreRegions
         );
-        tempFiles.add(finalPath);
 
-        // Remove from temp files on success
-        tempFiles.delete(finalPath);
+        // Checkpoints captured by `snapshot` interactions are stored as
+        // screenshots of their own test cases
+        const checkpointResults: CaptureResult[] = [];
+        for (const checkpoint of result.checkpoints ?? []) {
+          const checkpointId = `${toCheckpointCaseId(variant.caseId, checkpoint.name)}-${variant.variantId}`;
+          await writeScreenshot(
+            checkpoint.buffer,
+            checkpointId,
+            checkpoint.ignoreRegions
+          );
+          checkpointResults.push({
+            id: checkpointId,
+            result: {
+              buffer: new Uint8Array(0), // Buffer already written to disk
+              // Timed as part of the parent capture
+              meta: {
+                elapsedMs: 0,
+                id: checkpointId,
+                ...(checkpoint.ignoreRegions && {
+                  ignoreRegions: checkpoint.ignoreRegions,
+                }),
+              },
+            },
+            captureFilename: `${checkpointId}${SNAPSHOT_EXTENSION}`,
+            parentId: id,
+            checkpoint: checkpoint.name,
+            ...readStability(checkpointId, checkpoint),
+          });
+        }
 
         const captureDurationMs = roundToTwoDecimals(
           performance.now() - captureStartTime
         );
 
-        return {
-          id,
-          result: {
-            buffer: new Uint8Array(0), // Buffer already written to disk
-            meta: result.meta,
+        return [
+          {
+            id,
+            result: {
+              buffer: new Uint8Array(0), // Buffer already written to disk
+              meta: result.meta,
+            },
+            captureDurationMs,
+            captureFilename,
+            ...readStability(id, result.meta),
           },
-          captureDurationMs,
-          captureFilename,
-        };
+          ...checkpointResults,
+        ];
       } catch (e) {
         const message = (e as Error)?.message ?? String(e);
         log.error(`Capture failed for ${id}: ${message}`);
         const captureDurationMs = roundToTwoDecimals(
           performance.now() - captureStartTime
         );
-        return {
-          id,
-          error: message,
-          captureDurationMs,
-          captureFilename,
-        };
+        return [
+          {
+            id,
+            error: message,
+            captureDurationMs,
+            captureFilename,
+          },
+        ];
       }
     };
 
     // Process all test cases using the concurrency pool
     const results = await runWithPool(cases, runCapture);
-    return results;
+    return results.flat();
   } catch (error) {
     // Cleanup temporary files on failure
     if (tempFiles.size > 0) {
@@ -0,0 +1,343 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { executeCapture } from "./capture-executor";
+import { executeCaptureWithRetries } from "./capture-retry";
+
+import {
+  createMockBrowserAdapter,
+  createMockStorageAdapter,
+} from "@/__mocks__/mock-adapters";
+import {
+  createMockCaptureResult,
+  createMockConfig,
+  createMockTestCase,
+} from "@/__mocks__/mock-factories";
+import { compareTestCases } from "@/comparison/compare";
+
+vi.mock("./capture-executor", () => ({
+  executeCapture: vi.fn(),
+}));
+
+vi.mock("@/comparison/compare", () => ({
+  compareTestCases: vi.fn(),
+}));
+
+describe("executeCaptureWithRetries", () => {
+  const mockExecuteCapture = vi.mocked(executeCapture);
+  const mockCompareTestCases = vi.mocked(compareTestCases);
+  const getBrowserAdapter = vi
+    .fn()
+    .mockResolvedValue(createMockBrowserAdapter());
+  const storage = createMockStorageAdapter();
+
+  const caseA = createMockTestCase({ caseId: "a", variantId: "default" });
+  const caseB = createMockTestCase({ caseId: "b", variantId: "default" });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCompareTestCases.mockResolvedValue([]);
+  });
+
+  it("should capture once when retries are not configured", async () => {
+    mockExecuteCapture.mockResolvedValue([
+      createMockCaptureResult({ id: "a-default", error: "boom" }),
+    ]);
+
+    const { captureResults: results } = await executeCaptureWithRetries(
+      [caseA],
+      getBrowserAdapter,
+      storage,
+      createMockConfig(),
+      "test",
+      2
+    );
+
+    expect(mockExecuteCapture).toHaveBeenCalledTimes(1);
+    expect(mockCompareTestCases).toHaveBeenCalledTimes(1);
+    expect(results[0]).toMatchObject({ error: "boom", attempts: 1 });
+  });
+
+  it("should re-capture cases that failed to capture", async () => {
+    mockExecuteCapture
+      .mockResolvedValueOnce([
+        createMockCaptureResult({
+          id: "a-default",
+          error: "boom",
+          captureDurationMs: 100,
+        }),
+        createMockCaptureResult({ id: "b-default" }),
+      ])
+      .mockResolvedValueOnce([
+        createMockCaptureResult({ id: "a-default", captureDurationMs: 50 }),
+      ]);
+    mockCompareTestCases.mockResolvedValue([
+      { id: "b-default.png", match: true, reason: "" },
+    ]);
+
+    const { captureResults: results } = await executeCaptureWithRetries(
+      [caseA, caseB],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 2 } }),
+      "test",
+      2
+    );
+
+    expect(mockExecuteCapture).toHaveBeenCalledTimes(2);
+    expect(mockExecuteCapture.mock.calls[1][0]).toEqual([caseA]);
+    expect(results[0]).toMatchObject({
+      id: "a-default",
+      attempts: 2,
+      captureDurationMs: 150,
+    });
+    expect(results[0].error).toBeUndefined();
+    expect(results[1]).toMatchObject({ id: "b-default", attempts: 1 });
+  });
+
+  it("should re-capture cases with a pixel diff in test mode", async () => {
+    mockExecuteCapture
+      .mockResolvedValueOnce([
+        createMockCaptureResult({ id: "a-default" }),
+        createMockCaptureResult({ id: "b-default" }),
+      ])
+      .mockResolvedValueOnce([createMockCaptureResult({ id: "b-default" })]);
+    mockCompareTestCases.mockResolvedValue([
+      { id: "a-default.png", match: true, reason: "" },
+      { id: "b-default.png", match: false, reason: "pixel-diff" },
+    ]);
+
+    const { captureResults: results } = await executeCaptureWithRetries(
+      [caseA, caseB],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 1 } }),
+      "test",
+      2
+    );
+
+    expect(mockExecuteCapture.mock.calls[1][0]).toEqual([caseB]);
+    expect(results.map(r => r.attempts)).toEqual([1, 2]);
+  });
+
+  it("should re-capture cases with a size mismatch in test mode", async () => {
+    mockExecuteCapture.mockResolvedValue([
+      createMockCaptureResult({ id: "a-default" }),
+    ]);
+    mockCompareTestCases
+      .mockResolvedValueOnce([
+        { id: "a-default.png", match: false, reason: "size-mismatch" },
+      ])
+      .mockResolvedValueOnce([
+        { id: "a-default.png", match: true, reason: "" },
+      ]);
+
+    const { captureResults: results } = await executeCaptureWithRetries(
+      [caseA],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 1 } }),
+      "test",
+      2
+    );
+
+    expect(mockExecuteCapture).toHaveBeenCalledTimes(2);
+    expect(results[0]).toMatchObject({ attempts: 2 });
+  });
+
+  it("should return the comparisons of the final attempts", async () => {
+    mockExecuteCapture
+      .mockResolvedValueOnce([
+        createMockCaptureResult({ id: "a-default" }),
+        createMockCaptureResult({ id: "b-default" }),
+      ])
+      .mockResolvedValueOnce([createMockCaptureResult({ id: "b-default" })]);
+    mockCompareTestCases
+      .mockResolvedValueOnce([
+        { id: "a-default.png", match: true, reason: "" },
+        { id: "b-default.png", match: false, reason: "pixel-diff" },
+      ])
+      .mockResolvedValueOnce([
+        { id: "b-default.png", match: true, reason: "" },
+      ]);
+
+    const { comparisons } = await executeCaptureWithRetries(
+      [caseA, caseB],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 1 } }),
+      "test",
+      2
+    );
+
+    // Only the re-captured case is compared again
+    expect(mockCompareTestCases.mock.calls[1][2]).toEqual([caseB]);
+    expect(comparisons).toEqual([
+      { id: "a-default.png", match: true, reason: "" },
+      { id: "b-default.png", match: true, reason: "" },
+    ]);
+  });
+
+  it("should re-capture the parent case of a checkpoint with a pixel diff", async () => {
+    const menu = createMockTestCase({
+      caseId: "menu",
+      variantId: "default",
+      interactions: [{ type: "snapshot", name: "open" }],
+    });
+    mockExecuteCapture
+      .mockResolvedValueOnce([
+        createMockCaptureResult({ id: "menu-default" }),
+        createMockCaptureResult({
+          id: "menu--open-default",
+          parentId: "menu-default",
+          checkpoint: "open",
+        }),
+      ])
+      .mockResolvedValueOnce([
+        createMockCaptureResult({ id: "menu-default", error: "boom" }),
+      ]);
+    mockCompareTestCases.mockResolvedValue([
+      { id: "menu-default.png", match: true, reason: "" },
+      { id: "menu--open-default.png", match: false, reason: "pixel-diff" },
+    ]);
+
+    const { captureResults: results } = await executeCaptureWithRetries(
+      [menu],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 1 } }),
+      "test",
+      2
+    );
+
+    expect(mockCompareTestCases.mock.calls[0][2].map(c => c.caseId)).toEqual([
+      "menu",
+      "menu--open",
+    ]);
+    expect(mockExecuteCapture.mock.calls[1][0]).toEqual([menu]);
+    expect(mockCompareTestCases.mock.calls[1][2]).toEqual([menu]);
+    // The failed re-capture has no checkpoints
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ error: "boom", attempts: 2 });
+  });
+
+  it("should not compare the checkpoints of a failed capture", async () => {
+    const menu = createMockTestCase({
+      caseId: "menu",
+      variantId: "default",
+      interactions: [{ type: "snapshot", name: "open" }],
+    });
+    mockExecuteCapture.mockResolvedValue([
+      createMockCaptureResult({ id: "menu-default", error: "boom" }),
+    ]);
+
+    await executeCaptureWithRetries(
+      [menu],
+      getBrowserAdapter,
+      storage,
+      createMockConfig(),
+      "test",
+      2
+    );
+
+    expect(mockCompareTestCases.mock.calls[0][2]).toEqual([menu]);
+  });
+
+  it("should pass the configured capture timeout to every attempt", async () => {
+    mockExecuteCapture
+      .mockResolvedValueOnce([
+        createMockCaptureResult({ id: "a-default", error: "boom" }),
+      ])
+      .mockResolvedValueOnce([createMockCaptureResult({ id: "a-default" })]);
+
+    await executeCaptureWithRetries(
+      [caseA],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 1, captureTimeoutMs: 5000 } }),
+      "update",
+      2
+    );
+
+    expect(mockExecuteCapture).toHaveBeenCalledTimes(2);
+    for (const call of mockExecuteCapture.mock.calls) {
+      expect(call[5]).toBe(5000);
+    }
+  });
+
+  it("should default the capture timeout when not configured", async () => {
+    mockExecuteCapture.mockResolvedValue([
+      createMockCaptureResult({ id: "a-default" }),
+    ]);
+
+    await executeCaptureWithRetries(
+      [caseA],
+      getBrowserAdapter,
+      storage,
+      createMockConfig(),
+      "update",
+      2
+    );
+
+    expect(mockExecuteCapture.mock.calls[0][5]).toBe(30000);
+  });
+
+  it("should not retry missing baselines", async () => {
+    mockExecuteCapture.mockResolvedValue([
+      createMockCaptureResult({ id: "a-default" }),
+    ]);
+    mockCompareTestCases.mockResolvedValue([
+      { id: "a-default.png", match: false, reason: "missing-base" },
+    ]);
+
+    await executeCaptureWithRetries(
+      [caseA],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 3 } }),
+      "test",
+      2
+    );
+
+    expect(mockExecuteCapture).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop after the configured number of retries", async () => {
+    mockExecuteCapture.mockResolvedValue([
+      createMockCaptureResult({ id: "a-default", error: "boom" }),
+    ]);
+
+    const { captureResults: results } = await executeCaptureWithRetries(
+      [caseA],
+      getBrowserAdapter,
+      storage,
+      createMockConfig({ runtime: { retries: 2 } }),
+      "test",
+      2
+    );
+
+    expect(mockExecuteCapture).toHaveBeenCalledTimes(3);
+    expect(results[0]).toMatchObject({ error: "boom", attempts: 3 });
+  });
+
+  it("should only retry capture errors in update mode", async () => {
+    mockExecuteCapture
+      .mockResolvedValueOnce([
+        createMockCaptureResult({ id: "a-default", error: "boom" }),
+      ])
+      .mockResolvedValueOnce([createMockCaptureResult({ id: "a-default" })]);
+
+    const { captureResults: results, comparisons } =
+      await executeCaptureWithRetries(
+        [caseA],
+        getBrowserAdapter,
+        storage,
+        createMockConfig({ runtime: { retries: 1 } }),
+        "update",
+        2
+      );
+
+    expect(mockCompareTestCases).not.toHaveBeenCalled();
+    expect(results[0]).toMatchObject({ attempts: 2 });
+    expect(comparisons).toBeUndefined();
+  });
+});
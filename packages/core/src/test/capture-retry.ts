@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Screenshot capture with retries for failed and mismatching cases
+ */
+
+import type {
+  BrowserAdapter,
+  BrowserName,
+  StorageAdapter,
+  TestCaseInstanceMeta,
+  VisualTestingToolConfig,
+} from "@visnap/protocol";
+import { SNAPSHOT_EXTENSION } from "@visnap/protocol";
+
+import { executeCapture, type CaptureResult } from "./capture-executor";
+import { expandCheckpointCases } from "./checkpoints";
+
+import { compareTestCases, type CompareResult } from "@/comparison/compare";
+import { DEFAULT_CAPTURE_TIMEOUT_MS, DEFAULT_RETRIES } from "@/constants";
+import log from "@/utils/logger";
+import { roundToTwoDecimals } from "@/utils/math";
+
+/**
+ * Capture results together with the comparisons made while retrying
+ */
+export interface CaptureWithRetriesResult {
+  captureResults: CaptureResult[];
+  /** Comparison results of the final attempts (test mode only) */
+  comparisons?: CompareResult[];
+}
+
+/**
+ * Checks whether a comparison failed because the images differ.
+ */
+function isImageDiff(comparison: CompareResult | undefined): boolean {
+  return (
+    comparison !== undefined &&
+    !comparison.match &&
+    (comparison.reason === "pixel-diff" ||
+      comparison.reason === "size-mismatch")
+  );
+}
+
+/**
+ * Executes screenshot capture and re-captures cases that failed to capture or,
+ * in test mode, differ from their baseline, up to `runtime.retries` extra attempts.
+ * A checkpoint that differs from its baseline re-captures its parent case.
+ * @param cases - Test case instances to capture
+ * @param getBrowserAdapter - Function to get browser adapter for a specific browser
+ * @param storage - Storage adapter for writing and comparing screenshots
+ * @param options - Visual testing configuration
+ * @param mode - Capture mode ("test" or "update")
+ * @param maxConcurrency - Maximum number of concurrent captures
+ * @returns Promise resolving to capture results annotated with attempt counts
+ *          and, in test mode, the comparison results of the final attempts
+ */
+export async function executeCaptureWithRetries(
+  cases: (TestCaseInstanceMeta & { browser: BrowserName })[],
+  getBrowserAdapter: (
+    browserName: BrowserName,
+    browserOptions?: Record<string, unknown>
+  ) => Promise<BrowserAdapter>,
+  storage: StorageAdapter,
+  options: VisualTestingToolConfig,
+  mode: "test" | "update",
+  maxConcurrency: number
+): Promise<CaptureWithRetriesResult> {
+  const captureTimeoutMs =
+    options.runtime?.captureTimeoutMs ?? DEFAULT_CAPTURE_TIMEOUT_MS;
+  const results = await executeCapture(
+    cases,
+    getBrowserAdapter,
+    storage,
+    mode,
+    maxConcurrency,
+    captureTimeoutMs
+  );
+  const resultsById = new Map<string, CaptureResult>(
+    results.map(r => [r.id, { ...r, attempts: 1 }])
+  );
+
+  const getId = (c: TestCaseInstanceMeta) => `${c.caseId}-${c.variantId}`;
+  const getFilename = (c: TestCaseInstanceMeta) =>
+    `${getId(c)}${SNAPSHOT_EXTENSION}`;
+
+  // Only test mode has baselines to compare against
+  const comparisonsById = new Map<string, CompareResult>();
+  const compare = async (
+    toCompare: (TestCaseInstanceMeta & { browser: BrowserName })[]
+  ) => {
+    if (mode !== "test") return;
+    // A failed capture takes no checkpoints, so only captured ones are compared
+    const comparisons = await compareTestCases(
+      storage,
+      options,
+      expandCheckpointCases(toCompare).filter(c => resultsById.has(getId(c)))
+    );
+    for (const comparison of comparisons) {
+      comparisonsById.set(comparison.id, comparison);
+    }
+  };
+  await compare(cases);
+
+  const retries = Math.max(0, options.runtime?.retries ?? DEFAULT_RETRIES);
+  let pending = cases;
+
+  for (let attempt = 2; attempt <= retries + 1; attempt++) {
+    pending = pending.filter(
+      c =>
+        resultsById.get(getId(c))?.error ||
+        expandCheckpointCases([c]).some(e =>
+          isImageDiff(comparisonsById.get(getFilename(e)))
+        )
+    );
+    if (pending.length === 0) break;
+
+    log.info(
+      `Retrying ${pending.length} test case(s) (attempt ${attempt} of ${retries + 1})`
+    );
+
+    const retried = await executeCapture(
+      pending,
+      getBrowserAdapter,
+      storage,
+      mode,
+      maxConcurrency,
+      captureTimeoutMs
+    );
+    // Drop the checkpoints of the previous attempt; a failed capture has none
+    const retriedIds = new Set(pending.map(getId));
+    for (const [id, result] of resultsById) {
+      if (result.parentId && retriedIds.has(result.parentId)) {
+        resultsById.delete(id);
+      }
+    }
+    for (const testCase of expandCheckpointCases(pending)) {
+      comparisonsById.delete(getFilename(testCase));
+    }
+    for (const result of retried) {
+      const previous = resultsById.get(result.id);
+      resultsById.set(result.id, {
+        ...result,
+        attempts: attempt,
+        captureDurationMs: roundToTwoDecimals(
+          (previous?.captureDurationMs ?? 0) + (result.captureDurationMs ?? 0)
+        ),
+      });
+    }
+    await compare(pending);
+  }
+
+  // Keep each case followed by its checkpoints
+  const latest = Array.from(resultsById.values());
+  const captureResults = results
+    .filter(r => !r.parentId)
+    .flatMap(r => [
+      resultsById.get(r.id)!,
+      ...latest.filter(c => c.parentId === r.id),
+    ]);
+
+  return {
+    captureResults,
+    ...(mode === "test" && {
+      comparisons: Array.from(comparisonsById.values()).sort((a, b) =>
+        a.id.localeCompare(b.id)
+      ),
+    }),
+  };
+}
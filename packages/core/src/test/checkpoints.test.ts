@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  expandCheckpointCases,
+  getCheckpointNames,
+  toCheckpointCaseId,
+} from "./checkpoints";
+
+import { createMockTestCase } from "@/__mocks__/mock-factories";
+
+describe("checkpoints", () => {
+  const menu = createMockTestCase({
+    caseId: "menu",
+    title: "Menu",
+    interactions: [
+      { type: "click", selector: ".toggle" },
+      { type: "snapshot", name: "open" },
+      { type: "hover", selector: ".item" },
+      { type: "snapshot", name: "item-hover" },
+    ],
+  });
+
+  it("should list snapshot names in order", () => {
+    expect(getCheckpointNames(menu.interactions)).toEqual([
+      "open",
+      "item-hover",
+    ]);
+    expect(getCheckpointNames(undefined)).toEqual([]);
+  });
+
+  it("should build checkpoint case IDs", () => {
+    expect(toCheckpointCaseId("menu", "open")).toBe("menu--open");
+  });
+
+  it("should add checkpoint cases after their parent", () => {
+    const other = createMockTestCase({ caseId: "other" });
+
+    const expanded = expandCheckpointCases([menu, other]);
+
+    expect(expanded.map(c => c.caseId)).toEqual([
+      "menu",
+      "menu--open",
+      "menu--item-hover",
+      "other",
+    ]);
+    expect(expanded[1]).toMatchObject({
+      title: "Menu › open",
+      variantId: menu.variantId,
+      viewport: menu.viewport,
+      interactions: undefined,
+    });
+    expect(expanded[0]).toBe(menu);
+  });
+
+  it("should reject invalid or duplicate snapshot names", () => {
+    expect(() =>
+      expandCheckpointCases([
+        createMockTestCase({
+          caseId: "menu",
+          interactions: [{ type: "snapshot", name: "menu open" }],
+        }),
+      ])
+    ).toThrow('Invalid snapshot name "menu open" in menu');
+    expect(() =>
+      expandCheckpointCases([
+        createMockTestCase({
+          caseId: "menu",
+          interactions: [
+            { type: "snapshot", name: "open" },
+            { type: "snapshot", name: "open" },
+          ],
+        }),
+      ])
+    ).toThrow('Invalid snapshot name "open" in menu: used more than once');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Checkpoint test cases captured by `snapshot` interactions
+ *
+ * A `{ type: "snapshot", name }` interaction captures a checkpoint in the
+ * middle of a test case's interactions. Each checkpoint is compared and
+ * reported as its own test case, derived from the parent case.
+ */
+
+import type {
+  BrowserName,
+  InteractionAction,
+  TestCaseInstanceMeta,
+} from "@visnap/protocol";
+
+const CHECKPOINT_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Returns the names of the checkpoints captured by a list of interactions.
+ * @param interactions - Interactions of a test case
+ * @returns Checkpoint names in capture order
+ */
+export function getCheckpointNames(
+  interactions: InteractionAction[] | undefined
+): string[] {
+  return (interactions ?? []).flatMap(action =>
+    action.type === "snapshot" ? [action.name] : []
+  );
+}
+
+/**
+ * Builds the case ID of a checkpoint from its parent case ID.
+ * @param caseId - Parent test case ID
+ * @param name - Checkpoint name
+ * @returns Checkpoint case ID
+ */
+export function toCheckpointCaseId(caseId: string, name: string): string {
+  return `${caseId}--${name}`;
+}
+
+/**
+ * Adds a test case for every checkpoint, right after its parent case.
+ * Checkpoints inherit the parent's configuration except its interactions.
+ * @param cases - Test case instances
+ * @returns Test case instances including checkpoints
+ * @throws Error when a checkpoint name is invalid or used twice in a case
+ */
+export function expandCheckpointCases(
+  cases: (TestCaseInstanceMeta & { browser: BrowserName })[]
+): (TestCaseInstanceMeta & { browser: BrowserName })[] {
+  return cases.flatMap(testCase => {
+    const names = getCheckpointNames(testCase.interactions);
+    const seen = new Set<string>();
+    for (const name of names) {
+      if (!CHECKPOINT_NAME_PATTERN.test(name)) {
+        throw new Error(
+          `Invalid snapshot name "${name}" in ${testCase.caseId}: use letters, digits, "-" and "_"`
+        );
+      }
+      if (seen.has(name)) {
+        throw new Error(
+          `Invalid snapshot name "${name}" in ${testCase.caseId}: used more than once`
+        );
+      }
+      seen.add(name);
+    }
+
+    return [
+      testCase,
+      ...names.map(name => ({
+        ...testCase,
+        caseId: toCheckpointCaseId(testCase.caseId, name),
+        title: `${testCase.title} › ${name}`,
+        interactions: undefined,
+      })),
+    ];
+  });
+}
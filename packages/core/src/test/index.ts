@@ -12,6 +12,11 @@ export {
   expandCasesForBrowsers,
   sortCasesStable,
 } from "./test-discovery";
-export { writeScreenshotToFile, cleanupTempFiles } from "./screenshot-writer";
+export {
+  writeScreenshotToFile,
+  cleanupTempFiles,
+  toSnapshotFilename,
+} from "./screenshot-writer";
+export { executeCaptureWithRetries } from "./capture-retry";
 export { summarizeTestMode, summarizeUpdateMode } from "./test-summary";
 export { createConcurrencyPool } from "@/lib/pool";
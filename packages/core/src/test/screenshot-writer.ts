@@ -1,10 +1,77 @@
 import { unlink } from "fs/promises";
 
-import type { StorageAdapter, StorageKind } from "@visnap/protocol";
-import { SNAPSHOT_EXTENSION } from "@visnap/protocol";
+import type { RegionRect, StorageAdapter, StorageKind } from "@visnap/protocol";
+import {
+  SNAPSHOT_EXTENSION,
+  SNAPSHOT_METADATA_EXTENSION,
+} from "@visnap/protocol";
 
 import log from "@/utils/logger";
 
+/**
+ * Build the storage filename for a screenshot ID
+ * IDs are sanitized so they are safe to use as file names
+ */
+export function toSnapshotFilename(id: string): string {
+  const safeId = id.replace(/[^a-zA-Z0-9\-_]/g, "_");
+  return `${safeId}${SNAPSHOT_EXTENSION}`;
+}
+
+/**
+ * Capture metadata stored as a JSON sidecar next to a snapshot
+ */
+export interface SnapshotMetadata {
+  /** Ignore regions resolved to image pixel rectangles at capture time */
+  ignoreRegions?: RegionRect[];
+}
+
+/**
+ * Build the sidecar metadata filename for a snapshot filename
+ */
+export function toMetadataFilename(snapshotFilename: string): string {
+  const baseName = snapshotFilename.endsWith(SNAPSHOT_EXTENSION)
+    ? snapshotFilename.slice(0, -SNAPSHOT_EXTENSION.length)
+    : snapshotFilename;
+  return `${baseName}${SNAPSHOT_METADATA_EXTENSION}`;
+}
+
+/**
+ * Write snapshot metadata as a JSON sidecar using storage adapter
+ */
+export async function writeSnapshotMetadata(
+  storage: StorageAdapter,
+  kind: StorageKind,
+  snapshotFilename: string,
+  metadata: SnapshotMetadata
+): Promise<void> {
+  const buffer = new TextEncoder().encode(JSON.stringify(metadata));
+  try {
+    await storage.write(kind, toMetadataFilename(snapshotFilename), buffer);
+  } catch (error) {
+    throw new Error(`Failed to write screenshot metadata: ${error}`);
+  }
+}
+
+/**
+ * Read the JSON sidecar of a snapshot, if one was stored
+ * Missing or unreadable sidecars yield undefined
+ */
+export async function readSnapshotMetadata(
+  storage: StorageAdapter,
+  kind: StorageKind,
+  snapshotFilename: string
+): Promise<SnapshotMetadata | undefined> {
+  const filename = toMetadataFilename(snapshotFilename);
+  try {
+    if (!(await storage.exists(kind, filename))) return undefined;
+    const buffer = await storage.read(kind, filename);
+    return JSON.parse(new TextDecoder().decode(buffer)) as SnapshotMetadata;
+  } catch (error) {
+    log.dim(`Failed to read screenshot metadata ${filename}: ${error}`);
+    return undefined;
+  }
+}
+
 /**
  * Write screenshot buffer to file using storage adapter
  * Uses direct write approach for better performance and simplicity
@@ -16,8 +83,7 @@ export async function writeScreenshotToFile(
   kind: StorageKind = "current"
 ): Promise<string> {
   // Sanitize ID for security
-  const safeId = id.replace(/[^a-zA-Z0-9\-_]/g, "_");
-  const filename = `${safeId}${SNAPSHOT_EXTENSION}`;
+  const filename = toSnapshotFilename(id);
 
   try {
     const path = await storage.write(kind, filename, buffer);
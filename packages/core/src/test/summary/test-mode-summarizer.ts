@@ -9,22 +9,48 @@ import type {
   ScreenshotResult,
   RunOutcome,
   TestCaseDetail,
+  DiffRegion,
+  ImageDimensions,
   TestDurations,
   BrowserName,
 } from "@visnap/protocol";
 import { SNAPSHOT_EXTENSION } from "@visnap/protocol";
 
-import { compareTestCases } from "@/comparison/compare";
+import { compareTestCases, type CompareResult } from "@/comparison/compare";
 import log from "@/utils/logger";
 import { roundToTwoDecimals } from "@/utils/math";
 import { formatViewport } from "@/utils/viewport-formatting";
 
+/**
+ * Formats image dimensions for log output.
+ * @param dimensions - Image dimensions
+ * @returns Dimensions as "WIDTHxHEIGHT"
+ */
+function formatDimensions(dimensions?: ImageDimensions): string {
+  return dimensions ? `${dimensions.width}x${dimensions.height}` : "unknown";
+}
+
+/**
+ * Builds the log text describing why a comparison failed.
+ * @param result - Failed comparison result
+ * @returns Reason with diff percentage or dimensions when available
+ */
+function formatFailureReason(result: CompareResult): string {
+  if (result.reason === "size-mismatch") {
+    return `${result.reason} (base ${formatDimensions(result.baseDimensions)}, current ${formatDimensions(result.currentDimensions)})`;
+  }
+  return result.diffPercentage
+    ? `${result.reason} (${result.diffPercentage}% difference)`
+    : result.reason;
+}
+
 /**
  * Summarizes test mode results with comparison and logging.
  * @param storage - Storage adapter for accessing image files
  * @param options - Visual testing tool configuration
  * @param cases - Test case instances with browser information
  * @param captureResults - Results from screenshot capture operations
+ * @param comparisons - Comparison results to reuse instead of comparing again
  * @returns Test outcome with failures and capture failures
  */
 export async function summarizeTestMode(
@@ -37,18 +63,25 @@ export async function summarizeTestMode(
     error?: string;
     captureDurationMs?: number;
     captureFilename?: string;
-  }[]
+    attempts?: number;
+    stable?: boolean;
+    stabilizeAttempts?: number;
+    parentId?: string;
+    checkpoint?: string;
+  }[],
+  comparisons?: CompareResult[]
 ): Promise<{
   outcome: RunOutcome;
   failures: Array<{ id: string; reason: string; diffPercentage?: number }>;
   captureFailures: Array<{ id: string; error: string }>;
 }> {
-  const results = await compareTestCases(storage, options, cases);
+  const results =
+    comparisons ?? (await compareTestCases(storage, options, cases));
 
   const passed = results.filter(r => r.match).length;
   const failedCaptures = captureResults.filter(r => r.error).length;
   const failedDiffs = results.filter(
-    r => !r.match && r.reason === "pixel-diff"
+    r => !r.match && (r.reason === "pixel-diff" || r.reason === "size-mismatch")
   ).length;
   const failedMissingCurrent = results.filter(
     r => !r.match && r.reason === "missing-current"
@@ -94,20 +127,27 @@ export async function summarizeTestMode(
     totalCaptureDurationMs += captureDurationMs;
     totalComparisonDurationMs += comparisonDurationMs;
 
-    let status: "passed" | "failed" | "capture-failed";
+    const attempts = captureResult.attempts ?? 1;
+    let status: TestCaseDetail["status"];
     let reason: string | undefined;
     let diffPercentage: number | undefined;
+    let diffRegions: DiffRegion[] | undefined;
+    let baseDimensions: ImageDimensions | undefined;
+    let currentDimensions: ImageDimensions | undefined;
 
     if (captureResult.error) {
       status = "capture-failed";
       reason = captureResult.error;
     } else if (comparisonResult) {
       if (comparisonResult.match) {
-        status = "passed";
+        status = attempts > 1 ? "flaky" : "passed";
       } else {
         status = "failed";
         reason = comparisonResult.reason;
         diffPercentage = comparisonResult.diffPercentage;
+        diffRegions = comparisonResult.diffRegions;
+        baseDimensions = comparisonResult.baseDimensions;
+        currentDimensions = comparisonResult.currentDimensions;
       }
     } else {
       status = "failed";
@@ -126,23 +166,35 @@ export async function summarizeTestMode(
       comparisonDurationMs: comparisonDurationMs || undefined,
       totalDurationMs,
       status,
+      attempts,
+      stable: captureResult.stable,
+      stabilizeAttempts: captureResult.stabilizeAttempts,
       reason,
       diffPercentage,
+      diffRegions,
+      baseDimensions,
+      currentDimensions,
       title: testCase?.title,
       kind: testCase?.kind,
       browser: testCase?.browser,
       viewport,
+      parentId: captureResult.parentId,
+      checkpoint: captureResult.checkpoint,
     });
   }
 
+  const attemptsByFilename = new Map(
+    testCases.map(tc => [tc.captureFilename, tc.attempts ?? 1])
+  );
+
   for (const r of results) {
-    if (r.match) {
+    const attempts = attemptsByFilename.get(r.id) ?? 1;
+    if (r.match && attempts > 1) {
+      log.warn(`Flaky: ${r.id} >> passed after ${attempts} attempts`, true);
+    } else if (r.match) {
       log.success(`Passed: ${r.id}`, true);
     } else {
-      const reasonText = r.diffPercentage
-        ? `${r.reason} (${r.diffPercentage}% difference)`
-        : r.reason;
-      log.error(`Failed: ${r.id} >> ${reasonText}`, true);
+      log.error(`Failed: ${r.id} >> ${formatFailureReason(r)}`, true);
     }
   }
 
@@ -161,6 +213,7 @@ export async function summarizeTestMode(
   const outcome: RunOutcome = {
     total: results.length,
     passed,
+    flaky: testCases.filter(tc => tc.status === "flaky").length,
     failedDiffs,
     failedMissingCurrent,
     failedMissingBase,
@@ -28,6 +28,11 @@ export function summarizeUpdateMode(
     error?: string;
     captureDurationMs?: number;
     captureFilename?: string;
+    attempts?: number;
+    stable?: boolean;
+    stabilizeAttempts?: number;
+    parentId?: string;
+    checkpoint?: string;
   }[],
   cases?: (TestCaseInstanceMeta & { browser: BrowserName })[]
 ): {
@@ -52,9 +57,12 @@ export function summarizeUpdateMode(
     const captureDurationMs = captureResult.captureDurationMs || 0;
     totalCaptureDurationMs += captureDurationMs;
 
-    const status: "passed" | "failed" | "capture-failed" = captureResult.error
+    const attempts = captureResult.attempts ?? 1;
+    const status: TestCaseDetail["status"] = captureResult.error
       ? "capture-failed"
-      : "passed";
+      : attempts > 1
+        ? "flaky"
+        : "passed";
 
     // Format viewport information
     const viewport = formatViewport(testCase?.viewport);
@@ -67,11 +75,16 @@ export function summarizeUpdateMode(
       captureDurationMs: roundToTwoDecimals(captureDurationMs),
       totalDurationMs: roundToTwoDecimals(captureDurationMs), // No comparison in update mode
       status,
+      attempts,
+      stable: captureResult.stable,
+      stabilizeAttempts: captureResult.stabilizeAttempts,
       reason: captureResult.error,
       title: testCase?.title,
       kind: testCase?.kind,
       browser: testCase?.browser,
       viewport,
+      parentId: captureResult.parentId,
+      checkpoint: captureResult.checkpoint,
     });
   }
 
@@ -84,6 +97,7 @@ export function summarizeUpdateMode(
   const outcome: RunOutcome = {
     total,
     passed: successful,
+    flaky: testCases.filter(tc => tc.status === "flaky").length,
     failedDiffs: 0,
     failedMissingCurrent: 0,
     failedMissingBase: 0,
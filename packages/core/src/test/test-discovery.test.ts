@@ -493,6 +493,67 @@ describe("test-discovery", () => {
       expect(mockPage.close).toHaveBeenCalledTimes(1);
     });
 
+    it("should list adapters that do not require a page without a browser", async () => {
+      const getBrowserAdapter = vi.fn();
+      const listCases = vi
+        .fn()
+        .mockResolvedValue([
+          createMockTestCase({ caseId: "button", variantId: "default" }),
+        ]);
+      const mockAdapters = [
+        createMockTestCaseAdapter({
+          name: "storybook",
+          start: vi.fn().mockResolvedValue({
+            baseUrl: "http://localhost:6006",
+            requiresPage: false,
+          }),
+          listCases,
+        }),
+      ];
+
+      const result = await discoverCasesFromAllAdapters(
+        mockAdapters,
+        getBrowserAdapter,
+        undefined,
+        [{ name: "chromium" as const }]
+      );
+
+      expect(result).toHaveLength(1);
+      expect(listCases).toHaveBeenCalledWith(undefined, {
+        viewport: undefined,
+      });
+      expect(getBrowserAdapter).not.toHaveBeenCalled();
+    });
+
+    it("should resolve the browser adapter lazily for adapters needing a page", async () => {
+      const mockBrowserAdapter = createMockBrowserAdapter();
+      const mockPage = createMockPage();
+      mockBrowserAdapter.openPage = vi.fn().mockResolvedValue(mockPage);
+      const getBrowserAdapter = vi.fn().mockResolvedValue(mockBrowserAdapter);
+      const mockAdapters = [
+        createMockTestCaseAdapter({
+          name: "storybook",
+          start: vi.fn().mockResolvedValue({
+            initialPageUrl: "http://localhost:6006/iframe.html",
+          }),
+          listCases: vi.fn().mockResolvedValue([]),
+        }),
+      ];
+
+      await discoverCasesFromAllAdapters(
+        mockAdapters,
+        getBrowserAdapter,
+        undefined,
+        [{ name: "chromium" as const }]
+      );
+
+      expect(getBrowserAdapter).toHaveBeenCalledTimes(1);
+      expect(mockBrowserAdapter.openPage).toHaveBeenCalledWith(
+        "http://localhost:6006/iframe.html"
+      );
+      expect(mockPage.close).toHaveBeenCalledTimes(1);
+    });
+
     it("should sort all cases after discovery", async () => {
       const mockBrowserAdapter = createMockBrowserAdapter();
       const mockPage = createMockPage();
@@ -1,5 +1,6 @@
 import type {
   TestCaseAdapter,
+  TestCaseAdapterStartResult,
   TestCaseInstanceMeta,
   VisualTestingToolConfig,
   PageWithEvaluate,
@@ -11,17 +12,10 @@ import { type BrowserTarget } from "@/browser/browser-config";
 import log from "@/utils/logger";
 
 /**
- * Start test case adapter and resolve page URL
+ * Resolve the discovery page URL from an adapter start result
  */
-export async function startAdapterAndResolvePageUrl(
-  testCaseAdapter: TestCaseAdapter
-): Promise<string> {
-  const startResult = (await testCaseAdapter?.start?.()) ?? {};
-  const { baseUrl, initialPageUrl } = startResult as {
-    baseUrl?: string;
-    initialPageUrl?: string;
-  };
-  const pageUrl = initialPageUrl ?? baseUrl;
+function resolvePageUrl(startResult: TestCaseAdapterStartResult): string {
+  const pageUrl = startResult.initialPageUrl ?? startResult.baseUrl;
   if (!pageUrl) {
     throw new Error(
       "Test case adapter must provide either baseUrl or initialPageUrl"
@@ -30,6 +24,16 @@ export async function startAdapterAndResolvePageUrl(
   return pageUrl;
 }
 
+/**
+ * Start test case adapter and resolve page URL
+ */
+export async function startAdapterAndResolvePageUrl(
+  testCaseAdapter: TestCaseAdapter
+): Promise<string> {
+  const startResult = (await testCaseAdapter?.start?.()) ?? {};
+  return resolvePageUrl(startResult);
+}
+
 /**
  * Sort test cases deterministically by caseId, then variantId
  */
@@ -48,7 +52,7 @@ export function sortCasesStable<T extends TestCaseInstanceMeta>(
  */
 export async function discoverCases(
   testCaseAdapter: TestCaseAdapter,
-  page: PageWithEvaluate,
+  page: PageWithEvaluate | undefined,
   viewport: VisualTestingToolConfig["viewport"]
 ): Promise<TestCaseInstanceMeta[]> {
   return await testCaseAdapter.listCases(page, {
@@ -111,15 +115,22 @@ export async function discoverTestCasesWithBrowsers(
 }
 
 /**
- * Discover test cases from multiple adapters
+ * Discover test cases from multiple adapters.
+ * Adapters whose start result sets `requiresPage: false` are listed without a page.
+ * Pass a function resolving the browser adapter to only launch a browser when an
+ * adapter needs a discovery page.
  */
 export async function discoverCasesFromAllAdapters(
   testCaseAdapters: TestCaseAdapter[],
-  browserAdapter: BrowserAdapter,
+  browserAdapter: BrowserAdapter | (() => Promise<BrowserAdapter>),
   viewport: VisualTestingToolConfig["viewport"],
   browsers: BrowserTarget[]
 ): Promise<(TestCaseInstanceMeta & { browser: BrowserName })[]> {
   const allCases: (TestCaseInstanceMeta & { browser: BrowserName })[] = [];
+  const resolveBrowserAdapter =
+    typeof browserAdapter === "function"
+      ? browserAdapter
+      : async () => browserAdapter;
 
   for (
     let adapterIndex = 0;
@@ -129,18 +140,22 @@ export async function discoverCasesFromAllAdapters(
     const adapter = testCaseAdapters[adapterIndex];
 
     try {
-      // Start adapter and resolve page URL
-      const pageUrl = await startAdapterAndResolvePageUrl(adapter);
-
-      // Open page for this adapter
-      if (!browserAdapter.openPage) {
-        throw new Error("Browser adapter does not support openPage method");
+      const startResult = (await adapter.start?.()) ?? {};
+
+      // Open page for this adapter unless it discovers cases without one
+      let page: PageWithEvaluate | undefined;
+      if (startResult.requiresPage !== false) {
+        const pageUrl = resolvePageUrl(startResult);
+        const resolvedBrowserAdapter = await resolveBrowserAdapter();
+        if (!resolvedBrowserAdapter.openPage) {
+          throw new Error("Browser adapter does not support openPage method");
+        }
+
+        page = (await resolvedBrowserAdapter.openPage(
+          pageUrl
+        )) as unknown as PageWithEvaluate;
       }
 
-      const page = (await browserAdapter.openPage(
-        pageUrl
-      )) as unknown as PageWithEvaluate;
-
       try {
         // Discover test cases with global viewport configuration
         const discoveredCases = await discoverCases(adapter, page, viewport);
@@ -10,7 +10,9 @@ import type {
   BrowserName,
 } from "@visnap/protocol";
 
-import { executeCapture, type CaptureResult } from "./capture-executor";
+import { type CaptureResult } from "./capture-executor";
+import { executeCaptureWithRetries } from "./capture-retry";
+import { expandCheckpointCases } from "./checkpoints";
 
 import {
   loadBrowserAdapter,
@@ -19,17 +21,20 @@ import {
 } from "@/browser/adapter-loader";
 import { parseBrowsersFromConfig } from "@/browser/browser-config";
 import { BrowserAdapterPool } from "@/browser/browser-pool";
+import { type CompareResult } from "@/comparison/compare";
 import { DEFAULT_CONCURRENCY } from "@/constants";
 import { logEffectiveConfig } from "@/lib/config";
 import { discoverCasesFromAllAdapters } from "@/test/test-discovery";
 import { summarizeTestMode, summarizeUpdateMode } from "@/test/test-summary";
 import { ensureViSnapDirectories } from "@/utils/fs";
 import log from "@/utils/logger";
+import { startWebServer, type WebServerHandle } from "@/web-server";
 
 /**
  * Execute a visual test run with proper resource cleanup
  *
  * This function manages the complete lifecycle of a test run including:
+ * - Starting the configured web server and stopping it afterwards
  * - Browser adapter initialization and disposal
  * - Test case adapter lifecycle management
  * - Screenshot capture with timeout protection
@@ -63,8 +68,13 @@ export async function executeTestRun(
   const testCaseAdapters = await loadAllTestCaseAdapters(adapters);
 
   let cases: (TestCaseInstanceMeta & { browser: BrowserName })[] = [];
+  let casesWithCheckpoints: (TestCaseInstanceMeta & {
+    browser: BrowserName;
+  })[] = [];
   let captureResults: CaptureResult[] = [];
+  let comparisons: CompareResult[] | undefined;
   const browserAdapterPool = new BrowserAdapterPool();
+  let webServer: WebServerHandle | undefined;
 
   // Function to get or create a browser adapter for a specific browser
   const getBrowserAdapter = async (
@@ -77,6 +87,11 @@ export async function executeTestRun(
   };
 
   try {
+    // Launch the web server before adapters start and connect to it
+    if (options.webServer) {
+      webServer = await startWebServer(options.webServer);
+    }
+
     // Determine browser configuration
     const browsersToUse = parseBrowsersFromConfig(adapters);
 
@@ -90,6 +105,10 @@ export async function executeTestRun(
 
     // Cases are already discovered and expanded by discoverCasesFromAllAdapters
 
+    // Checkpoints captured by `snapshot` interactions are compared and
+    // reported as test cases of their own
+    casesWithCheckpoints = expandCheckpointCases(cases);
+
     const maxConcurrencyConfig = options.runtime?.maxConcurrency;
     const captureMax =
       typeof maxConcurrencyConfig === "number"
@@ -99,14 +118,16 @@ export async function executeTestRun(
 
     ensureViSnapDirectories(options.screenshotDir);
 
-    // Execute screenshot capture
-    captureResults = await executeCapture(
+    // Execute screenshot capture, retrying failed cases if configured; in
+    // test mode the comparisons of the final attempts are reused below
+    ({ captureResults, comparisons } = await executeCaptureWithRetries(
       cases,
       getBrowserAdapter,
       storage,
+      options,
       mode,
       maxConcurrency
-    );
+    ));
   } finally {
     // Ensure adapters are torn down regardless of capture/write outcomes
     if (!isCleaningUp) {
@@ -130,23 +151,36 @@ export async function executeTestRun(
       } catch (error) {
         log.warn(`Error during adapter cleanup: ${error}`);
       }
+
+      try {
+        await webServer?.stop();
+      } catch (error) {
+        log.warn(`Error stopping web server: ${error}`);
+      }
     }
   }
 
   // Screenshots are already written to disk during capture
 
+  // Checkpoints of failed captures were not taken and are not reported
+  const capturedIds = new Set(captureResults.map(r => r.id));
+  const capturedCases = casesWithCheckpoints.filter(c =>
+    capturedIds.has(`${c.caseId}-${c.variantId}`)
+  );
+
   if (mode === "test") {
     const { outcome, failures, captureFailures } = await summarizeTestMode(
       storage,
       options,
-      cases,
-      captureResults
+      capturedCases,
+      captureResults,
+      comparisons
     );
     return { outcome, failures, captureFailures };
   } else {
     const { outcome, captureFailures } = summarizeUpdateMode(
       captureResults,
-      cases
+      capturedCases
     );
     return { outcome, captureFailures };
   }
@@ -109,6 +109,21 @@ describe("args", () => {
       expect(result).toEqual({ dryRun: true });
     });
 
+    it("should parse tag arguments", () => {
+      const result = parseIncludeExclude([
+        "--tag",
+        "visual,smoke",
+        "--exclude-tag",
+        "flaky",
+        "--tag",
+        "a11y",
+      ]);
+      expect(result).toEqual({
+        includeTags: ["visual", "smoke", "a11y"],
+        excludeTags: ["flaky"],
+      });
+    });
+
     it("should handle complex argument combinations", () => {
       const result = parseIncludeExclude([
         "--include",
@@ -1,8 +1,13 @@
 import type { FilterOptions } from "@visnap/protocol";
 
-export interface ParsedArgs extends Pick<FilterOptions, "include" | "exclude"> {
+export interface ParsedArgs extends Pick<
+  FilterOptions,
+  "include" | "exclude" | "includeTags" | "excludeTags"
+> {
   include?: string[];
   exclude?: string[];
+  includeTags?: string[];
+  excludeTags?: string[];
   json?: string | boolean;
   dryRun?: boolean;
 }
@@ -16,7 +21,7 @@ const splitArg = (v?: string): string[] | undefined => {
 };
 
 export const parseIncludeExclude = (argv: string[]): ParsedArgs => {
-  // simple manual parse for --include and --exclude; supports repeated or comma-separated
+  // simple manual parse for --include, --exclude, --tag and --exclude-tag; supports repeated or comma-separated
   const out: ParsedArgs = {};
   for (let i = 0; i < argv.length; i++) {
     const token = argv[i];
@@ -38,6 +43,24 @@ export const parseIncludeExclude = (argv: string[]): ParsedArgs => {
       }
       continue;
     }
+    if (token === "--tag") {
+      const value = argv[i + 1];
+      if (value && !value.startsWith("--")) {
+        const parts = splitArg(value) ?? [];
+        out.includeTags = [...(out.includeTags ?? []), ...parts];
+        i++;
+      }
+      continue;
+    }
+    if (token === "--exclude-tag") {
+      const value = argv[i + 1];
+      if (value && !value.startsWith("--")) {
+        const parts = splitArg(value) ?? [];
+        out.excludeTags = [...(out.excludeTags ?? []), ...parts];
+        i++;
+      }
+      continue;
+    }
     if (token === "--json") {
       const value = argv[i + 1];
       if (value && !value.startsWith("--")) {
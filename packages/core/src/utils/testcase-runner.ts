@@ -1,4 +1,5 @@
 // Re-export all test execution functionality from split modules
 export * from "@/test/test-runner";
 export * from "@/test/capture-executor";
+export * from "@/test/capture-retry";
 export * from "@/browser/browser-pool";
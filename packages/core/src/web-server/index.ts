@@ -0,0 +1,9 @@
+/**
+ * @fileoverview Web server domain exports
+ *
+ * Launches and health-checks the configured web server (e.g. a Storybook
+ * dev server) for the duration of a run.
+ */
+
+export { startWebServer, isServerReachable } from "./web-server";
+export type { WebServerHandle } from "./web-server";
@@ -0,0 +1,156 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { describe, it, expect, afterEach } from "vitest";
+
+import { isServerReachable, startWebServer } from "./web-server";
+
+/**
+ * Starts an in-process HTTP server on a free port.
+ */
+const listen = async (status = 200): Promise<http.Server> => {
+  const server = http.createServer((_req, res) => {
+    res.statusCode = status;
+    res.end("ok");
+  });
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  return server;
+};
+
+const urlOf = (server: http.Server) =>
+  `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+/**
+ * Reserves a free port by briefly listening on it.
+ */
+const getFreePort = async (): Promise<number> => {
+  const server = await listen();
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+};
+
+/**
+ * Shell command that starts a Node HTTP server on the port.
+ */
+const nodeServerCommand = (port: number) =>
+  `"${process.execPath}" -e "require('http').createServer((q, s) => s.end('ok')).listen(${port})"`;
+
+describe("web-server", () => {
+  const servers: http.Server[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.splice(0).map(s => new Promise(resolve => s.close(resolve)))
+    );
+  });
+
+  describe("isServerReachable", () => {
+    it("should treat responses below 404 as reachable", async () => {
+      const ok = await listen(200);
+      const forbidden = await listen(403);
+      const missing = await listen(404);
+      servers.push(ok, forbidden, missing);
+
+      expect(await isServerReachable(urlOf(ok))).toBe(true);
+      expect(await isServerReachable(urlOf(forbidden))).toBe(true);
+      expect(await isServerReachable(urlOf(missing))).toBe(false);
+    });
+
+    it("should return false when nothing listens on the URL", async () => {
+      const port = await getFreePort();
+
+      expect(await isServerReachable(`http://127.0.0.1:${port}`)).toBe(false);
+    });
+  });
+
+  describe("startWebServer", () => {
+    it("should reuse a running server when reuseExisting is set", async () => {
+      const server = await listen();
+      servers.push(server);
+
+      const handle = await startWebServer({
+        command: "exit 1",
+        url: urlOf(server),
+        reuseExisting: true,
+      });
+      await handle.stop();
+
+      expect(await isServerReachable(urlOf(server))).toBe(true);
+    });
+
+    it("should refuse to start when the URL is already in use", async () => {
+      const server = await listen();
+      servers.push(server);
+
+      await expect(
+        startWebServer({ command: "exit 1", url: urlOf(server) })
+      ).rejects.toThrow("is already in use");
+    });
+
+    it("should start the command, wait for the URL and stop it", async () => {
+      const port = await getFreePort();
+      const url = `http://127.0.0.1:${port}`;
+
+      const handle = await startWebServer({
+        command: nodeServerCommand(port),
+        url,
+        timeout: 8000,
+      });
+
+      expect(await isServerReachable(url)).toBe(true);
+      await handle.stop();
+      expect(await isServerReachable(url)).toBe(false);
+    });
+
+    it("should stop the command when the process exits without cleanup", async () => {
+      const port = await getFreePort();
+      const url = `http://127.0.0.1:${port}`;
+      const listenersBefore = process.listeners("exit");
+
+      const handle = await startWebServer({
+        command: nodeServerCommand(port),
+        url,
+        timeout: 8000,
+      });
+      const stopOnExit = process
+        .listeners("exit")
+        .find(listener => !listenersBefore.includes(listener));
+
+      expect(stopOnExit).toBeDefined();
+      stopOnExit!(0);
+      for (let i = 0; i < 40 && (await isServerReachable(url)); i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      expect(await isServerReachable(url)).toBe(false);
+      await handle.stop();
+      expect(process.listeners("exit")).toEqual(listenersBefore);
+    });
+
+    it("should fail when the command exits before the server is ready", async () => {
+      const port = await getFreePort();
+
+      await expect(
+        startWebServer({
+          command: "exit 3",
+          url: `http://127.0.0.1:${port}`,
+          timeout: 5000,
+        })
+      ).rejects.toThrow("Web server command exited with code 3");
+    });
+
+    it("should fail and stop the command when the server does not respond in time", async () => {
+      const port = await getFreePort();
+
+      await expect(
+        startWebServer({
+          command: `"${process.execPath}" -e "setTimeout(() => {}, 60000)"`,
+          url: `http://127.0.0.1:${port}`,
+          timeout: 500,
+        })
+      ).rejects.toThrow(
+        `Timed out after 500ms waiting for web server at http://127.0.0.1:${port}`
+      );
+    });
+  });
+});
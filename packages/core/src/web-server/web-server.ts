@@ -0,0 +1,145 @@
+import { spawn, type ChildProcess } from "node:child_process";
+
+import type { WebServerConfig } from "@visnap/protocol";
+
+import {
+  DEFAULT_WEB_SERVER_TIMEOUT_MS,
+  WEB_SERVER_POLL_INTERVAL_MS,
+  WEB_SERVER_STOP_TIMEOUT_MS,
+} from "@/constants";
+import log from "@/utils/logger";
+
+export interface WebServerHandle {
+  /** Stops the server if it was started by visnap; no-op for reused servers */
+  stop(): Promise<void>;
+}
+
+/**
+ * Checks whether a server responds at the URL.
+ * Like Playwright, statuses up to 403 count as up so servers without a page at `/` still work.
+ */
+export const isServerReachable = async (url: string): Promise<boolean> => {
+  try {
+    const response = await fetch(url, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEB_SERVER_POLL_INTERVAL_MS * 4),
+    });
+    return response.status < 404;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Sends a signal to the server process and its children.
+ */
+const signalServerProcess = (
+  child: ChildProcess,
+  signal: "SIGTERM" | "SIGKILL"
+): void => {
+  try {
+    // The server runs in its own process group so shell children are stopped too
+    if (process.platform !== "win32" && child.pid) {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // Process already exited
+  }
+};
+
+/**
+ * Terminates the server process and its children, escalating to SIGKILL
+ * when it does not exit within the grace period.
+ */
+const killServerProcess = async (child: ChildProcess): Promise<void> => {
+  if (child.exitCode !== null || child.signalCode !== null) return;
+
+  const exited = new Promise<void>(resolve =>
+    child.once("exit", () => resolve())
+  );
+
+  signalServerProcess(child, "SIGTERM");
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = await Promise.race([
+    exited.then(() => false),
+    new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(true), WEB_SERVER_STOP_TIMEOUT_MS);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (timedOut) {
+    signalServerProcess(child, "SIGKILL");
+    await exited;
+  }
+};
+
+/**
+ * Starts the configured web server and waits until it responds at `config.url`.
+ * With `reuseExisting`, a server already responding at the URL is used as is.
+ * @param config - Web server configuration
+ * @returns Handle that stops the server after the run
+ * @throws {Error} If the URL is already in use without `reuseExisting`, the command
+ *   exits before the server responds, or the server does not respond in time
+ */
+export const startWebServer = async (
+  config: WebServerConfig
+): Promise<WebServerHandle> => {
+  const timeout = config.timeout ?? DEFAULT_WEB_SERVER_TIMEOUT_MS;
+
+  if (await isServerReachable(config.url)) {
+    if (config.reuseExisting) {
+      log.info(`Reusing web server at ${config.url}`);
+      return { stop: async () => {} };
+    }
+    throw new Error(
+      `${config.url} is already in use. Stop the running server or set webServer.reuseExisting to true.`
+    );
+  }
+
+  log.info(`Starting web server: ${config.command}`);
+  const child = spawn(config.command, {
+    shell: true,
+    stdio: ["ignore", "pipe", "pipe"],
+    detached: process.platform !== "win32",
+  });
+  // The detached process group does not receive Ctrl+C, so stop it when
+  // visnap exits without running its cleanup (e.g. process.exit on SIGINT)
+  const stopOnExit = () => signalServerProcess(child, "SIGTERM");
+  process.once("exit", stopOnExit);
+  child.once("exit", () => process.removeListener("exit", stopOnExit));
+
+  child.stdout?.on("data", data => log.debug(`[webServer] ${data}`));
+  child.stderr?.on("data", data => log.debug(`[webServer] ${data}`));
+
+  let exitError: Error | undefined;
+  child.once("exit", code => {
+    exitError = new Error(
+      `Web server command exited with code ${code} before ${config.url} was ready`
+    );
+  });
+  child.once("error", error => {
+    exitError = new Error(`Failed to start web server: ${error.message}`);
+  });
+
+  const handle: WebServerHandle = { stop: () => killServerProcess(child) };
+
+  const deadline = Date.now() + timeout;
+  while (!(await isServerReachable(config.url))) {
+    if (exitError) throw exitError;
+    if (Date.now() >= deadline) {
+      await handle.stop();
+      throw new Error(
+        `Timed out after ${timeout}ms waiting for web server at ${config.url}`
+      );
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, WEB_SERVER_POLL_INTERVAL_MS)
+    );
+  }
+
+  log.success(`Web server ready at ${config.url}`);
+  return handle;
+};
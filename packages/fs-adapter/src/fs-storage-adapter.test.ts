@@ -10,6 +10,9 @@ import {
   createUnicodeTestFilename,
   createPathTraversalFilename,
 } from "./__mocks__/fs-test-helpers";
+import { FsStorageAdapter } from "./fs-storage-adapter";
+
+import { createAdapter } from "./index";
 
 describe("FsStorageAdapter", () => {
   let testAdapter: Awaited<ReturnType<typeof createTestAdapter>>;
@@ -311,4 +314,12 @@ describe("FsStorageAdapter", () => {
       );
     });
   });
+
+  describe("createAdapter", () => {
+    it("should create a filesystem storage adapter", () => {
+      const adapter = createAdapter({ screenshotDir: "./screenshots" });
+
+      expect(adapter).toBeInstanceOf(FsStorageAdapter);
+    });
+  });
 });
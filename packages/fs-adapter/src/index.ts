@@ -1,4 +1,20 @@
-export {
+import type { StorageAdapter } from "@visnap/protocol";
+
+import {
   FsStorageAdapter,
   type FsStorageAdapterOptions,
 } from "./fs-storage-adapter";
+
+export { FsStorageAdapter, type FsStorageAdapterOptions };
+
+/**
+ * Creates a filesystem storage adapter.
+ * Entry point used when the adapter is configured via `adapters.storage`.
+ * @param options - Filesystem storage options, including the screenshot directory
+ * @returns Storage adapter instance
+ */
+export function createAdapter(
+  options: FsStorageAdapterOptions
+): StorageAdapter {
+  return new FsStorageAdapter(options);
+}
@@ -0,0 +1,4 @@
+import { baseConfig } from "@visnap/eslint-config/base";
+
+/** @type {import("eslint").Linter.Config} */
+export default baseConfig;
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { buildHistoireVariantUrl, discoverHistoireCases } from "./discovery";
+
+describe("discoverHistoireCases", () => {
+  const manifest = {
+    stories: [
+      {
+        id: "src-button-story-vue",
+        title: "Button",
+        meta: { visualTesting: { threshold: 0.1, screenshotTarget: ".btn" } },
+        variants: [
+          { id: "src-button-story-vue-0", title: "Primary" },
+          {
+            id: "src-button-story-vue-1",
+            title: "Disabled",
+            meta: { visualTesting: { threshold: 0.3, skip: true } },
+          },
+          { id: "loading", title: "Loading" },
+        ],
+      },
+      {
+        id: "src-card-story-vue",
+        title: "Card",
+        meta: { visualTesting: { variants: { dark: { args: {} } } } },
+        variants: [{ id: "_default", title: "default" }],
+      },
+      { id: "src-empty-story-vue", title: "Empty" },
+      null,
+    ],
+  };
+
+  /**
+   * Stubs fetch with JSON responses keyed by URL.
+   */
+  const stubFetch = (responses: Record<string, unknown>) => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url in responses
+        ? { ok: true, status: 200, json: async () => responses[url] }
+        : { ok: false, status: 404, json: async () => ({}) }
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should map every variant to a case with merged visualTesting", async () => {
+    stubFetch({ "http://localhost:6006/histoire.json": manifest });
+
+    const cases = await discoverHistoireCases("http://localhost:6006/");
+
+    expect(cases).toEqual({
+      "src-button-story-vue-0": {
+        id: "src-button-story-vue-0",
+        title: "Button / Primary",
+        storyId: "src-button-story-vue",
+        variantId: "src-button-story-vue-0",
+        parameters: {
+          visualTesting: { threshold: 0.1, screenshotTarget: ".btn" },
+        },
+      },
+      "src-button-story-vue-1": {
+        id: "src-button-story-vue-1",
+        title: "Button / Disabled",
+        storyId: "src-button-story-vue",
+        variantId: "src-button-story-vue-1",
+        parameters: {
+          visualTesting: {
+            threshold: 0.3,
+            screenshotTarget: ".btn",
+            skip: true,
+          },
+        },
+      },
+      "src-button-story-vue--loading": {
+        id: "src-button-story-vue--loading",
+        title: "Button / Loading",
+        storyId: "src-button-story-vue",
+        variantId: "loading",
+        parameters: {
+          visualTesting: { threshold: 0.1, screenshotTarget: ".btn" },
+        },
+      },
+      "src-card-story-vue": {
+        id: "src-card-story-vue",
+        title: "Card",
+        storyId: "src-card-story-vue",
+        variantId: "_default",
+      },
+    });
+  });
+
+  it("should read a custom manifest location", async () => {
+    const fetchMock = stubFetch({
+      "https://cdn.example.com/stories.json": manifest.stories,
+    });
+
+    const cases = await discoverHistoireCases(
+      "http://localhost:6006",
+      "https://cdn.example.com/stories.json"
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://cdn.example.com/stories.json"
+    );
+    expect(Object.keys(cases)).toHaveLength(4);
+  });
+
+  it("should throw when the manifest cannot be fetched", async () => {
+    stubFetch({});
+
+    await expect(
+      discoverHistoireCases("http://localhost:6006", "./stories.json")
+    ).rejects.toThrow(
+      "Failed to fetch http://localhost:6006/stories.json: HTTP 404"
+    );
+  });
+
+  it("should throw when the manifest has no stories", async () => {
+    stubFetch({ "http://localhost:6006/histoire.json": { files: [] } });
+
+    await expect(
+      discoverHistoireCases("http://localhost:6006")
+    ).rejects.toThrow("Histoire manifest histoire.json has no stories");
+  });
+});
+
+describe("buildHistoireVariantUrl", () => {
+  it("should build sandbox URLs", () => {
+    expect(
+      buildHistoireVariantUrl(
+        "http://localhost:6006",
+        "src-a-story-vue",
+        "_default"
+      )
+    ).toBe(
+      "http://localhost:6006/__sandbox.html?storyId=src-a-story-vue&variantId=_default"
+    );
+  });
+});
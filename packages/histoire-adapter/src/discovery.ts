@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Story discovery for Histoire adapter
+ *
+ * Reads stories and their variants from a Histoire story manifest and builds
+ * `__sandbox.html` URLs rendering a single variant.
+ */
+
+import { fetchJson, resolveManifestUrl } from "@visnap/adapter-utils";
+
+/** Default manifest location, relative to the Histoire base URL; written by the manifest plugin */
+export const DEFAULT_MANIFEST = "histoire.json";
+
+/** Default timeout for fetching the manifest */
+export const DEFAULT_MANIFEST_TIMEOUT_MS = 15000;
+
+/**
+ * A Histoire variant rendered as one case
+ * @property id - Case ID: the story ID, or the variant ID for stories with several variants
+ * @property storyId - Histoire story ID
+ * @property variantId - Histoire variant ID
+ */
+export interface HistoireCase {
+  id: string;
+  title: string;
+  storyId: string;
+  variantId: string;
+  parameters?: { visualTesting: Record<string, unknown> };
+}
+
+/**
+ * Story or variant entry of the manifest, as in Histoire's story data
+ */
+interface HistoireEntry {
+  id?: unknown;
+  title?: unknown;
+  meta?: { visualTesting?: unknown } | null;
+  variants?: unknown;
+}
+
+/**
+ * Reads the `visualTesting` object from the `meta` of a story or variant.
+ */
+function readVisualTesting(entry: HistoireEntry): Record<string, unknown> {
+  const visualTesting = entry.meta?.visualTesting;
+  return typeof visualTesting === "object" && visualTesting !== null
+    ? (visualTesting as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Discovers Histoire variants by reading the story manifest, a JSON object
+ * with a `stories` list (or the list itself) of Histoire story data. Every
+ * variant becomes a case whose `visualTesting` parameters are the story
+ * `meta.visualTesting` merged with the variant's, so variants can override
+ * their story. Histoire variants replace the Storybook adapter's `variants`
+ * setting, which is ignored here.
+ * @param baseUrl - Base URL of the Histoire build or server
+ * @param manifest - Manifest path relative to the base URL, or an absolute URL
+ * @param timeoutMs - Timeout for fetching the manifest
+ * @returns Cases keyed by case ID
+ * @throws {Error} If the manifest cannot be fetched or has no stories
+ */
+export async function discoverHistoireCases(
+  baseUrl: string,
+  manifest = DEFAULT_MANIFEST,
+  timeoutMs = DEFAULT_MANIFEST_TIMEOUT_MS
+): Promise<Record<string, HistoireCase>> {
+  const data = (await fetchJson(
+    resolveManifestUrl(baseUrl, manifest),
+    timeoutMs
+  )) as { stories?: unknown } | unknown[] | null;
+
+  const stories = Array.isArray(data) ? data : data?.stories;
+  if (!Array.isArray(stories)) {
+    throw new Error(`Histoire manifest ${manifest} has no stories`);
+  }
+
+  const cases: Record<string, HistoireCase> = {};
+  for (const story of stories as (HistoireEntry | null)[]) {
+    if (!story || typeof story.id !== "string") continue;
+    const storyTitle = typeof story.title === "string" ? story.title : story.id;
+    const variants = (
+      Array.isArray(story.variants) ? story.variants : []
+    ).filter(
+      (variant): variant is HistoireEntry & { id: string } =>
+        !!variant && typeof variant.id === "string"
+    );
+
+    for (const variant of variants) {
+      const single = variants.length === 1;
+      const id = single
+        ? story.id
+        : variant.id.startsWith(story.id)
+          ? variant.id
+          : `${story.id}--${variant.id}`;
+      const { variants: _ignored, ...visualTesting } = {
+        ...readVisualTesting(story),
+        ...readVisualTesting(variant),
+      };
+
+      cases[id] = {
+        id,
+        title:
+          single || typeof variant.title !== "string"
+            ? storyTitle
+            : `${storyTitle} / ${variant.title}`,
+        storyId: story.id,
+        variantId: variant.id,
+        ...(Object.keys(visualTesting).length > 0 && {
+          parameters: { visualTesting },
+        }),
+      };
+    }
+  }
+  return cases;
+}
+
+/**
+ * Builds the sandbox URL rendering a single Histoire variant.
+ */
+export function buildHistoireVariantUrl(
+  baseUrl: string,
+  storyId: string,
+  variantId: string
+): string {
+  return `${baseUrl}/__sandbox.html?storyId=${encodeURIComponent(storyId)}&variantId=${encodeURIComponent(variantId)}`;
+}
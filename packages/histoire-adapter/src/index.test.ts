@@ -0,0 +1,142 @@
+import type * as AdapterUtils from "@visnap/adapter-utils";
+import { createServerManager } from "@visnap/adapter-utils";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@visnap/adapter-utils", async importOriginal => ({
+  ...(await importOriginal<typeof AdapterUtils>()),
+  createServerManager: vi.fn(),
+}));
+
+vi.mock("./discovery.js", async importOriginal => ({
+  ...(await importOriginal<typeof Discovery>()),
+  discoverHistoireCases: vi.fn(),
+}));
+
+import type * as Discovery from "./discovery";
+import { discoverHistoireCases } from "./discovery";
+
+import { createAdapter } from "./index";
+
+const mockCreateServerManager = vi.mocked(createServerManager);
+const mockDiscoverHistoireCases = vi.mocked(discoverHistoireCases);
+
+describe("createAdapter", () => {
+  let baseUrl: string | undefined;
+  const mockServerManager = {
+    ensureStarted: vi.fn(async () => {
+      baseUrl = "http://localhost:4480";
+    }),
+    getBaseUrl: vi.fn(() => baseUrl),
+    stop: vi.fn(async () => {
+      baseUrl = undefined;
+    }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    baseUrl = undefined;
+    mockCreateServerManager.mockReturnValue(mockServerManager);
+    mockDiscoverHistoireCases.mockResolvedValue({
+      "src-button-story-vue-0": {
+        id: "src-button-story-vue-0",
+        title: "Button / Primary",
+        storyId: "src-button-story-vue",
+        variantId: "src-button-story-vue-0",
+        parameters: { visualTesting: { threshold: 0.1 } },
+      },
+      "src-button-story-vue-1": {
+        id: "src-button-story-vue-1",
+        title: "Button / Disabled",
+        storyId: "src-button-story-vue",
+        variantId: "src-button-story-vue-1",
+        parameters: { visualTesting: { skip: true } },
+      },
+      "src-card-story-vue": {
+        id: "src-card-story-vue",
+        title: "Card",
+        storyId: "src-card-story-vue",
+        variantId: "_default",
+      },
+    });
+  });
+
+  it("should validate options", () => {
+    expect(() => createAdapter(null as any)).toThrow(
+      "Invalid histoire adapter options: must be an object (was null)"
+    );
+    expect(() => createAdapter({ source: "   " })).toThrow(
+      "Invalid histoire adapter options: source must be non-empty"
+    );
+  });
+
+  it("should create the server manager for the source and port", () => {
+    const adapter = createAdapter({ source: ".histoire/dist", port: 5000 });
+
+    expect(adapter.name).toBe("histoire");
+    expect(mockCreateServerManager).toHaveBeenCalledWith(
+      ".histoire/dist",
+      5000,
+      { label: "Histoire build directory", defaultPort: 4480 }
+    );
+  });
+
+  it("should start the server without requiring a page", async () => {
+    const adapter = createAdapter({ source: ".histoire/dist" });
+
+    await expect(adapter.start!()).resolves.toEqual({
+      baseUrl: "http://localhost:4480",
+      requiresPage: false,
+    });
+  });
+
+  it("should throw when listing cases before start", async () => {
+    const adapter = createAdapter({ source: ".histoire/dist" });
+
+    await expect(adapter.listCases()).rejects.toThrow(
+      "Adapter not started. Call start() before listCases()."
+    );
+  });
+
+  it("should list variants with visualTesting and filters", async () => {
+    const adapter = createAdapter({
+      source: ".histoire/dist",
+      manifest: "stories.json",
+      manifestTimeoutMs: 5000,
+      exclude: "*card*",
+    });
+    await adapter.start!();
+
+    const cases = await adapter.listCases(undefined, {
+      viewport: {
+        mobile: { width: 375, height: 667 },
+        desktop: { width: 1280, height: 720 },
+      },
+    });
+
+    expect(mockDiscoverHistoireCases).toHaveBeenCalledWith(
+      "http://localhost:4480",
+      "stories.json",
+      5000
+    );
+    expect(cases.map(c => `${c.caseId}/${c.variantId}`)).toEqual([
+      "src-button-story-vue-0/desktop",
+      "src-button-story-vue-0/mobile",
+    ]);
+    expect(cases[1]).toMatchObject({
+      title: "Button / Primary",
+      kind: "histoire-story",
+      url: "http://localhost:4480/__sandbox.html?storyId=src-button-story-vue&variantId=src-button-story-vue-0",
+      screenshotTarget: "body",
+      threshold: 0.1,
+      viewport: { width: 375, height: 667 },
+    });
+  });
+
+  it("should stop the server", async () => {
+    const adapter = createAdapter({ source: ".histoire/dist" });
+    await adapter.start!();
+    await adapter.stop!();
+
+    expect(mockServerManager.stop).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Histoire adapter for Visnap visual testing framework
+ *
+ * Histoire-based TestCaseAdapter that can discover and test Histoire story variants.
+ * Manages a local server for a Histoire build, reads stories from a story manifest,
+ * and normalizes them into test case instances.
+ */
+
+import { createServerManager, normalizeStories } from "@visnap/adapter-utils";
+import type {
+  TestCaseAdapter,
+  TestCaseInstanceMeta,
+  ViewportMap,
+  PageWithEvaluate,
+} from "@visnap/protocol";
+
+import { buildHistoireVariantUrl, discoverHistoireCases } from "./discovery";
+import type { CreateHistoireAdapterOptions } from "./validation";
+import { validateOptions } from "./validation";
+
+/**
+ * Creates a Histoire-based TestCaseAdapter that can:
+ * - Start a local static file server for a Histoire build directory or use a provided URL
+ * - Discover story variants from a story manifest without a browser
+ * - Filter, normalize, and expand variants into `__sandbox.html` test case instances,
+ *   with the same `visualTesting` semantics as the Storybook adapter
+ *
+ * @param options - Configuration options for the Histoire adapter
+ * @returns A TestCaseAdapter instance configured for Histoire testing
+ */
+export function createAdapter(
+  options: CreateHistoireAdapterOptions
+): TestCaseAdapter {
+  // Validate options using ArkType schema
+  const validatedOptions = validateOptions(options);
+
+  const serverManager = createServerManager(
+    validatedOptions.source,
+    validatedOptions.port,
+    { label: "Histoire build directory", defaultPort: 4480 }
+  );
+
+  return {
+    name: "histoire",
+
+    /**
+     * Starts the adapter and returns base URL of the Histoire under test.
+     * Stories are read from the manifest, so no discovery page is needed.
+     * @returns Promise resolving to adapter start result with base URL
+     */
+    async start() {
+      await serverManager.ensureStarted();
+      return {
+        baseUrl: serverManager.getBaseUrl(),
+        requiresPage: false,
+      };
+    },
+
+    /**
+     * Lists normalized and filtered story variants from the Histoire manifest
+     *
+     * @param _pageCtx - Page context (not used for Histoire adapter)
+     * @param o - Options including viewport configuration
+     * @returns Promise resolving to array of test case instances
+     * @throws {Error} If the adapter is not started or the manifest cannot be read
+     */
+    async listCases(
+      _pageCtx?: PageWithEvaluate,
+      o?: { viewport?: ViewportMap }
+    ): Promise<TestCaseInstanceMeta[]> {
+      const baseUrl = serverManager.getBaseUrl();
+      if (!baseUrl) {
+        throw new Error(
+          "Adapter not started. Call start() before listCases()."
+        );
+      }
+
+      const cases = await discoverHistoireCases(
+        baseUrl,
+        validatedOptions.manifest,
+        validatedOptions.manifestTimeoutMs
+      );
+
+      let keys = o?.viewport ? Object.keys(o.viewport) : ["default"];
+      if (keys.length === 0) keys = ["default"];
+      // Sort viewport keys deterministically
+      keys.sort((a, b) => a.localeCompare(b));
+
+      return normalizeStories(cases, {
+        include: validatedOptions.include,
+        exclude: validatedOptions.exclude,
+        baseUrl,
+        viewportKeys: keys,
+        globalViewport: o?.viewport,
+        kind: "histoire-story",
+        screenshotTarget: "body",
+        buildUrl: (url, caseId) =>
+          buildHistoireVariantUrl(
+            url,
+            cases[caseId].storyId,
+            cases[caseId].variantId
+          ),
+      });
+    },
+
+    /**
+     * Stops the adapter server (if any) and clears base URL
+     * Safe to call multiple times
+     * @returns Promise resolving when server is stopped
+     */
+    async stop() {
+      await serverManager.stop();
+    },
+  };
+}
+
+// Re-export types for convenience
+export type { CreateHistoireAdapterOptions } from "./validation";
+
+// Plugin for histoire.config writing the story manifest
+export { createManifestPlugin } from "./manifest-plugin";
+export type {
+  CreateManifestPluginOptions,
+  HistoireManifestPlugin,
+} from "./manifest-plugin";
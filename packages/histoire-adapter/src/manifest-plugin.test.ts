@@ -0,0 +1,103 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { createManifestPlugin } from "./manifest-plugin";
+
+describe("createManifestPlugin", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "visnap-histoire-manifest-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs the plugin against a fake build rendering the given variants.
+   */
+  const runBuild = async (
+    plugin: ReturnType<typeof createManifestPlugin>,
+    previews: {
+      story: { id: string; title?: string; meta?: unknown };
+      variant: { id: string; title?: string; meta?: unknown };
+    }[]
+  ) => {
+    let onPreviewStory:
+      | ((payload: (typeof previews)[number]) => unknown)
+      | undefined;
+    let onBuildEnd: (() => unknown) | undefined;
+    plugin.onBuild({
+      onPreviewStory: callback => {
+        onPreviewStory = callback;
+      },
+      onBuildEnd: callback => {
+        onBuildEnd = callback;
+      },
+    });
+    for (const preview of previews) await onPreviewStory!(preview);
+    await onBuildEnd!();
+  };
+
+  it("should write the rendered stories and variants to the build directory", async () => {
+    const plugin = createManifestPlugin();
+    plugin.config({ outDir: dir });
+    const story = {
+      id: "src-button-story-vue",
+      title: "Button",
+      meta: { visualTesting: { threshold: 0.05 } },
+      file: { path: "src/Button.story.vue" },
+    };
+
+    await runBuild(plugin, [
+      { story, variant: { id: "src-button-story-vue-0", title: "Primary" } },
+      {
+        story,
+        variant: {
+          id: "src-button-story-vue-1",
+          title: "Loading",
+          meta: { visualTesting: { skip: true } },
+        },
+      },
+      { story, variant: { id: "src-button-story-vue-0", title: "Primary" } },
+    ]);
+
+    expect(
+      JSON.parse(readFileSync(join(dir, "histoire.json"), "utf8"))
+    ).toEqual({
+      stories: [
+        {
+          id: "src-button-story-vue",
+          title: "Button",
+          meta: { visualTesting: { threshold: 0.05 } },
+          variants: [
+            { id: "src-button-story-vue-0", title: "Primary" },
+            {
+              id: "src-button-story-vue-1",
+              title: "Loading",
+              meta: { visualTesting: { skip: true } },
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should write to a custom manifest path", async () => {
+    const plugin = createManifestPlugin({ manifest: "visnap/stories.json" });
+    plugin.config({ outDir: dir });
+
+    await runBuild(plugin, [
+      { story: { id: "card", title: "Card" }, variant: { id: "card-0" } },
+    ]);
+
+    expect(
+      JSON.parse(readFileSync(join(dir, "visnap", "stories.json"), "utf8"))
+        .stories
+    ).toEqual([{ id: "card", title: "Card", variants: [{ id: "card-0" }] }]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Histoire plugin writing the story manifest
+ *
+ * Histoire builds do not include a machine-readable list of stories, so this
+ * plugin records the stories and variants Histoire renders during
+ * `histoire build` and writes them to the manifest read by the adapter.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import { DEFAULT_MANIFEST } from "./discovery";
+
+/** Default Histoire build output directory */
+const DEFAULT_OUT_DIR = ".histoire/dist";
+
+/**
+ * Story or variant data passed to Histoire plugins
+ */
+interface HistoireStoryData {
+  id: string;
+  title?: string;
+  meta?: unknown;
+}
+
+/**
+ * Parts of Histoire's build plugin API used by the plugin
+ */
+interface HistoireBuildApi {
+  onPreviewStory(
+    callback: (payload: {
+      story: HistoireStoryData;
+      variant: HistoireStoryData;
+    }) => unknown
+  ): void;
+  onBuildEnd(callback: () => unknown): void;
+}
+
+/**
+ * Histoire plugin, structurally typed so the adapter does not depend on Histoire
+ */
+export interface HistoireManifestPlugin {
+  name: string;
+  config(config: { outDir?: string }): void;
+  onBuild(api: HistoireBuildApi): void;
+}
+
+/**
+ * Options for the manifest plugin
+ * @property manifest - Manifest path relative to the build output directory (defaults to "histoire.json")
+ */
+export interface CreateManifestPluginOptions {
+  manifest?: string;
+}
+
+/**
+ * Creates a Histoire plugin that writes the story manifest into the build
+ * output directory. Add it to `plugins` in `histoire.config`.
+ * @param options - Manifest plugin options
+ * @returns Histoire plugin
+ */
+export function createManifestPlugin(
+  options: CreateManifestPluginOptions = {}
+): HistoireManifestPlugin {
+  const manifest = options.manifest ?? DEFAULT_MANIFEST;
+  let outDir = DEFAULT_OUT_DIR;
+
+  return {
+    name: "@visnap/histoire-adapter",
+
+    config(config) {
+      if (config.outDir) outDir = config.outDir;
+    },
+
+    onBuild(api) {
+      const stories = new Map<
+        string,
+        HistoireStoryData & { variants: HistoireStoryData[] }
+      >();
+
+      api.onPreviewStory(({ story, variant }) => {
+        let entry = stories.get(story.id);
+        if (!entry) {
+          entry = {
+            id: story.id,
+            title: story.title,
+            meta: story.meta,
+            variants: [],
+          };
+          stories.set(story.id, entry);
+        }
+        if (!entry.variants.some(existing => existing.id === variant.id)) {
+          entry.variants.push({
+            id: variant.id,
+            title: variant.title,
+            meta: variant.meta,
+          });
+        }
+      });
+
+      api.onBuildEnd(async () => {
+        const path = join(outDir, manifest);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(
+          path,
+          JSON.stringify({ stories: [...stories.values()] }, null, 2)
+        );
+      });
+    },
+  };
+}
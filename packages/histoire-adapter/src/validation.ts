@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Validation utilities for Histoire adapter
+ *
+ * Provides ArkType-based validation schemas and functions for Histoire adapter options.
+ */
+
+import { type } from "arktype";
+
+// ============= Schema Definitions =============
+
+const createHistoireAdapterOptionsSchema = type({
+  source: "string>0",
+  port: "number>0?",
+  include: "string|string[]?",
+  exclude: "string|string[]?",
+  manifest: "string>0?",
+  "manifestTimeoutMs?": "number>0",
+});
+
+// ============= Type Exports (inferred from schemas) =============
+
+export type CreateHistoireAdapterOptions =
+  typeof createHistoireAdapterOptionsSchema.infer;
+
+// ============= Validation Functions =============
+
+/**
+ * Validates create Histoire adapter options
+ */
+export function validateOptions(
+  options: unknown
+): CreateHistoireAdapterOptions {
+  const result = createHistoireAdapterOptionsSchema(options);
+  if (result instanceof type.errors) {
+    throw new Error(`Invalid histoire adapter options: ${result.summary}`);
+  }
+
+  if (result.source.trim() === "") {
+    throw new Error(
+      "Invalid histoire adapter options: source must be non-empty"
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,129 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { fixturePathToId, loadFixtures, readMetaConfig } from "./fixtures";
+
+describe("fixturePathToId", () => {
+  it("should derive IDs from fixture paths", () => {
+    expect(fixturePathToId("index.html")).toBe("index");
+    expect(fixturePathToId("emails/Welcome Back.html")).toBe(
+      "emails-welcome-back"
+    );
+    expect(fixturePathToId("widgets/price_card.htm")).toBe(
+      "widgets-price_card"
+    );
+  });
+});
+
+describe("readMetaConfig", () => {
+  it("should parse the JSON content of the visnap meta tag", () => {
+    const html = `<head>
+      <meta charset="utf-8">
+      <meta content='{"threshold":0.2,"elementsToMask":[".date"]}' name="visnap">
+    </head>`;
+
+    expect(readMetaConfig(html, "a.html")).toEqual({
+      threshold: 0.2,
+      elementsToMask: [".date"],
+    });
+  });
+
+  it("should decode HTML entities in the content", () => {
+    const html = `<meta name="visnap" content="{&quot;title&quot;:&quot;Tom &amp; Jerry&quot;}">`;
+    expect(readMetaConfig(html, "a.html")).toEqual({ title: "Tom & Jerry" });
+  });
+
+  it("should return undefined without a visnap meta tag", () => {
+    expect(
+      readMetaConfig('<meta name="viewport" content="width=device-width">', "")
+    ).toBeUndefined();
+  });
+
+  it("should throw for invalid JSON", () => {
+    expect(() =>
+      readMetaConfig(`<meta name="visnap" content="{threshold: 1}">`, "a.html")
+    ).toThrow('Invalid JSON in <meta name="visnap"> of a.html');
+  });
+});
+
+describe("loadFixtures", () => {
+  let dir: string;
+
+  /**
+   * Writes a file below the temporary fixture directory.
+   */
+  const writeFixture = (path: string, content: string) => {
+    mkdirSync(dirname(join(dir, path)), { recursive: true });
+    writeFileSync(join(dir, path), content);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "visnap-fixtures-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should find HTML files sorted by path", () => {
+    writeFixture("widgets/card.html", "<div>card</div>");
+    writeFixture("emails/welcome.html", "<p>hi</p>");
+    writeFixture("emails/styles.css", "p {}");
+    writeFixture("node_modules/pkg/readme.html", "");
+
+    expect(loadFixtures(dir)).toEqual([
+      { id: "emails-welcome", path: "emails/welcome.html", config: {} },
+      { id: "widgets-card", path: "widgets/card.html", config: {} },
+    ]);
+  });
+
+  it("should select files with custom patterns", () => {
+    writeFixture("emails/welcome.html", "");
+    writeFixture("widgets/card.html", "");
+
+    expect(loadFixtures(dir, ["emails/**/*.html"]).map(f => f.id)).toEqual([
+      "emails-welcome",
+    ]);
+  });
+
+  it("should merge meta tag and sidecar config, preferring the sidecar", () => {
+    writeFixture(
+      "emails/welcome.html",
+      `<meta name="visnap" content='{"threshold":0.2,"screenshotTarget":"table"}'>`
+    );
+    writeFixture(
+      "emails/welcome.visnap.json",
+      JSON.stringify({ threshold: 0.05, viewport: { width: 600, height: 800 } })
+    );
+
+    expect(loadFixtures(dir)[0].config).toEqual({
+      threshold: 0.05,
+      screenshotTarget: "table",
+      viewport: { width: 600, height: 800 },
+    });
+  });
+
+  it("should report invalid fixture config", () => {
+    writeFixture("card.html", "");
+    writeFixture("card.visnap.json", JSON.stringify({ threshold: "high" }));
+
+    expect(() => loadFixtures(dir)).toThrow(
+      "Invalid fixture config in card.visnap.json: threshold must be a number (was a string)"
+    );
+
+    writeFixture("card.visnap.json", "{");
+    expect(() => loadFixtures(dir)).toThrow("Invalid JSON in");
+  });
+
+  it("should throw when two fixtures map to the same ID", () => {
+    writeFixture("a-b.html", "");
+    writeFixture("a/b.html", "");
+
+    expect(() => loadFixtures(dir)).toThrow(
+      "Fixtures a-b.html and a/b.html both map to the ID 'a-b'"
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Fixture discovery for HTML fixture adapter
+ *
+ * Finds HTML fixture files in a directory and reads their configuration from
+ * a `<meta name="visnap" content="{...}">` tag and an optional sidecar
+ * `<name>.visnap.json` file next to the fixture.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { minimatch } from "minimatch";
+
+import type { FixtureConfig } from "./validation";
+import { validateFixtureConfig } from "./validation";
+
+/** Default pattern selecting fixture files */
+export const DEFAULT_FIXTURE_PATTERN = "**/*.html";
+
+/** Directories never searched for fixtures */
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+/**
+ * An HTML fixture file
+ * @property id - Case ID derived from the file path
+ * @property path - Path relative to the fixture directory, with `/` separators
+ * @property config - Merged meta tag and sidecar configuration
+ */
+export interface Fixture {
+  id: string;
+  path: string;
+  config: FixtureConfig;
+}
+
+/**
+ * Lists files below a directory as sorted paths relative to it, with `/` separators.
+ */
+function listFiles(directory: string, prefix = ""): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(join(directory, prefix), {
+    withFileTypes: true,
+  })) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        files.push(...listFiles(directory, relativePath));
+      }
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Derives a stable case ID from a fixture path.
+ * `emails/Welcome.html` becomes `emails-welcome`.
+ */
+export function fixturePathToId(path: string): string {
+  return path
+    .toLowerCase()
+    .replace(/\.html?$/, "")
+    .replace(/[^a-z0-9_]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Decodes the HTML entities that can appear in a JSON attribute value.
+ */
+function decodeAttributeValue(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Reads the JSON `content` of a `<meta name="visnap">` tag.
+ * @returns The parsed configuration, or undefined if the fixture has no such tag
+ * @throws {Error} If the tag content is not valid JSON
+ */
+export function readMetaConfig(html: string, source: string): unknown {
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(
+      /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+    )) {
+      attributes[match[1].toLowerCase()] = decodeAttributeValue(
+        match[2] ?? match[3]
+      );
+    }
+    if (attributes.name !== "visnap" || attributes.content === undefined) {
+      continue;
+    }
+    try {
+      return JSON.parse(attributes.content);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON in <meta name="visnap"> of ${source}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the sidecar `<name>.visnap.json` file of a fixture, if present.
+ * @throws {Error} If the sidecar is not valid JSON
+ */
+function readSidecarConfig(filePath: string): unknown {
+  const sidecarPath = filePath.replace(/\.html?$/i, ".visnap.json");
+  if (!existsSync(sidecarPath)) return undefined;
+  try {
+    return JSON.parse(readFileSync(sidecarPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${sidecarPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Finds the fixtures of a directory and reads their configuration.
+ * Sidecar JSON settings take precedence over the meta tag.
+ * @param directory - Fixture directory
+ * @param pattern - Minimatch pattern(s) selecting fixture files
+ * @returns Fixtures sorted by path
+ * @throws {Error} If a configuration is invalid or two fixtures map to the same ID
+ */
+export function loadFixtures(
+  directory: string,
+  pattern: string | string[] = DEFAULT_FIXTURE_PATTERN
+): Fixture[] {
+  const patterns = Array.isArray(pattern) ? pattern : [pattern];
+  const fixtures: Fixture[] = [];
+  const pathsById = new Map<string, string>();
+
+  for (const path of listFiles(directory)) {
+    if (!patterns.some(p => minimatch(path, p))) continue;
+
+    const id = fixturePathToId(path);
+    const duplicate = pathsById.get(id);
+    if (duplicate) {
+      throw new Error(
+        `Fixtures ${duplicate} and ${path} both map to the ID '${id}'`
+      );
+    }
+    pathsById.set(id, path);
+
+    const filePath = join(directory, path);
+    const metaConfig = readMetaConfig(readFileSync(filePath, "utf8"), path);
+    const sidecarConfig = readSidecarConfig(filePath);
+    const config = {
+      ...(metaConfig !== undefined &&
+        validateFixtureConfig(metaConfig, `<meta name="visnap"> of ${path}`)),
+      ...(sidecarConfig !== undefined &&
+        validateFixtureConfig(
+          sidecarConfig,
+          path.replace(/\.html?$/i, ".visnap.json")
+        )),
+    };
+
+    fixtures.push({ id, path, config });
+  }
+
+  return fixtures;
+}
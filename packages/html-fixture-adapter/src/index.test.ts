@@ -0,0 +1,147 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type * as AdapterUtils from "@visnap/adapter-utils";
+import { createServerManager } from "@visnap/adapter-utils";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@visnap/adapter-utils", async importOriginal => ({
+  ...(await importOriginal<typeof AdapterUtils>()),
+  createServerManager: vi.fn(),
+}));
+
+import { createAdapter } from "./index";
+
+const mockCreateServerManager = vi.mocked(createServerManager);
+
+describe("createAdapter", () => {
+  let dir: string;
+  let baseUrl: string | undefined;
+  const mockServerManager = {
+    ensureStarted: vi.fn(async () => {
+      baseUrl = "http://localhost:4478";
+    }),
+    getBaseUrl: vi.fn(() => baseUrl),
+    stop: vi.fn(async () => {
+      baseUrl = undefined;
+    }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    baseUrl = undefined;
+    mockCreateServerManager.mockReturnValue(mockServerManager);
+
+    dir = mkdtempSync(join(tmpdir(), "visnap-fixture-adapter-"));
+    mkdirSync(join(dir, "emails"));
+    writeFileSync(
+      join(dir, "emails", "welcome.html"),
+      `<meta name="visnap" content='{"title":"Welcome","threshold":0.05}'>`
+    );
+    writeFileSync(join(dir, "card.html"), "<div>card</div>");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should validate options", () => {
+    expect(() => createAdapter(null as any)).toThrow(
+      "Invalid HTML fixture adapter options: must be an object (was null)"
+    );
+    expect(() => createAdapter({ directory: "" })).toThrow(
+      "Invalid HTML fixture adapter options"
+    );
+  });
+
+  it("should create the server manager for the directory and port", () => {
+    const adapter = createAdapter({ directory: dir, port: 5000 });
+
+    expect(adapter.name).toBe("html-fixture");
+    expect(mockCreateServerManager).toHaveBeenCalledWith(dir, 5000, {
+      label: "HTML fixture directory",
+      defaultPort: 4478,
+    });
+  });
+
+  it("should start the server without requiring a page", async () => {
+    const adapter = createAdapter({ directory: dir });
+
+    await expect(adapter.start!()).resolves.toEqual({
+      baseUrl: "http://localhost:4478",
+      requiresPage: false,
+    });
+    expect(mockServerManager.ensureStarted).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw when listing cases before start", async () => {
+    const adapter = createAdapter({ directory: dir });
+
+    await expect(adapter.listCases()).rejects.toThrow(
+      "Adapter not started. Call start() before listCases()."
+    );
+  });
+
+  it("should list fixtures per sorted viewport", async () => {
+    const adapter = createAdapter({ directory: dir });
+    await adapter.start!();
+
+    const cases = await adapter.listCases(undefined, {
+      viewport: {
+        mobile: { width: 375, height: 667 },
+        desktop: { width: 1280, height: 720 },
+      },
+    });
+
+    expect(cases.map(c => `${c.caseId}/${c.variantId}`)).toEqual([
+      "card/desktop",
+      "card/mobile",
+      "emails-welcome/desktop",
+      "emails-welcome/mobile",
+    ]);
+    expect(cases[2]).toMatchObject({
+      title: "Welcome",
+      url: "http://localhost:4478/emails/welcome.html",
+      threshold: 0.05,
+    });
+  });
+
+  it("should apply pattern and filters", async () => {
+    const adapter = createAdapter({
+      directory: dir,
+      pattern: "emails/**/*.html",
+      exclude: "card",
+    });
+    await adapter.start!();
+
+    const cases = await adapter.listCases();
+
+    expect(cases).toHaveLength(1);
+    expect(cases[0]).toMatchObject({
+      caseId: "emails-welcome",
+      variantId: "default",
+    });
+  });
+
+  it("should warn when no fixtures are found", async () => {
+    const adapter = createAdapter({
+      directory: dir,
+      pattern: "**/*.htm",
+    });
+    await adapter.start!();
+
+    await expect(adapter.listCases()).resolves.toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith(
+      `No HTML fixtures found in ${dir}`
+    );
+  });
+
+  it("should stop the server", async () => {
+    const adapter = createAdapter({ directory: dir });
+    await adapter.start!();
+    await adapter.stop!();
+
+    expect(mockServerManager.stop).toHaveBeenCalledTimes(1);
+  });
+});
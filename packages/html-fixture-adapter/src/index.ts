@@ -0,0 +1,124 @@
+/**
+ * @fileoverview HTML fixture adapter for Visnap visual testing framework
+ *
+ * TestCaseAdapter for directories of standalone HTML files such as email
+ * templates or server-rendered widgets. Serves the directory locally and maps
+ * each fixture file to a test case.
+ */
+
+import { createServerManager } from "@visnap/adapter-utils";
+import type {
+  TestCaseAdapter,
+  TestCaseInstanceMeta,
+  ViewportMap,
+  PageWithEvaluate,
+} from "@visnap/protocol";
+
+import { loadFixtures } from "./fixtures";
+import { normalizeFixtures } from "./normalization";
+import type { CreateHtmlFixtureAdapterOptions } from "./validation";
+import { validateOptions } from "./validation";
+
+/**
+ * Creates an HTML fixture TestCaseAdapter that can:
+ * - Serve a fixture directory with a local static file server
+ * - Find fixture files with minimatch patterns and map each file to a case
+ * - Read per-fixture `visualTesting` config from a `<meta name="visnap">` tag
+ *   or a sidecar `<name>.visnap.json` file
+ * - Filter fixtures by ID and expand them across viewports
+ *
+ * @param options - Configuration options for the HTML fixture adapter
+ * @returns A TestCaseAdapter instance configured for HTML fixture testing
+ *
+ * @example
+ * ```typescript
+ * const adapter = createAdapter({
+ *   directory: "./fixtures/emails",
+ *   exclude: ["*draft*"],
+ * });
+ * ```
+ */
+export function createAdapter(
+  options: CreateHtmlFixtureAdapterOptions
+): TestCaseAdapter {
+  // Validate options using ArkType schema
+  const validatedOptions = validateOptions(options);
+
+  const serverManager = createServerManager(
+    validatedOptions.directory,
+    validatedOptions.port,
+    { label: "HTML fixture directory", defaultPort: 4478 }
+  );
+
+  return {
+    name: "html-fixture",
+
+    /**
+     * Starts the fixture server and returns its base URL.
+     * Fixtures are read from disk, so no discovery page is needed.
+     * @returns Promise resolving to adapter start result with base URL
+     */
+    async start() {
+      await serverManager.ensureStarted();
+      return {
+        baseUrl: serverManager.getBaseUrl(),
+        requiresPage: false,
+      };
+    },
+
+    /**
+     * Lists fixtures as normalized and filtered test case instances
+     *
+     * @param _pageCtx - Page context (not used for HTML fixture adapter)
+     * @param o - Options including viewport configuration
+     * @returns Promise resolving to array of test case instances
+     * @throws {Error} If the adapter is not started or a fixture config is invalid
+     */
+    async listCases(
+      _pageCtx?: PageWithEvaluate,
+      o?: { viewport?: ViewportMap }
+    ): Promise<TestCaseInstanceMeta[]> {
+      const baseUrl = serverManager.getBaseUrl();
+      if (!baseUrl) {
+        throw new Error(
+          "Adapter not started. Call start() before listCases()."
+        );
+      }
+
+      let keys = o?.viewport ? Object.keys(o.viewport) : ["default"];
+      if (keys.length === 0) keys = ["default"];
+      // Sort viewport keys deterministically
+      keys.sort((a, b) => a.localeCompare(b));
+
+      const fixtures = loadFixtures(
+        validatedOptions.directory,
+        validatedOptions.pattern
+      );
+      if (fixtures.length === 0) {
+        console.warn(`No HTML fixtures found in ${validatedOptions.directory}`);
+      }
+
+      return normalizeFixtures(fixtures, {
+        include: validatedOptions.include,
+        exclude: validatedOptions.exclude,
+        baseUrl,
+        viewportKeys: keys,
+        globalViewport: o?.viewport,
+      });
+    },
+
+    /**
+     * Stops the fixture server. Safe to call multiple times.
+     * @returns Promise resolving when server is stopped
+     */
+    async stop() {
+      await serverManager.stop();
+    },
+  };
+}
+
+// Re-export types for convenience
+export type {
+  CreateHtmlFixtureAdapterOptions,
+  FixtureConfig,
+} from "./validation";
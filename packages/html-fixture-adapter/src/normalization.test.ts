@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+
+import type { Fixture } from "./fixtures";
+import { createFixtureFilter, normalizeFixtures } from "./normalization";
+
+describe("createFixtureFilter", () => {
+  const fixture = (id: string): Fixture => ({
+    id,
+    path: `${id}.html`,
+    config: {},
+  });
+
+  it("should filter fixtures by ID patterns", () => {
+    const filter = createFixtureFilter({
+      include: "emails-*",
+      exclude: ["*-draft"],
+    });
+
+    expect(filter(fixture("emails-welcome"))).toBe(true);
+    expect(filter(fixture("emails-welcome-draft"))).toBe(false);
+    expect(filter(fixture("widgets-card"))).toBe(false);
+  });
+});
+
+describe("normalizeFixtures", () => {
+  const fixtures: Fixture[] = [
+    {
+      id: "emails-welcome",
+      path: "emails/welcome back.html",
+      config: {
+        title: "Welcome email",
+        threshold: 0.05,
+        elementsToMask: [".date"],
+        routes: [{ url: "**/avatar.png", file: "fixtures/avatar.png" }],
+        determinism: { now: "2025-01-01T09:00:00Z" },
+        readiness: { fonts: true, images: true },
+      },
+    },
+    { id: "widgets-card", path: "widgets/card.html", config: {} },
+    { id: "widgets-old", path: "widgets/old.html", config: { skip: true } },
+  ];
+
+  it("should expand fixtures per viewport with absolute URLs", () => {
+    const result = normalizeFixtures(fixtures, {
+      baseUrl: "http://localhost:4478/",
+      viewportKeys: ["desktop", "mobile"],
+      globalViewport: {
+        desktop: { width: 1280, height: 720 },
+        mobile: { width: 375, height: 667 },
+      },
+    });
+
+    expect(result.map(r => `${r.caseId}/${r.variantId}`)).toEqual([
+      "emails-welcome/desktop",
+      "emails-welcome/mobile",
+      "widgets-card/desktop",
+      "widgets-card/mobile",
+    ]);
+    expect(result[1]).toMatchObject({
+      id: "emails-welcome",
+      title: "Welcome email",
+      kind: "html-fixture",
+      url: "http://localhost:4478/emails/welcome%20back.html",
+      screenshotTarget: "body",
+      viewport: { width: 375, height: 667 },
+      threshold: 0.05,
+      elementsToMask: [".date"],
+      routes: [{ url: "**/avatar.png", file: "fixtures/avatar.png" }],
+      determinism: { now: "2025-01-01T09:00:00Z" },
+      readiness: { fonts: true, images: true },
+      visualTesting: { threshold: 0.05, elementsToMask: [".date"] },
+    });
+    expect(result[2].title).toBe("widgets/card.html");
+  });
+
+  it("should prefer the fixture viewport and apply include/exclude", () => {
+    const result = normalizeFixtures(
+      [
+        {
+          id: "emails-welcome",
+          path: "emails/welcome.html",
+          config: { viewport: { width: 600, height: 900 } },
+        },
+        { id: "widgets-card", path: "widgets/card.html", config: {} },
+      ],
+      {
+        baseUrl: "http://localhost:4478",
+        viewportKeys: ["desktop"],
+        globalViewport: { desktop: { width: 1280, height: 720 } },
+        exclude: "widgets-*",
+      }
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].viewport).toEqual({ width: 600, height: 900 });
+  });
+});
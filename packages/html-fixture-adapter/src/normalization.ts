@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Fixture normalization for HTML fixture adapter
+ *
+ * Filters fixtures and expands them into test case instances per viewport.
+ */
+
+import type {
+  FilterOptions,
+  TestCaseInstanceMeta,
+  ViewportMap,
+} from "@visnap/protocol";
+import { minimatch } from "minimatch";
+
+import type { Fixture } from "./fixtures";
+
+/**
+ * Normalizes a single pattern or list of patterns, dropping empty entries.
+ */
+function toPatternList(value: string | string[] | undefined): string[] {
+  return (Array.isArray(value) ? value : value ? [value] : []).filter(
+    pattern => pattern !== ""
+  );
+}
+
+/**
+ * Creates a predicate function that filters fixtures by include and exclude
+ * patterns matched against their IDs.
+ */
+export function createFixtureFilter(options: FilterOptions) {
+  const includePatterns = toPatternList(options.include);
+  const excludePatterns = toPatternList(options.exclude);
+
+  return (fixture: Fixture) => {
+    if (
+      includePatterns.length > 0 &&
+      !includePatterns.some(pattern => minimatch(fixture.id, pattern))
+    ) {
+      return false;
+    }
+    return !excludePatterns.some(pattern => minimatch(fixture.id, pattern));
+  };
+}
+
+/**
+ * Encodes a fixture path for use in a URL, keeping `/` separators.
+ */
+function toUrlPath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Expands fixtures into TestCaseInstanceMeta[], one instance per viewport.
+ * Skipped fixtures and fixtures not matching include/exclude are left out.
+ */
+export function normalizeFixtures(
+  fixtures: Fixture[],
+  options: FilterOptions & {
+    baseUrl: string;
+    viewportKeys: string[];
+    globalViewport?: ViewportMap;
+  }
+): TestCaseInstanceMeta[] {
+  const baseUrl = options.baseUrl.replace(/\/$/, "");
+  const filter = createFixtureFilter(options);
+  const instances: TestCaseInstanceMeta[] = [];
+
+  for (const fixture of fixtures) {
+    if (fixture.config.skip || !filter(fixture)) continue;
+
+    const { title, ...visualTesting } = fixture.config;
+    for (const viewportKey of options.viewportKeys) {
+      instances.push({
+        id: fixture.id,
+        title: title ?? fixture.path,
+        kind: "html-fixture",
+        caseId: fixture.id,
+        variantId: viewportKey,
+        url: `${baseUrl}/${toUrlPath(fixture.path)}`,
+        screenshotTarget: visualTesting.screenshotTarget ?? "body",
+        viewport:
+          visualTesting.viewport || options.globalViewport?.[viewportKey],
+        threshold: visualTesting.threshold,
+        maxDiffPercentage: visualTesting.maxDiffPercentage,
+        maxDiffPixels: visualTesting.maxDiffPixels,
+        disableCSSInjection: visualTesting.disableCSSInjection,
+        interactions: visualTesting.interactions,
+        elementsToMask: visualTesting.elementsToMask,
+        ignoreRegions: visualTesting.ignoreRegions,
+        fullPage: visualTesting.fullPage,
+        clip: visualTesting.clip,
+        captureTimeoutMs: visualTesting.captureTimeoutMs,
+        routes: visualTesting.routes,
+        har: visualTesting.har,
+        determinism: visualTesting.determinism,
+        waitFor: visualTesting.waitFor,
+        readiness: visualTesting.readiness,
+        visualTesting,
+      });
+    }
+  }
+
+  return instances;
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Validation utilities for HTML fixture adapter
+ *
+ * Provides ArkType-based validation schemas and functions for adapter options
+ * and per-fixture `visualTesting` configuration.
+ */
+
+import type { TestCaseVisualConfig } from "@visnap/protocol";
+import { type } from "arktype";
+
+// ============= Schema Definitions =============
+
+const viewportSchema = type({
+  width: "number>0",
+  height: "number>0",
+  "deviceScaleFactor?": "number>0",
+});
+
+const ignoreRegionSchema = type({
+  x: "number>=0",
+  y: "number>=0",
+  width: "number>0",
+  height: "number>0",
+}).or({ selector: "string>0" });
+
+const clipSchema = type({
+  x: "number>=0",
+  y: "number>=0",
+  width: "number>0",
+  height: "number>0",
+});
+
+const browserNameSchema = type("'chromium'|'firefox'|'webkit'");
+
+const routeRuleSchema = type({
+  url: "string>0",
+  "file?": "string>0",
+  "json?": "unknown",
+  "status?": "number.integer>=100&number<=599",
+  "headers?": "Record<string, string>",
+  "contentType?": "string>0",
+});
+
+const harReplaySchema = type({
+  path: "string>0",
+  "url?": "string>0",
+  "notFound?": "'abort'|'fallback'",
+});
+
+const determinismSchema = type({
+  "now?": "number|string>0",
+  "seed?": "number.integer",
+  "timezoneId?": "string>0",
+});
+
+const readinessSchema = type({
+  "networkIdle?": "boolean",
+  "fonts?": "boolean",
+  "images?": "boolean",
+  "predicate?": "string>0",
+  "domStableMs?": "number>0",
+  "timeoutMs?": "number>0",
+});
+
+const fixtureConfigSchema = type({
+  "title?": "string>0",
+  "skip?": "boolean",
+  "screenshotTarget?": "string>0",
+  "threshold?": "number",
+  "maxDiffPercentage?": "number>=0&number<=100",
+  "maxDiffPixels?": "number.integer>=0",
+  "browser?": browserNameSchema.or(browserNameSchema.array()),
+  "viewport?": viewportSchema,
+  "disableCSSInjection?": "boolean",
+  "interactions?": "object[]",
+  "elementsToMask?": "string[]",
+  "ignoreRegions?": ignoreRegionSchema.array(),
+  "fullPage?": "boolean",
+  "clip?": clipSchema,
+  "captureTimeoutMs?": "number>0",
+  "routes?": routeRuleSchema.array(),
+  "har?": harReplaySchema.or("string>0"),
+  "determinism?": determinismSchema.or("false"),
+  "waitFor?": "string>0|number>=0",
+  "readiness?": readinessSchema,
+});
+
+const createHtmlFixtureAdapterOptionsSchema = type({
+  directory: "string>0",
+  port: "number>0?",
+  pattern: "string|string[]?",
+  include: "string|string[]?",
+  exclude: "string|string[]?",
+});
+
+// ============= Type Definitions =============
+
+/**
+ * Per-fixture configuration from a `<meta name="visnap">` tag or sidecar JSON file
+ * @property title - Human-readable title (default: the fixture path)
+ */
+export interface FixtureConfig extends TestCaseVisualConfig {
+  title?: string;
+}
+
+/**
+ * Options to create an HTML fixture adapter
+ * @property directory - Directory containing the HTML fixtures; it is served as the site root
+ * @property port - Port of the local fixture server (default: 4478)
+ * @property pattern - Minimatch pattern(s) selecting fixture files, relative to `directory` (default: `"**\/*.html"`)
+ * @property include - Optional minimatch pattern(s) matched against fixture IDs
+ * @property exclude - Optional minimatch pattern(s) to exclude from fixture IDs
+ */
+export interface CreateHtmlFixtureAdapterOptions {
+  directory: string;
+  port?: number;
+  pattern?: string | string[];
+  include?: string | string[];
+  exclude?: string | string[];
+}
+
+// ============= Validation Functions =============
+
+/**
+ * Validates create HTML fixture adapter options
+ * @throws {Error} If options are invalid
+ */
+export function validateOptions(
+  options: unknown
+): CreateHtmlFixtureAdapterOptions {
+  const result = createHtmlFixtureAdapterOptionsSchema(options);
+  if (result instanceof type.errors) {
+    throw new Error(`Invalid HTML fixture adapter options: ${result.summary}`);
+  }
+  return result;
+}
+
+/**
+ * Validates the configuration of a single fixture
+ * @param config - Raw configuration
+ * @param source - Where the configuration was read from, used in error messages
+ * @throws {Error} If the configuration is invalid
+ */
+export function validateFixtureConfig(
+  config: unknown,
+  source: string
+): FixtureConfig {
+  const result = fixtureConfigSchema(config);
+  if (result instanceof type.errors) {
+    throw new Error(`Invalid fixture config in ${source}: ${result.summary}`);
+  }
+  return result as FixtureConfig;
+}
@@ -0,0 +1,17 @@
+import { beforeEach, afterEach, vi } from "vitest";
+
+/**
+ * Test setup file for html-fixture-adapter
+ */
+
+// Mock console methods to avoid noise in tests
+const originalConsoleWarn = console.warn;
+
+beforeEach(() => {
+  console.warn = vi.fn();
+});
+
+afterEach(() => {
+  console.warn = originalConsoleWarn;
+  vi.clearAllMocks();
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { buildLadleStoryUrl, discoverLadleStories } from "./discovery";
+
+describe("discoverLadleStories", () => {
+  const meta = {
+    about: { homepage: "https://www.ladle.dev", version: 1 },
+    stories: {
+      "components-button--primary": {
+        name: "Primary",
+        levels: ["Components", "Button"],
+        filePath: "src/button.stories.tsx",
+        meta: { visualTesting: { threshold: 0.2 } },
+      },
+      "welcome--intro": {
+        name: "Intro",
+        levels: ["Welcome"],
+        meta: {},
+      },
+      broken: null,
+    },
+  };
+
+  /**
+   * Stubs fetch with JSON responses keyed by URL.
+   */
+  const stubFetch = (responses: Record<string, unknown>) => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url in responses
+        ? { ok: true, status: 200, json: async () => responses[url] }
+        : { ok: false, status: 404, json: async () => ({}) }
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should read stories from meta.json", async () => {
+    const fetchMock = stubFetch({ "http://localhost:61000/meta.json": meta });
+
+    const stories = await discoverLadleStories("http://localhost:61000/");
+
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:61000/meta.json");
+    expect(stories).toEqual({
+      "components-button--primary": {
+        id: "components-button--primary",
+        title: "Components / Button / Primary",
+        name: "Primary",
+        parameters: { visualTesting: { threshold: 0.2 } },
+      },
+      "welcome--intro": {
+        id: "welcome--intro",
+        title: "Welcome / Intro",
+        name: "Intro",
+      },
+    });
+  });
+
+  it("should throw when meta.json cannot be fetched", async () => {
+    stubFetch({});
+
+    await expect(
+      discoverLadleStories("http://localhost:61000")
+    ).rejects.toThrow(
+      "Failed to fetch http://localhost:61000/meta.json: HTTP 404"
+    );
+  });
+
+  it("should throw when meta.json has no stories", async () => {
+    stubFetch({ "http://localhost:61000/meta.json": { about: {} } });
+
+    await expect(
+      discoverLadleStories("http://localhost:61000")
+    ).rejects.toThrow("Ladle meta.json has no stories");
+  });
+
+  it("should time out slow requests", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => new Promise(() => {}))
+    );
+
+    await expect(
+      discoverLadleStories("http://localhost:61000", 10)
+    ).rejects.toThrow("Fetching http://localhost:61000/meta.json timed out");
+  });
+});
+
+describe("buildLadleStoryUrl", () => {
+  it("should build preview URLs", () => {
+    expect(buildLadleStoryUrl("http://localhost:61000", "a--b")).toBe(
+      "http://localhost:61000/?story=a--b&mode=preview"
+    );
+  });
+
+  it("should add globals and args as URL parameters", () => {
+    expect(
+      buildLadleStoryUrl("http://localhost:61000", "a--b", {
+        name: "dark-rtl",
+        globals: { theme: "dark", rtl: true },
+        args: { label: "Hello world", count: 2 },
+      })
+    ).toBe(
+      "http://localhost:61000/?story=a--b&mode=preview&theme=dark&rtl=true&arg-label=Hello%20world&arg-count=2"
+    );
+  });
+
+  it("should throw for values Ladle cannot read from the URL", () => {
+    expect(() =>
+      buildLadleStoryUrl("http://localhost:61000", "a--b", {
+        name: "x",
+        args: { items: ["a"] },
+      })
+    ).toThrow('Cannot encode "args.items" as a Ladle URL parameter');
+  });
+});
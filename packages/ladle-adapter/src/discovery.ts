@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Story discovery for Ladle adapter
+ *
+ * Reads stories from Ladle's `meta.json` and builds `?story=` preview URLs.
+ */
+
+import {
+  fetchJson,
+  type StoryParamValue,
+  type StoryVariant,
+} from "@visnap/adapter-utils";
+
+/** Default timeout for fetching `meta.json` */
+export const DEFAULT_META_TIMEOUT_MS = 15000;
+
+/**
+ * A story entry of Ladle's `meta.json`
+ * @property name - Story name
+ * @property levels - Title hierarchy, e.g. `["Components", "Button"]`
+ * @property meta - Story meta, where `visualTesting` is read from
+ */
+interface LadleStoryEntry {
+  name?: unknown;
+  levels?: unknown;
+  meta?: { visualTesting?: unknown } | null;
+}
+
+/**
+ * Discovers Ladle stories by reading `meta.json` from the base URL.
+ * Stories are returned in the shape `normalizeStories` expects, with
+ * `meta.visualTesting` as the `visualTesting` parameters and the story
+ * levels and name joined into the title.
+ * @param baseUrl - Base URL of the Ladle build or server
+ * @param timeoutMs - Timeout for fetching `meta.json`
+ * @returns Stories keyed by story ID
+ * @throws {Error} If `meta.json` cannot be fetched or has no stories
+ */
+export async function discoverLadleStories(
+  baseUrl: string,
+  timeoutMs = DEFAULT_META_TIMEOUT_MS
+): Promise<Record<string, unknown>> {
+  const meta = (await fetchJson(
+    `${baseUrl.replace(/\/$/, "")}/meta.json`,
+    timeoutMs
+  )) as { stories?: unknown } | null;
+
+  if (!meta?.stories || typeof meta.stories !== "object") {
+    throw new Error("Ladle meta.json has no stories");
+  }
+
+  const stories: Record<string, unknown> = {};
+  for (const [id, raw] of Object.entries(meta.stories)) {
+    if (!raw || typeof raw !== "object") continue;
+    const entry = raw as LadleStoryEntry;
+
+    const levels = Array.isArray(entry.levels)
+      ? entry.levels.filter(level => typeof level === "string")
+      : [];
+    const name = typeof entry.name === "string" ? entry.name : undefined;
+    const visualTesting = entry.meta?.visualTesting;
+
+    stories[id] = {
+      id,
+      title: [...levels, ...(name ? [name] : [])].join(" / ") || id,
+      name,
+      ...(visualTesting !== undefined && { parameters: { visualTesting } }),
+    };
+  }
+  return stories;
+}
+
+/**
+ * Encodes a Ladle URL parameter value. Ladle reads args and globals as
+ * plain strings, so only strings, numbers and booleans can be encoded.
+ */
+function encodeParamValue(path: string, value: StoryParamValue): string {
+  if (
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && Number.isFinite(value))
+  ) {
+    return encodeURIComponent(String(value));
+  }
+  throw new Error(`Cannot encode "${path}" as a Ladle URL parameter`);
+}
+
+/**
+ * Builds the preview URL of a Ladle story variant. Variant `globals` become
+ * Ladle URL parameters (`theme`, `rtl`, ...) and `args` become `arg-<name>`
+ * parameters.
+ */
+export function buildLadleStoryUrl(
+  baseUrl: string,
+  storyId: string,
+  variant?: StoryVariant
+): string {
+  let url = `${baseUrl}/?story=${encodeURIComponent(storyId)}&mode=preview`;
+  for (const [key, value] of Object.entries(variant?.globals ?? {})) {
+    url += `&${encodeURIComponent(key)}=${encodeParamValue(`globals.${key}`, value)}`;
+  }
+  for (const [key, value] of Object.entries(variant?.args ?? {})) {
+    url += `&arg-${encodeURIComponent(key)}=${encodeParamValue(`args.${key}`, value)}`;
+  }
+  return url;
+}
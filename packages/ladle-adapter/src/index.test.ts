@@ -0,0 +1,153 @@
+import type * as AdapterUtils from "@visnap/adapter-utils";
+import { createServerManager } from "@visnap/adapter-utils";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@visnap/adapter-utils", async importOriginal => ({
+  ...(await importOriginal<typeof AdapterUtils>()),
+  createServerManager: vi.fn(),
+}));
+
+vi.mock("./discovery.js", async importOriginal => ({
+  ...(await importOriginal<typeof Discovery>()),
+  discoverLadleStories: vi.fn(),
+}));
+
+import type * as Discovery from "./discovery";
+import { discoverLadleStories } from "./discovery";
+
+import { createAdapter } from "./index";
+
+const mockCreateServerManager = vi.mocked(createServerManager);
+const mockDiscoverLadleStories = vi.mocked(discoverLadleStories);
+
+describe("createAdapter", () => {
+  let baseUrl: string | undefined;
+  const mockServerManager = {
+    ensureStarted: vi.fn(async () => {
+      baseUrl = "http://localhost:4479";
+    }),
+    getBaseUrl: vi.fn(() => baseUrl),
+    stop: vi.fn(async () => {
+      baseUrl = undefined;
+    }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    baseUrl = undefined;
+    mockCreateServerManager.mockReturnValue(mockServerManager);
+    mockDiscoverLadleStories.mockResolvedValue({
+      "button--primary": {
+        id: "button--primary",
+        title: "Button / Primary",
+        parameters: {
+          visualTesting: {
+            threshold: 0.1,
+            variants: { long: { args: { label: "A much longer label" } } },
+          },
+        },
+      },
+      "button--hidden": {
+        id: "button--hidden",
+        title: "Button / Hidden",
+        parameters: { visualTesting: { skip: true } },
+      },
+      "card--default": { id: "card--default", title: "Card / Default" },
+    });
+  });
+
+  it("should validate options", () => {
+    expect(() => createAdapter(null as any)).toThrow(
+      "Invalid ladle adapter options: must be an object (was null)"
+    );
+    expect(() => createAdapter({ source: "   " })).toThrow(
+      "Invalid ladle adapter options: source must be non-empty"
+    );
+  });
+
+  it("should create the server manager for the source and port", () => {
+    const adapter = createAdapter({ source: "./build", port: 5000 });
+
+    expect(adapter.name).toBe("ladle");
+    expect(mockCreateServerManager).toHaveBeenCalledWith("./build", 5000, {
+      label: "Ladle build directory",
+      defaultPort: 4479,
+    });
+  });
+
+  it("should start the server without requiring a page", async () => {
+    const adapter = createAdapter({ source: "./build" });
+
+    await expect(adapter.start!()).resolves.toEqual({
+      baseUrl: "http://localhost:4479",
+      requiresPage: false,
+    });
+  });
+
+  it("should throw when listing cases before start", async () => {
+    const adapter = createAdapter({ source: "./build" });
+
+    await expect(adapter.listCases()).rejects.toThrow(
+      "Adapter not started. Call start() before listCases()."
+    );
+  });
+
+  it("should list stories with visualTesting and variants", async () => {
+    const adapter = createAdapter({
+      source: "./build",
+      metaTimeoutMs: 5000,
+    });
+    await adapter.start!();
+
+    const cases = await adapter.listCases(undefined, {
+      viewport: { desktop: { width: 1280, height: 720 } },
+    });
+
+    expect(mockDiscoverLadleStories).toHaveBeenCalledWith(
+      "http://localhost:4479",
+      5000
+    );
+    expect(cases.map(c => `${c.caseId}/${c.variantId}`)).toEqual([
+      "button--primary/long-desktop",
+      "card--default/desktop",
+    ]);
+    expect(cases[0]).toMatchObject({
+      title: "Button / Primary",
+      kind: "ladle-story",
+      url: "http://localhost:4479/?story=button--primary&mode=preview&arg-label=A%20much%20longer%20label",
+      screenshotTarget: ".ladle-main",
+      threshold: 0.1,
+      viewport: { width: 1280, height: 720 },
+    });
+  });
+
+  it("should expand the globals matrix and apply filters", async () => {
+    const adapter = createAdapter({
+      source: "http://localhost:61000",
+      exclude: "button--*",
+      globals: { theme: ["light", "dark"] },
+    });
+    await adapter.start!();
+
+    const cases = await adapter.listCases();
+
+    expect(cases.map(c => [c.variantId, c.url])).toEqual([
+      [
+        "theme-light-default",
+        "http://localhost:4479/?story=card--default&mode=preview&theme=light",
+      ],
+      [
+        "theme-dark-default",
+        "http://localhost:4479/?story=card--default&mode=preview&theme=dark",
+      ],
+    ]);
+  });
+
+  it("should stop the server", async () => {
+    const adapter = createAdapter({ source: "./build" });
+    await adapter.start!();
+    await adapter.stop!();
+
+    expect(mockServerManager.stop).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Ladle adapter for Visnap visual testing framework
+ *
+ * Ladle-based TestCaseAdapter that can discover and test Ladle stories.
+ * Manages a local server for a Ladle build, reads stories from `meta.json`,
+ * and normalizes them into test case instances.
+ */
+
+import {
+  createServerManager,
+  normalizeStories,
+  type StoryParamValue,
+} from "@visnap/adapter-utils";
+import type {
+  TestCaseAdapter,
+  TestCaseInstanceMeta,
+  ViewportMap,
+  PageWithEvaluate,
+} from "@visnap/protocol";
+
+import { buildLadleStoryUrl, discoverLadleStories } from "./discovery";
+import type { CreateLadleAdapterOptions } from "./validation";
+import { validateOptions } from "./validation";
+
+/** Element Ladle renders stories into in preview mode */
+const LADLE_SCREENSHOT_TARGET = ".ladle-main";
+
+/**
+ * Creates a Ladle-based TestCaseAdapter that can:
+ * - Start a local static file server for a Ladle `build` directory or use a provided URL
+ * - Discover stories from `meta.json` without a browser
+ * - Filter, normalize, and expand stories into `?story=` test case instances,
+ *   with the same `visualTesting` semantics as the Storybook adapter
+ *
+ * @param options - Configuration options for the Ladle adapter
+ * @returns A TestCaseAdapter instance configured for Ladle testing
+ */
+export function createAdapter(
+  options: CreateLadleAdapterOptions
+): TestCaseAdapter {
+  // Validate options using ArkType schema
+  const validatedOptions = validateOptions(options);
+
+  const serverManager = createServerManager(
+    validatedOptions.source,
+    validatedOptions.port,
+    { label: "Ladle build directory", defaultPort: 4479 }
+  );
+
+  return {
+    name: "ladle",
+
+    /**
+     * Starts the adapter and returns base URL of the Ladle under test.
+     * Stories are read from `meta.json`, so no discovery page is needed.
+     * @returns Promise resolving to adapter start result with base URL
+     */
+    async start() {
+      await serverManager.ensureStarted();
+      return {
+        baseUrl: serverManager.getBaseUrl(),
+        requiresPage: false,
+      };
+    },
+
+    /**
+     * Lists normalized and filtered stories from Ladle's `meta.json`
+     *
+     * @param _pageCtx - Page context (not used for Ladle adapter)
+     * @param o - Options including viewport configuration
+     * @returns Promise resolving to array of test case instances
+     * @throws {Error} If the adapter is not started or `meta.json` cannot be read
+     */
+    async listCases(
+      _pageCtx?: PageWithEvaluate,
+      o?: { viewport?: ViewportMap }
+    ): Promise<TestCaseInstanceMeta[]> {
+      const baseUrl = serverManager.getBaseUrl();
+      if (!baseUrl) {
+        throw new Error(
+          "Adapter not started. Call start() before listCases()."
+        );
+      }
+
+      const stories = await discoverLadleStories(
+        baseUrl,
+        validatedOptions.metaTimeoutMs
+      );
+
+      let keys = o?.viewport ? Object.keys(o.viewport) : ["default"];
+      if (keys.length === 0) keys = ["default"];
+      // Sort viewport keys deterministically
+      keys.sort((a, b) => a.localeCompare(b));
+
+      return normalizeStories(stories, {
+        include: validatedOptions.include,
+        exclude: validatedOptions.exclude,
+        baseUrl,
+        viewportKeys: keys,
+        globalViewport: o?.viewport,
+        globals: validatedOptions.globals as
+          | Record<string, StoryParamValue[]>
+          | undefined,
+        kind: "ladle-story",
+        screenshotTarget: LADLE_SCREENSHOT_TARGET,
+        buildUrl: buildLadleStoryUrl,
+      });
+    },
+
+    /**
+     * Stops the adapter server (if any) and clears base URL
+     * Safe to call multiple times
+     * @returns Promise resolving when server is stopped
+     */
+    async stop() {
+      await serverManager.stop();
+    },
+  };
+}
+
+// Re-export types for convenience
+export type { CreateLadleAdapterOptions } from "./validation";
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Validation utilities for Ladle adapter
+ *
+ * Provides ArkType-based validation schemas and functions for Ladle adapter options.
+ */
+
+import { type } from "arktype";
+
+// ============= Schema Definitions =============
+
+const createLadleAdapterOptionsSchema = type({
+  source: "string>0",
+  port: "number>0?",
+  include: "string|string[]?",
+  exclude: "string|string[]?",
+  "globals?": "Record<string, unknown[]>",
+  "metaTimeoutMs?": "number>0",
+});
+
+// ============= Type Exports (inferred from schemas) =============
+
+export type CreateLadleAdapterOptions =
+  typeof createLadleAdapterOptionsSchema.infer;
+
+// ============= Validation Functions =============
+
+/**
+ * Validates create Ladle adapter options
+ */
+export function validateOptions(options: unknown): CreateLadleAdapterOptions {
+  const result = createLadleAdapterOptionsSchema(options);
+  if (result instanceof type.errors) {
+    throw new Error(`Invalid ladle adapter options: ${result.summary}`);
+  }
+
+  if (result.source.trim() === "") {
+    throw new Error("Invalid ladle adapter options: source must be non-empty");
+  }
+
+  return result;
+}
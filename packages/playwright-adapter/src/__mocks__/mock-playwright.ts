@@ -127,6 +127,7 @@ export function createMockPage(): Page {
     press: vi.fn(),
     reload: vi.fn(),
     route: vi.fn(),
+    routeFromHAR: vi.fn(),
     screenshot: vi.fn(),
     selectOption: vi.fn(),
     setChecked: vi.fn(),
@@ -12,6 +12,7 @@ import {
   setupPage,
   handleWaitFor,
   injectGlobalCSS,
+  scrollToLoadLazyContent,
 } from "./browser-context";
 
 import type { PlaywrightAdapterOptions } from "./index";
@@ -69,6 +70,18 @@ describe("browser-context", () => {
         reducedMotion: "no-preference",
       });
     });
+
+    it("should pin the determinism timezone on the context", async () => {
+      await createBrowserContext(mockBrowser, {
+        determinism: { timezoneId: "Europe/Berlin" },
+      });
+
+      expect(mockBrowser.newContext).toHaveBeenCalledWith({
+        colorScheme: "light",
+        reducedMotion: "reduce",
+        timezoneId: "Europe/Berlin",
+      });
+    });
   });
 
   describe("waitForNetworkIdle", () => {
@@ -226,6 +239,43 @@ describe("browser-context", () => {
     });
   });
 
+  describe("scrollToLoadLazyContent", () => {
+    it("should scroll until the bottom is reached and return to the top", async () => {
+      (mockPage.evaluate as any)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+
+      await scrollToLoadLazyContent(mockPage, 50);
+
+      // Three scroll checks plus the scroll back to the top
+      expect(mockPage.evaluate).toHaveBeenCalledTimes(4);
+      expect(mockPage.waitForTimeout).toHaveBeenCalledTimes(3);
+      expect(mockPage.waitForTimeout).toHaveBeenCalledWith(50);
+    });
+
+    it("should stop after the maximum number of scroll steps", async () => {
+      (mockPage.evaluate as any).mockResolvedValue(false);
+
+      await scrollToLoadLazyContent(mockPage);
+
+      expect(mockPage.evaluate).toHaveBeenCalledTimes(51);
+      expect(mockPage.waitForTimeout).toHaveBeenCalledWith(100);
+    });
+
+    it("should handle scroll errors gracefully", async () => {
+      const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      (mockPage.evaluate as any).mockRejectedValue(new Error("Page closed"));
+
+      await expect(scrollToLoadLazyContent(mockPage)).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Failed to scroll page for lazy content: Error: Page closed"
+      );
+
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe("injectGlobalCSS", () => {
     it("should inject CSS when valid CSS string is provided", async () => {
       const cssString = "* { animation: none !important; }";
@@ -9,6 +9,8 @@ import type { Browser, Page, BrowserContext } from "playwright-core";
 
 import {
   DEFAULT_PAGE_TIMEOUT,
+  LAZY_LOAD_MAX_SCROLL_STEPS,
+  LAZY_LOAD_SCROLL_DELAY,
   NETWORK_IDLE_FALLBACK_DELAY,
   NETWORK_IDLE_TIMEOUT_DIVISOR,
 } from "./constants";
@@ -28,6 +30,9 @@ export async function createBrowserContext(
     colorScheme: options.context?.colorScheme ?? "light",
     reducedMotion: options.context?.reducedMotion ?? "reduce",
     ...(typeof deviceScaleFactor === "number" ? { deviceScaleFactor } : {}),
+    ...(options.determinism?.timezoneId
+      ? { timezoneId: options.determinism.timezoneId }
+      : {}),
     ...(options.context?.storageStatePath
       ? { storageState: options.context.storageStatePath }
       : {}),
@@ -143,6 +148,37 @@ export async function handleWaitFor(
   }
 }
 
+/**
+ * Scrolls through the page one viewport at a time so lazily loaded content
+ * is rendered before a full-page capture, then scrolls back to the top.
+ * Stops once the bottom is reached or after a bounded number of steps.
+ */
+export async function scrollToLoadLazyContent(
+  page: Page,
+  stepDelayMs?: number
+): Promise<void> {
+  const delay =
+    stepDelayMs !== undefined ? stepDelayMs : LAZY_LOAD_SCROLL_DELAY;
+
+  try {
+    for (let step = 0; step < LAZY_LOAD_MAX_SCROLL_STEPS; step++) {
+      const reachedBottom = await page.evaluate(() => {
+        const scrollHeight = document.documentElement.scrollHeight;
+        if (window.scrollY + window.innerHeight >= scrollHeight) return true;
+        window.scrollBy(0, window.innerHeight);
+        return false;
+      });
+      if (reachedBottom) break;
+      await page.waitForTimeout(delay);
+    }
+    await page.evaluate(() => window.scrollTo(0, 0));
+    await page.waitForTimeout(delay);
+  } catch (error) {
+    // Log error but don't fail the capture
+    console.warn(`Failed to scroll page for lazy content: ${error}`);
+  }
+}
+
 /**
  * Injects global CSS into the page for stable screenshots.
  * Useful for disabling animations, transitions, and hiding elements.
@@ -9,6 +9,11 @@
  * - navigation.timeoutMs - main page timeout (replaces DEFAULT_PAGE_TIMEOUT)
  * - navigation.networkIdleFallbackDelayMs - overrides NETWORK_IDLE_FALLBACK_DELAY
  * - navigation.networkIdleTimeoutDivisor - overrides NETWORK_IDLE_TIMEOUT_DIVISOR
+ * - screenshot.lazyLoadScrollDelayMs - overrides LAZY_LOAD_SCROLL_DELAY
+ * - screenshot.stabilize.maxAttempts - overrides STABILIZE_MAX_ATTEMPTS
+ * - screenshot.stabilize.intervalMs - overrides STABILIZE_INTERVAL
+ * - determinism.now - overrides DETERMINISM_FIXED_TIME
+ * - determinism.seed - overrides DETERMINISM_RANDOM_SEED
  */
 
 // Timeout constants (in milliseconds) - fallback defaults
@@ -18,3 +23,15 @@ export const INTERACTION_SETTLE_TIME = 100;
 export const DEFAULT_PAGE_TIMEOUT = 30000;
 export const NETWORK_IDLE_FALLBACK_DELAY = 1000;
 export const NETWORK_IDLE_TIMEOUT_DIVISOR = 10;
+export const LAZY_LOAD_SCROLL_DELAY = 100;
+
+// Upper bound on viewport-height scroll steps before a full-page capture
+export const LAZY_LOAD_MAX_SCROLL_STEPS = 50;
+
+// Stabilize mode: screenshots taken at most, and delay between them (in milliseconds)
+export const STABILIZE_MAX_ATTEMPTS = 5;
+export const STABILIZE_INTERVAL = 100;
+
+// Determinism defaults: time returned by Date.now() and the Math.random() seed
+export const DETERMINISM_FIXED_TIME = "2024-01-01T00:00:00.000Z";
+export const DETERMINISM_RANDOM_SEED = 1;
@@ -0,0 +1,136 @@
+import { runInNewContext } from "node:vm";
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { createMockPage } from "./__mocks__/mock-playwright";
+import {
+  applyDeterminism,
+  resolveDeterminism,
+  resolveFixedTime,
+} from "./determinism";
+
+describe("determinism", () => {
+  describe("resolveDeterminism", () => {
+    it("should merge per-case settings over adapter-level ones", () => {
+      expect(
+        resolveDeterminism(
+          { now: 0, seed: 7, timezoneId: "UTC" },
+          { timezoneId: "Asia/Tokyo" }
+        )
+      ).toEqual({ now: 0, seed: 7, timezoneId: "Asia/Tokyo" });
+      expect(resolveDeterminism(undefined, { seed: 3 })).toEqual({ seed: 3 });
+    });
+
+    it("should return undefined when unset or opted out", () => {
+      expect(resolveDeterminism(undefined, undefined)).toBeUndefined();
+      expect(resolveDeterminism({ seed: 7 }, false)).toBeUndefined();
+    });
+  });
+
+  describe("resolveFixedTime", () => {
+    it("should accept epoch milliseconds and date strings", () => {
+      expect(resolveFixedTime(1000)).toBe(1000);
+      expect(resolveFixedTime("2025-06-01T12:00:00Z")).toBe(
+        Date.UTC(2025, 5, 1, 12)
+      );
+      expect(resolveFixedTime(undefined)).toBe(Date.UTC(2024, 0, 1));
+    });
+
+    it("should throw for unparseable dates", () => {
+      expect(() => resolveFixedTime("last tuesday")).toThrow(
+        'Invalid determinism time: "last tuesday" is not a date'
+      );
+    });
+  });
+
+  describe("applyDeterminism", () => {
+    let page: ReturnType<typeof createMockPage>;
+
+    beforeEach(() => {
+      page = createMockPage();
+    });
+
+    /**
+     * Runs the registered init script in a fresh global scope, the way the
+     * page would, and evaluates an expression afterwards.
+     */
+    const runInitScript = (
+      expression: string,
+      globals: object = { performance: { now: () => 1234.5 } }
+    ) => {
+      const [script, arg] = vi.mocked(page.addInitScript).mock.calls[0];
+      return runInNewContext(
+        `(${String(script)})(${JSON.stringify(arg)}); ${expression}`,
+        globals
+      );
+    };
+
+    it("should do nothing without determinism settings", async () => {
+      await applyDeterminism(page, undefined);
+
+      expect(page.addInitScript).not.toHaveBeenCalled();
+    });
+
+    it("should register an init script with the resolved time and seed", async () => {
+      await applyDeterminism(page, { now: "2025-06-01T12:00:00Z" });
+
+      expect(page.addInitScript).toHaveBeenCalledWith(expect.any(Function), {
+        now: Date.UTC(2025, 5, 1, 12),
+        seed: 1,
+      });
+    });
+
+    it("should start Date and performance.now at the pinned time", async () => {
+      await applyDeterminism(page, { now: 86_400_000 });
+
+      expect(
+        runInitScript(`[
+          Date.now(),
+          new Date().getTime(),
+          new Date(0).getTime(),
+          new Date(2020, 0, 1) instanceof Date,
+          typeof Date(),
+          performance.now(),
+        ]`)
+      ).toEqual([86_400_000, 86_400_000, 0, true, "string", 0]);
+    });
+
+    it("should let time advance so debounced callbacks run", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "performance"] });
+      try {
+        await applyDeterminism(page, { now: 86_400_000 });
+        // Trailing debounce that re-checks the elapsed time when its timer
+        // fires, like lodash's; it would never run with frozen time
+        const calls = runInitScript(
+          `const calls = [];
+          let lastCall;
+          const check = () => {
+            const waited = Date.now() - lastCall;
+            if (waited >= 100) calls.push(Date.now());
+            else setTimeout(check, 100 - waited);
+          };
+          lastCall = Date.now();
+          setTimeout(check, 100);
+          calls;`,
+          { performance, setTimeout }
+        );
+
+        vi.advanceTimersByTime(100);
+
+        expect(calls).toEqual([86_400_100]);
+        expect(runInitScript("performance.now()", { performance })).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should make Math.random repeatable for a seed", async () => {
+      await applyDeterminism(page, { seed: 42 });
+      const sequence = runInitScript("[Math.random(), Math.random()]");
+
+      expect(runInitScript("[Math.random(), Math.random()]")).toEqual(sequence);
+      expect(sequence[0]).not.toBe(sequence[1]);
+      expect(sequence.every((n: number) => n >= 0 && n < 1)).toBe(true);
+    });
+  });
+});
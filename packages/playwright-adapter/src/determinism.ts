@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Determinism for Playwright adapter
+ *
+ * Pins the starting time of `Date` and `performance.now()` and seeds
+ * `Math.random()` with an init script so pages rendering relative times,
+ * carousels or random content capture the same on every run. Time still
+ * advances, so timers and debounced callbacks keep working. The timezone is
+ * pinned on the browser context.
+ */
+
+import type { DeterminismConfig } from "@visnap/protocol";
+import type { Page } from "playwright-core";
+
+import { DETERMINISM_FIXED_TIME, DETERMINISM_RANDOM_SEED } from "./constants";
+
+/**
+ * Merges per-case determinism settings over adapter-level ones.
+ * Returns undefined when neither is set or the case opts out with `false`.
+ */
+export function resolveDeterminism(
+  adapterLevel: DeterminismConfig | undefined,
+  perCase: DeterminismConfig | false | undefined
+): DeterminismConfig | undefined {
+  if (perCase === false) return undefined;
+  if (!adapterLevel && !perCase) return undefined;
+  return { ...adapterLevel, ...perCase };
+}
+
+/**
+ * Converts the configured time to epoch milliseconds.
+ * @throws {Error} If `now` is a string that cannot be parsed as a date
+ */
+export function resolveFixedTime(now: number | string | undefined): number {
+  const value = now ?? DETERMINISM_FIXED_TIME;
+  const time = typeof value === "number" ? value : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid determinism time: "${value}" is not a date`);
+  }
+  return time;
+}
+
+/**
+ * Runs in the page before any of its scripts. Must be self-contained, since
+ * Playwright serializes it into the page.
+ */
+function installDeterminism({ now, seed }: { now: number; seed: number }) {
+  const NativeDate = Date;
+  const nativePerformanceNow = performance.now.bind(performance);
+  const start = nativePerformanceNow();
+  // Time elapsed since the document started, added to the pinned time
+  const elapsed = () => nativePerformanceNow() - start;
+  const currentTime = () => now + Math.floor(elapsed());
+
+  function FixedDate(this: unknown, ...args: unknown[]) {
+    // Date() called as a function returns a string
+    if (!new.target) return new NativeDate(currentTime()).toString();
+    return args.length === 0
+      ? new NativeDate(currentTime())
+      : new NativeDate(...(args as [number]));
+  }
+  FixedDate.prototype = NativeDate.prototype;
+  FixedDate.now = currentTime;
+  FixedDate.parse = NativeDate.parse;
+  FixedDate.UTC = NativeDate.UTC;
+  globalThis.Date = FixedDate as unknown as DateConstructor;
+
+  performance.now = elapsed;
+
+  // mulberry32
+  let state = seed >>> 0;
+  Math.random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pins the starting time and randomness for every document the page loads.
+ * Must run before navigation. The timezone is applied when the browser context is created.
+ */
+export async function applyDeterminism(
+  page: Page,
+  determinism: DeterminismConfig | undefined
+): Promise<void> {
+  if (!determinism) return;
+  await page.addInitScript(installDeterminism, {
+    now: resolveFixedTime(determinism.now),
+    seed: determinism.seed ?? DETERMINISM_RANDOM_SEED,
+  });
+}
@@ -0,0 +1,142 @@
+import type { Page } from "playwright-core";
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { resolveIgnoreRegions } from "./ignore-regions";
+
+const rect = (left: number, top: number, width: number, height: number) => ({
+  left,
+  top,
+  right: left + width,
+  bottom: top + height,
+  width,
+  height,
+});
+
+/**
+ * Creates a page whose evaluate runs the callback against a fake DOM.
+ */
+const createPage = (
+  elements: Record<string, ReturnType<typeof rect>[]>,
+  devicePixelRatio = 1,
+  scroll = { x: 0, y: 0 }
+) => {
+  vi.stubGlobal("window", {
+    devicePixelRatio,
+    scrollX: scroll.x,
+    scrollY: scroll.y,
+  });
+  vi.stubGlobal("document", {
+    documentElement: { scrollWidth: 1000, scrollHeight: 3000 },
+    querySelector: (selector: string) =>
+      elements[selector]?.[0]
+        ? { getBoundingClientRect: () => elements[selector][0] }
+        : null,
+    querySelectorAll: (selector: string) => {
+      if (selector.startsWith("[")) throw new Error("Invalid selector");
+      return (elements[selector] ?? []).map(box => ({
+        getBoundingClientRect: () => box,
+      }));
+    },
+  });
+  return {
+    evaluate: vi.fn((fn: (arg: unknown) => unknown, arg: unknown) =>
+      Promise.resolve(fn(arg))
+    ),
+  } as unknown as Page;
+};
+
+describe("resolveIgnoreRegions", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should return an empty list when no regions are configured", async () => {
+    const page = createPage({});
+
+    expect(await resolveIgnoreRegions(page, "body", undefined)).toEqual([]);
+    expect(page.evaluate).not.toHaveBeenCalled();
+  });
+
+  it("should pass rectangles through without evaluating the page", async () => {
+    const page = createPage({});
+    const regions = [{ x: 1, y: 2, width: 3, height: 4 }];
+
+    expect(await resolveIgnoreRegions(page, "body", regions)).toEqual(regions);
+    expect(page.evaluate).not.toHaveBeenCalled();
+  });
+
+  it("should resolve selectors relative to the screenshot target", async () => {
+    const page = createPage({
+      "#storybook-root": [rect(100, 50, 400, 300)],
+      ".clock": [rect(120, 60, 50, 20), rect(300, 200, 10, 10)],
+    });
+
+    const result = await resolveIgnoreRegions(page, "story-root", [
+      { x: 0, y: 0, width: 5, height: 5 },
+      { selector: ".clock" },
+    ]);
+
+    expect(result).toEqual([
+      { x: 0, y: 0, width: 5, height: 5 },
+      { x: 20, y: 10, width: 50, height: 20 },
+      { x: 200, y: 150, width: 10, height: 10 },
+    ]);
+  });
+
+  it("should scale by the device pixel ratio and clip to the target", async () => {
+    const page = createPage(
+      {
+        body: [rect(0, 0, 100, 100)],
+        ".banner": [rect(80, -10, 40, 30)],
+        ".offscreen": [rect(200, 200, 10, 10)],
+      },
+      2
+    );
+
+    const result = await resolveIgnoreRegions(page, "body", [
+      { selector: ".banner" },
+      { selector: ".offscreen" },
+    ]);
+
+    expect(result).toEqual([{ x: 160, y: 0, width: 40, height: 40 }]);
+  });
+
+  it("should resolve selectors relative to the document for full-page captures", async () => {
+    const page = createPage({ ".footer": [rect(0, 2000, 1000, 400)] }, 1, {
+      x: 0,
+      y: 500,
+    });
+
+    const result = await resolveIgnoreRegions(
+      page,
+      "body",
+      [{ selector: ".footer" }],
+      { fullPage: true }
+    );
+
+    expect(result).toEqual([{ x: 0, y: 2500, width: 1000, height: 400 }]);
+  });
+
+  it("should resolve selectors relative to the clip area", async () => {
+    const page = createPage({ ".badge": [rect(150, 120, 40, 40)] });
+
+    const result = await resolveIgnoreRegions(
+      page,
+      "body",
+      [{ selector: ".badge" }],
+      { clip: { x: 100, y: 100, width: 200, height: 50 } }
+    );
+
+    expect(result).toEqual([{ x: 50, y: 20, width: 40, height: 30 }]);
+  });
+
+  it("should skip invalid selectors", async () => {
+    const page = createPage({ body: [rect(0, 0, 100, 100)] });
+
+    const result = await resolveIgnoreRegions(page, "body", [
+      { selector: "[invalid" },
+    ]);
+
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Ignore region resolution for Playwright adapter
+ *
+ * Resolves selector-based ignore regions to rectangles in screenshot pixels,
+ * relative to the captured area.
+ */
+
+import type { ClipRect, IgnoreRegion, RegionRect } from "@visnap/protocol";
+import type { Page } from "playwright-core";
+
+import { resolveScreenshotTarget } from "./browser-utils";
+
+/**
+ * Resolves ignore regions to rectangles in screenshot pixels.
+ * Rectangles are returned unchanged; every element matching a selector region
+ * is measured relative to the captured area, scaled by the device pixel ratio
+ * and clipped to the area bounds. The captured area is the clip rectangle if
+ * set, the whole document for full-page captures, and the screenshot target
+ * otherwise.
+ * @param page - Playwright page in its final state before capture
+ * @param screenshotTarget - Selector of the element being captured
+ * @param regions - Configured ignore regions
+ * @param area - Full-page and clip settings of the capture
+ * @returns Rectangles to exclude from comparison
+ */
+export async function resolveIgnoreRegions(
+  page: Page,
+  screenshotTarget: string,
+  regions: IgnoreRegion[] | undefined,
+  area: { fullPage?: boolean; clip?: ClipRect } = {}
+): Promise<RegionRect[]> {
+  if (!regions || regions.length === 0) return [];
+
+  const rects: RegionRect[] = [];
+  const selectors: string[] = [];
+  for (const region of regions) {
+    if ("selector" in region) {
+      const selector = region.selector.trim();
+      if (selector) selectors.push(selector);
+    } else {
+      rects.push(region);
+    }
+  }
+  if (selectors.length === 0) return rects;
+
+  const resolved = (await page.evaluate(
+    ({ target, selectors, fullPage, clip }) => {
+      // Captured area in viewport coordinates
+      let origin: { left: number; top: number; right: number; bottom: number };
+      if (clip) {
+        // Full-page clips are relative to the document, others to the viewport
+        const left = fullPage ? clip.x - window.scrollX : clip.x;
+        const top = fullPage ? clip.y - window.scrollY : clip.y;
+        origin = {
+          left,
+          top,
+          right: left + clip.width,
+          bottom: top + clip.height,
+        };
+      } else if (fullPage) {
+        const root = document.documentElement;
+        origin = {
+          left: -window.scrollX,
+          top: -window.scrollY,
+          right: root.scrollWidth - window.scrollX,
+          bottom: root.scrollHeight - window.scrollY,
+        };
+      } else {
+        const targetElement = document.querySelector(target);
+        if (!targetElement) return [];
+        origin = targetElement.getBoundingClientRect();
+      }
+      const scale = window.devicePixelRatio || 1;
+      const boxes: Array<{
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+      }> = [];
+
+      for (const selector of selectors) {
+        let elements;
+        try {
+          elements = document.querySelectorAll(selector);
+        } catch {
+          continue;
+        }
+        elements.forEach(element => {
+          const box = element.getBoundingClientRect();
+          const left = Math.max(box.left, origin.left) - origin.left;
+          const top = Math.max(box.top, origin.top) - origin.top;
+          const right = Math.min(box.right, origin.right) - origin.left;
+          const bottom = Math.min(box.bottom, origin.bottom) - origin.top;
+          if (right <= left || bottom <= top) return;
+
+          const x = Math.floor(left * scale);
+          const y = Math.floor(top * scale);
+          boxes.push({
+            x,
+            y,
+            width: Math.ceil(right * scale) - x,
+            height: Math.ceil(bottom * scale) - y,
+          });
+        });
+      }
+      return boxes;
+    },
+    {
+      target: resolveScreenshotTarget(screenshotTarget),
+      selectors,
+      fullPage: Boolean(area.fullPage),
+      clip: area.clip,
+    }
+  )) as RegionRect[] | undefined;
+
+  return [...rects, ...(resolved ?? [])];
+}
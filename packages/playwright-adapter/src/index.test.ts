@@ -256,6 +256,52 @@ describe("createAdapter", () => {
       expect(mockContext.close).toHaveBeenCalled();
     });
 
+    it("should reject without creating a context when already aborted", async () => {
+      const adapter = createAdapter();
+      await adapter.init({ browser: "firefox" });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        adapter.capture(
+          { id: "test-case", url: "https://example.com" },
+          controller.signal
+        )
+      ).rejects.toThrow();
+
+      const { createBrowserContext } = await import("./browser-context.js");
+      expect(createBrowserContext).not.toHaveBeenCalled();
+    });
+
+    it("should close the context when the capture is aborted", async () => {
+      const { performScreenshotCapture } =
+        await import("./screenshot-capture.js");
+      const controller = new AbortController();
+      (performScreenshotCapture as any).mockImplementationOnce(() => {
+        controller.abort();
+        return Promise.reject(new Error("Target closed"));
+      });
+      const adapter = createAdapter();
+      await adapter.init({ browser: "firefox" });
+
+      await expect(
+        adapter.capture(
+          { id: "test-case", url: "https://example.com" },
+          controller.signal
+        )
+      ).rejects.toThrow("Target closed");
+
+      expect(performScreenshotCapture).toHaveBeenCalledWith(
+        mockContext,
+        expect.any(Object),
+        expect.objectContaining({ id: "test-case" }),
+        30000,
+        controller.signal
+      );
+      // Once from the abort handler and once from the regular cleanup
+      expect(mockContext.close).toHaveBeenCalledTimes(2);
+    });
+
     it("should reuse context when reuseContext is enabled", async () => {
       const options: PlaywrightAdapterOptions = {
         performance: {
@@ -286,6 +332,31 @@ describe("createAdapter", () => {
       expect(mockContext.close).not.toHaveBeenCalled();
     });
 
+    it("should use a separate context for a case pinning another timezone", async () => {
+      const options: PlaywrightAdapterOptions = {
+        performance: { reuseContext: true },
+        determinism: { timezoneId: "UTC" },
+      };
+      const adapter = createAdapter(options);
+      await adapter.init({ browser: "firefox" });
+
+      await adapter.capture({ id: "a", url: "https://example.com" });
+      await adapter.capture({
+        id: "b",
+        url: "https://example.com",
+        determinism: { timezoneId: "Asia/Tokyo" },
+      });
+
+      const { createBrowserContext } = await import("./browser-context.js");
+      expect(createBrowserContext).toHaveBeenCalledTimes(2);
+      expect(createBrowserContext).toHaveBeenLastCalledWith(mockBrowser, {
+        ...options,
+        determinism: { timezoneId: "Asia/Tokyo" },
+      });
+      // Only the dedicated context is closed
+      expect(mockContext.close).toHaveBeenCalledTimes(1);
+    });
+
     it("should clear storage between captures when reusing context", async () => {
       const options: PlaywrightAdapterOptions = {
         performance: {
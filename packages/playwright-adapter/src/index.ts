@@ -4,6 +4,9 @@ import type {
   ScreenshotResult,
   BrowserName as BrowserNameProtocol,
   BrowserAdapterInitOptions,
+  NetworkMockingConfig,
+  DeterminismConfig,
+  ReadinessConfig,
 } from "@visnap/protocol";
 import {
   type BrowserType,
@@ -14,6 +17,7 @@ import {
 
 import { createBrowserContext, navigateToUrl } from "./browser-context";
 import { selectBrowserType, buildAbsoluteUrl } from "./browser-utils";
+import { resolveDeterminism } from "./determinism";
 import { performScreenshotCapture } from "./screenshot-capture";
 import { validateOptions } from "./validation";
 
@@ -24,6 +28,9 @@ import { validateOptions } from "./validation";
  * - `navigation`: URL handling and navigation behavior including `baseUrl`, `waitUntil`, and `timeoutMs`
  * - `screenshot`: Screenshot-specific timeout configuration
  * - `interaction`: Interaction-specific timeout configuration
+ * - `network`: Route rules and HAR replay applied to every capture before navigation
+ * - `determinism`: Fixed time, seeded `Math.random()` and timezone applied to every capture
+ * - `readiness`: Conditions (fonts, images, network idle, custom predicate, quiet DOM) awaited before every capture
  */
 export interface PlaywrightAdapterOptions {
   launch?: {
@@ -47,6 +54,10 @@ export interface PlaywrightAdapterOptions {
   };
   screenshot?: {
     waitForElementTimeoutMs?: number;
+    /** Delay after each scroll step while loading lazy content before a full-page capture */
+    lazyLoadScrollDelayMs?: number;
+    /** Repeat captures until two consecutive screenshots are byte-identical */
+    stabilize?: boolean | { maxAttempts?: number; intervalMs?: number };
   };
   interaction?: {
     defaultTimeoutMs?: number;
@@ -62,6 +73,12 @@ export interface PlaywrightAdapterOptions {
     /** Disable animations via emulateMedia + CSS during capture */
     disableAnimations?: boolean;
   };
+  /** Route rules and HAR replay applied to every capture; per-case settings take precedence */
+  network?: NetworkMockingConfig;
+  /** Pinned time, randomness and timezone; per-case settings are merged over these */
+  determinism?: DeterminismConfig;
+  /** Conditions awaited before every capture; per-case settings are merged over these */
+  readiness?: ReadinessConfig;
 }
 
 /**
@@ -111,9 +128,16 @@ export function createAdapter(
       return page;
     },
 
-    /** Captures a screenshot of the provided URL/selector with isolation per capture */
-    async capture(s: ScreenshotOptions): Promise<ScreenshotResult> {
+    /**
+     * Captures a screenshot of the provided URL/selector with isolation per capture.
+     * Aborting the signal closes the page, and the context unless it is reused.
+     */
+    async capture(
+      s: ScreenshotOptions,
+      signal?: AbortSignal
+    ): Promise<ScreenshotResult> {
       ensureInitialized();
+      signal?.throwIfAborted();
 
       const targetUrl = buildAbsoluteUrl(
         s.url,
@@ -121,7 +145,19 @@ export function createAdapter(
       );
       // Create (or reuse) context
       const desiredDsf = s.viewport?.deviceScaleFactor;
-      const reuseContext = Boolean(validatedOptions.performance?.reuseContext);
+      // The timezone is fixed per context, so a case pinning a different one
+      // gets its own context even when contexts are reused
+      const determinism = resolveDeterminism(
+        validatedOptions.determinism,
+        s.determinism
+      );
+      const contextOptions =
+        s.determinism === undefined
+          ? validatedOptions
+          : { ...validatedOptions, determinism };
+      const reuseContext =
+        Boolean(validatedOptions.performance?.reuseContext) &&
+        determinism?.timezoneId === validatedOptions.determinism?.timezoneId;
       let context: BrowserContext;
       if (reuseContext) {
         if (!sharedContext) {
@@ -138,8 +174,17 @@ export function createAdapter(
       } else {
         context =
           desiredDsf !== undefined
-            ? await createBrowserContext(browser!, validatedOptions, desiredDsf)
-            : await createBrowserContext(browser!, validatedOptions);
+            ? await createBrowserContext(browser!, contextOptions, desiredDsf)
+            : await createBrowserContext(browser!, contextOptions);
+      }
+
+      const closeContextOnAbort = () => {
+        context.close().catch(() => {
+          // ignore, the capture is already cancelled
+        });
+      };
+      if (!reuseContext) {
+        signal?.addEventListener("abort", closeContextOnAbort, { once: true });
       }
 
       try {
@@ -150,10 +195,12 @@ export function createAdapter(
             ...s,
             url: targetUrl,
           },
-          defaultTimeout
+          defaultTimeout,
+          signal
         );
       } finally {
-        if (validatedOptions.performance?.reuseContext) {
+        signal?.removeEventListener("abort", closeContextOnAbort);
+        if (reuseContext) {
           // Clear storage between captures to maintain isolation while reusing context
           try {
             const tmpPage = await context.newPage();
@@ -195,5 +242,12 @@ export function createAdapter(
   };
 }
 
-// Re-export interaction types for user convenience
-export type { InteractionAction } from "@visnap/protocol";
+// Re-export interaction, network mocking, determinism and readiness types for user convenience
+export type {
+  InteractionAction,
+  HarReplayOptions,
+  NetworkMockingConfig,
+  NetworkRouteRule,
+  DeterminismConfig,
+  ReadinessConfig,
+} from "@visnap/protocol";
@@ -497,6 +497,31 @@ describe("executeInteractions", () => {
     });
   });
 
+  describe("Snapshot Actions", () => {
+    it("should call onSnapshot after the settle time", async () => {
+      const order: string[] = [];
+      vi.mocked(mockPage.waitForTimeout).mockImplementation(async ms => {
+        order.push(`wait:${ms}`);
+      });
+      const onSnapshot = vi.fn(async (name: string) => {
+        order.push(`snapshot:${name}`);
+      });
+
+      await executeInteractions(
+        mockPage,
+        [
+          { type: "click", selector: ".menu" },
+          { type: "snapshot", name: "menu-open" },
+        ],
+        "test-case",
+        { settleTimeMs: 50, onSnapshot }
+      );
+
+      expect(onSnapshot).toHaveBeenCalledWith("menu-open");
+      expect(order).toEqual(["wait:50", "snapshot:menu-open", "wait:50"]);
+    });
+  });
+
   describe("Multiple Actions", () => {
     it("should execute multiple actions in sequence", async () => {
       const actions: InteractionAction[] = [
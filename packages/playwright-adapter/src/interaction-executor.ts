@@ -12,7 +12,8 @@ import {
 async function executeAction(
   page: Page,
   action: InteractionAction,
-  defaultTimeout: number
+  defaultTimeout: number,
+  onSnapshot?: (name: string) => Promise<void>
 ): Promise<void> {
   switch (action.type) {
     case "click":
@@ -190,6 +191,10 @@ async function executeAction(
       });
       break;
 
+    case "snapshot":
+      await onSnapshot?.(action.name);
+      break;
+
     default: {
       const _exhaustive: never = action;
       throw new Error(
@@ -200,13 +205,18 @@ async function executeAction(
 }
 
 /**
- * Executes a sequence of interactions with error handling
+ * Executes a sequence of interactions with error handling.
+ * `snapshot` actions call `onSnapshot` after the settle time.
  */
 export async function executeInteractions(
   page: Page,
   interactions: InteractionAction[],
   caseId: string,
-  options?: { defaultTimeoutMs?: number; settleTimeMs?: number }
+  options?: {
+    defaultTimeoutMs?: number;
+    settleTimeMs?: number;
+    onSnapshot?: (name: string) => Promise<void>;
+  }
 ): Promise<void> {
   const defaultTimeout =
     options?.defaultTimeoutMs !== undefined
@@ -220,7 +230,11 @@ export async function executeInteractions(
   for (let i = 0; i < interactions.length; i++) {
     const action = interactions[i];
     try {
-      await executeAction(page, action, defaultTimeout);
+      // Let the previous interactions settle before a checkpoint
+      if (action.type === "snapshot") {
+        await page.waitForTimeout(settleTime);
+      }
+      await executeAction(page, action, defaultTimeout, options?.onSnapshot);
     } catch (error) {
       const actionDesc = JSON.stringify(action, null, 2);
       const message = `Interaction ${i + 1}/${interactions.length} failed for ${caseId}:\n${actionDesc}\nError: ${error}`;
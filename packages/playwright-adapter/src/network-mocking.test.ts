@@ -0,0 +1,134 @@
+import type { Route } from "playwright-core";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  createMockPage,
+  createMockRouteHandler,
+} from "./__mocks__/mock-playwright";
+import { applyNetworkMocking, fulfillRoute } from "./network-mocking";
+
+describe("network-mocking", () => {
+  describe("fulfillRoute", () => {
+    let route: ReturnType<typeof createMockRouteHandler>;
+
+    beforeEach(() => {
+      route = createMockRouteHandler();
+    });
+
+    it("should serve fixture files", async () => {
+      await fulfillRoute(route as unknown as Route, {
+        url: "**/api/products",
+        file: "fixtures/products.json",
+        headers: { "x-fixture": "1" },
+      });
+
+      expect(route.fulfill).toHaveBeenCalledWith({
+        status: 200,
+        headers: { "x-fixture": "1" },
+        path: "fixtures/products.json",
+      });
+    });
+
+    it("should serve JSON bodies", async () => {
+      await fulfillRoute(route as unknown as Route, {
+        url: "**/api/user",
+        json: { name: "Ada" },
+        status: 201,
+      });
+
+      expect(route.fulfill).toHaveBeenCalledWith({
+        status: 201,
+        json: { name: "Ada" },
+      });
+    });
+
+    it("should answer with a bare status", async () => {
+      await fulfillRoute(route as unknown as Route, {
+        url: "**/ads/**",
+        status: 204,
+        contentType: "text/plain",
+      });
+
+      expect(route.fulfill).toHaveBeenCalledWith({
+        status: 204,
+        contentType: "text/plain",
+        body: "",
+      });
+    });
+  });
+
+  describe("applyNetworkMocking", () => {
+    let page: ReturnType<typeof createMockPage>;
+
+    beforeEach(() => {
+      page = createMockPage();
+    });
+
+    it("should do nothing without configuration", async () => {
+      await applyNetworkMocking(page, undefined, {});
+
+      expect(page.route).not.toHaveBeenCalled();
+      expect(page.routeFromHAR).not.toHaveBeenCalled();
+    });
+
+    it("should replay the adapter-level HAR", async () => {
+      await applyNetworkMocking(page, { har: "fixtures/app.har" }, {});
+
+      expect(page.routeFromHAR).toHaveBeenCalledWith("fixtures/app.har", {
+        notFound: "abort",
+      });
+    });
+
+    it("should prefer the per-case HAR", async () => {
+      await applyNetworkMocking(
+        page,
+        { har: "fixtures/app.har" },
+        {
+          har: {
+            path: "fixtures/checkout.har",
+            url: "**/api/**",
+            notFound: "fallback",
+          },
+        }
+      );
+
+      expect(page.routeFromHAR).toHaveBeenCalledTimes(1);
+      expect(page.routeFromHAR).toHaveBeenCalledWith("fixtures/checkout.har", {
+        url: "**/api/**",
+        notFound: "fallback",
+      });
+    });
+
+    it("should register adapter-level rules before per-case rules", async () => {
+      const order: string[] = [];
+      vi.mocked(page.routeFromHAR).mockImplementation(async () => {
+        order.push("har");
+      });
+      vi.mocked(page.route).mockImplementation(async url => {
+        order.push(String(url));
+      });
+
+      await applyNetworkMocking(
+        page,
+        {
+          har: "fixtures/app.har",
+          routes: [{ url: "**/api/user", json: { name: "Ada" } }],
+        },
+        { routes: [{ url: "**/api/user", json: { name: "Grace" } }] }
+      );
+
+      expect(order).toEqual(["har", "**/api/user", "**/api/user"]);
+
+      // The last registered handler answers with the per-case rule
+      const handler = vi.mocked(page.route).mock.calls[1][1] as (
+        route: Route
+      ) => Promise<void>;
+      const route = createMockRouteHandler();
+      await handler(route as unknown as Route);
+      expect(route.fulfill).toHaveBeenCalledWith({
+        status: 200,
+        json: { name: "Grace" },
+      });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Network mocking for Playwright adapter
+ *
+ * Answers page requests with fixture files, JSON bodies or bare status codes,
+ * and replays recorded traffic from HAR files with `routeFromHAR`, so pages
+ * that fetch live data render the same on every run.
+ */
+
+import type {
+  HarReplayOptions,
+  NetworkMockingConfig,
+  NetworkRouteRule,
+} from "@visnap/protocol";
+import type { Page, Route } from "playwright-core";
+
+/**
+ * Fulfills a request with the response described by a route rule.
+ * A `file` takes precedence over `json`; without either an empty body is sent.
+ */
+export async function fulfillRoute(
+  route: Route,
+  rule: NetworkRouteRule
+): Promise<void> {
+  const response = {
+    status: rule.status ?? 200,
+    ...(rule.headers && { headers: rule.headers }),
+    ...(rule.contentType && { contentType: rule.contentType }),
+  };
+
+  if (rule.file) {
+    await route.fulfill({ ...response, path: rule.file });
+  } else if (rule.json !== undefined) {
+    await route.fulfill({ ...response, json: rule.json });
+  } else {
+    await route.fulfill({ ...response, body: "" });
+  }
+}
+
+/**
+ * Normalizes the `har` shorthand (a file path) into replay options.
+ */
+function toHarReplayOptions(har: string | HarReplayOptions): HarReplayOptions {
+  return typeof har === "string" ? { path: har } : har;
+}
+
+/**
+ * Applies adapter-level and per-case network mocking to a page. Must run
+ * before navigation. A per-case HAR replaces the adapter-level one, and route
+ * rules are registered after the HAR, adapter-level rules first: Playwright
+ * runs the most recently registered matching handler, so per-case rules win
+ * over adapter-level ones and any rule wins over the HAR.
+ */
+export async function applyNetworkMocking(
+  page: Page,
+  adapterLevel: NetworkMockingConfig | undefined,
+  perCase: NetworkMockingConfig
+): Promise<void> {
+  const har = perCase.har ?? adapterLevel?.har;
+  if (har) {
+    const { path, url, notFound } = toHarReplayOptions(har);
+    await page.routeFromHAR(path, {
+      ...(url && { url }),
+      notFound: notFound ?? "abort",
+    });
+  }
+
+  const rules = [...(adapterLevel?.routes ?? []), ...(perCase.routes ?? [])];
+  for (const rule of rules) {
+    await page.route(rule.url, route => fulfillRoute(route, rule));
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { createMockPage } from "./__mocks__/mock-playwright";
+import { resolveReadiness, waitForReadiness } from "./readiness";
+
+describe("readiness", () => {
+  describe("resolveReadiness", () => {
+    it("should merge per-case conditions over adapter-level ones", () => {
+      expect(
+        resolveReadiness(
+          { fonts: true, images: true, timeoutMs: 5000 },
+          { images: false, domStableMs: 200 }
+        )
+      ).toEqual({
+        fonts: true,
+        images: false,
+        timeoutMs: 5000,
+        domStableMs: 200,
+      });
+      expect(resolveReadiness(undefined, undefined)).toBeUndefined();
+    });
+  });
+
+  describe("waitForReadiness", () => {
+    let page: ReturnType<typeof createMockPage>;
+
+    beforeEach(() => {
+      page = createMockPage();
+    });
+
+    it("should do nothing without conditions", async () => {
+      await waitForReadiness(page, undefined, 30000);
+
+      expect(page.waitForLoadState).not.toHaveBeenCalled();
+      expect(page.waitForFunction).not.toHaveBeenCalled();
+      expect(page.evaluate).not.toHaveBeenCalled();
+    });
+
+    it("should wait for each configured condition in order", async () => {
+      const order: string[] = [];
+      vi.mocked(page.waitForLoadState).mockImplementation(async () => {
+        order.push("networkIdle");
+      });
+      vi.mocked(page.waitForFunction).mockImplementation(async fn => {
+        order.push(typeof fn === "string" ? fn : "function");
+        return undefined as never;
+      });
+      vi.mocked(page.evaluate).mockImplementation(async (_fn, arg) => {
+        order.push(`domStable:${JSON.stringify(arg)}`);
+        return true;
+      });
+
+      await waitForReadiness(
+        page,
+        {
+          domStableMs: 300,
+          predicate: "window.appReady === true",
+          images: true,
+          fonts: true,
+          networkIdle: true,
+          timeoutMs: 4000,
+        },
+        30000
+      );
+
+      expect(page.waitForLoadState).toHaveBeenCalledWith("networkidle", {
+        timeout: 4000,
+      });
+      expect(page.waitForFunction).toHaveBeenCalledWith(
+        "window.appReady === true",
+        undefined,
+        { timeout: 4000 }
+      );
+      expect(order).toEqual([
+        "networkIdle",
+        "function",
+        "function",
+        "window.appReady === true",
+        'domStable:{"quietMs":300,"timeout":4000}',
+      ]);
+    });
+
+    it("should name the condition that timed out", async () => {
+      const timeoutError = new Error("Timeout 100ms exceeded.");
+      timeoutError.name = "TimeoutError";
+      vi.mocked(page.waitForFunction).mockRejectedValue(timeoutError);
+
+      await expect(
+        waitForReadiness(page, { fonts: true, timeoutMs: 100 }, 30000)
+      ).rejects.toThrow("Page not ready: fonts not met within 100ms");
+    });
+
+    it("should pass other errors through", async () => {
+      vi.mocked(page.waitForFunction).mockRejectedValue(
+        new Error("Target page has been closed")
+      );
+
+      await expect(
+        waitForReadiness(page, { images: true }, 30000)
+      ).rejects.toThrow("Target page has been closed");
+    });
+
+    it("should throw when the DOM keeps changing", async () => {
+      vi.mocked(page.evaluate).mockResolvedValue(false);
+
+      await expect(
+        waitForReadiness(page, { domStableMs: 500 }, 2000)
+      ).rejects.toThrow(
+        "Page not ready: DOM did not stop changing for 500ms within 2000ms"
+      );
+    });
+  });
+});
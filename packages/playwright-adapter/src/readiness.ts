@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Readiness conditions for Playwright adapter
+ *
+ * Waits for fonts, images, network idle, a custom page function or a quiet
+ * DOM before capture, so screenshots aren't taken while the page still changes.
+ */
+
+import type { ReadinessConfig } from "@visnap/protocol";
+import type { Page } from "playwright-core";
+
+/**
+ * Merges per-case readiness conditions over adapter-level ones.
+ * Returns undefined when neither is set.
+ */
+export function resolveReadiness(
+  adapterLevel: ReadinessConfig | undefined,
+  perCase: ReadinessConfig | undefined
+): ReadinessConfig | undefined {
+  if (!adapterLevel && !perCase) return undefined;
+  return { ...adapterLevel, ...perCase };
+}
+
+/**
+ * Runs a wait and turns a Playwright timeout into an error naming the condition.
+ */
+async function waitForCondition(
+  condition: string,
+  timeout: number,
+  wait: () => Promise<unknown>
+): Promise<void> {
+  try {
+    await wait();
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new Error(
+        `Page not ready: ${condition} not met within ${timeout}ms`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolves once every eager or visible image has loaded and decoded.
+ * Runs in the page.
+ */
+async function imagesDecoded(): Promise<boolean> {
+  const images = Array.from(document.images).filter(
+    img =>
+      img.loading !== "lazy" ||
+      img.getBoundingClientRect().top < window.innerHeight
+  );
+  if (!images.every(img => img.complete)) return false;
+  await Promise.all(
+    images.map(img =>
+      img.decode().catch(() => {
+        // broken images are captured as they are
+      })
+    )
+  );
+  return true;
+}
+
+/**
+ * Resolves with true once the DOM has not changed for `quietMs`, or with
+ * false when `timeout` elapses first. Runs in the page.
+ */
+function domStable({
+  quietMs,
+  timeout,
+}: {
+  quietMs: number;
+  timeout: number;
+}): Promise<boolean> {
+  return new Promise(resolve => {
+    let quietTimer: ReturnType<typeof setTimeout>;
+    const finish = (stable: boolean) => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(timeoutTimer);
+      resolve(stable);
+    };
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(() => finish(true), quietMs);
+    });
+    observer.observe(document, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+    quietTimer = setTimeout(() => finish(true), quietMs);
+    const timeoutTimer = setTimeout(() => finish(false), timeout);
+  });
+}
+
+/**
+ * Waits for the configured readiness conditions, in order: network idle,
+ * fonts, images, the custom predicate and a quiet DOM. Each condition gets
+ * `readiness.timeoutMs`, falling back to the given timeout.
+ * @throws {Error} If a condition is not met in time
+ */
+export async function waitForReadiness(
+  page: Page,
+  readiness: ReadinessConfig | undefined,
+  timeout: number
+): Promise<void> {
+  if (!readiness) return;
+  const conditionTimeout = readiness.timeoutMs ?? timeout;
+
+  if (readiness.networkIdle) {
+    await waitForCondition("network idle", conditionTimeout, () =>
+      page.waitForLoadState("networkidle", { timeout: conditionTimeout })
+    );
+  }
+
+  if (readiness.fonts) {
+    await waitForCondition("fonts", conditionTimeout, () =>
+      page.waitForFunction(
+        () => document.fonts.ready.then(() => true),
+        undefined,
+        { timeout: conditionTimeout }
+      )
+    );
+  }
+
+  if (readiness.images) {
+    await waitForCondition("images", conditionTimeout, () =>
+      page.waitForFunction(imagesDecoded, undefined, {
+        timeout: conditionTimeout,
+      })
+    );
+  }
+
+  if (readiness.predicate) {
+    const predicate = readiness.predicate;
+    await waitForCondition("predicate", conditionTimeout, () =>
+      page.waitForFunction(predicate, undefined, {
+        timeout: conditionTimeout,
+      })
+    );
+  }
+
+  if (readiness.domStableMs !== undefined) {
+    const stable = await page.evaluate(domStable, {
+      quietMs: readiness.domStableMs,
+      timeout: conditionTimeout,
+    });
+    if (!stable) {
+      throw new Error(
+        `Page not ready: DOM did not stop changing for ${readiness.domStableMs}ms within ${conditionTimeout}ms`
+      );
+    }
+  }
+}
@@ -6,8 +6,11 @@ import {
   mockContext,
   mockElement,
 } from "./__mocks__/playwright-core";
+import type * as Determinism from "./determinism";
+import type * as Readiness from "./readiness";
 import {
   captureElementScreenshot,
+  captureStableScreenshot,
   performScreenshotCapture,
 } from "./screenshot-capture";
 
@@ -28,6 +31,7 @@ vi.mock("./browser-context.js", () => ({
   navigateToUrl: vi.fn(),
   handleWaitFor: vi.fn(),
   injectGlobalCSS: vi.fn(),
+  scrollToLoadLazyContent: vi.fn(),
   NO_ANIMATIONS_CSS: `*, *::before, *::after {
   transition: none !important;
   animation: none !important;
@@ -40,6 +44,23 @@ vi.mock("./interaction-executor.js", () => ({
   executeInteractions: vi.fn(),
 }));
 
+// Mock the network-mocking module
+vi.mock("./network-mocking.js", () => ({
+  applyNetworkMocking: vi.fn(),
+}));
+
+// Mock the readiness module, keeping the settings resolution
+vi.mock("./readiness.js", async importOriginal => ({
+  ...(await importOriginal<typeof Readiness>()),
+  waitForReadiness: vi.fn(),
+}));
+
+// Mock the determinism module, keeping the settings resolution
+vi.mock("./determinism.js", async importOriginal => ({
+  ...(await importOriginal<typeof Determinism>()),
+  applyDeterminism: vi.fn(),
+}));
+
 describe("screenshot-capture", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -106,6 +127,52 @@ describe("screenshot-capture", () => {
     });
   });
 
+  describe("captureStableScreenshot", () => {
+    /**
+     * Returns a capture function yielding the given screenshots in order.
+     */
+    const captureSequence = (...frames: number[][]) => {
+      const capture = vi.fn();
+      for (const frame of frames) {
+        capture.mockResolvedValueOnce(new Uint8Array(frame));
+      }
+      return capture;
+    };
+
+    it("should stop once two consecutive screenshots match", async () => {
+      const capture = captureSequence([1], [2, 2], [3], [3], [4]);
+
+      const result = await captureStableScreenshot(mockPage, capture, {
+        intervalMs: 50,
+      });
+
+      expect(result).toEqual({
+        buffer: new Uint8Array([3]),
+        attempts: 4,
+        stable: true,
+      });
+      expect(capture).toHaveBeenCalledTimes(4);
+      expect(mockPage.waitForTimeout).toHaveBeenCalledTimes(3);
+      expect(mockPage.waitForTimeout).toHaveBeenCalledWith(50);
+    });
+
+    it("should give up after the maximum number of attempts", async () => {
+      const capture = captureSequence([1], [2], [3], [4]);
+
+      const result = await captureStableScreenshot(mockPage, capture, {
+        maxAttempts: 3,
+        intervalMs: 0,
+      });
+
+      expect(result).toEqual({
+        buffer: new Uint8Array([3]),
+        attempts: 3,
+        stable: false,
+      });
+      expect(mockPage.waitForTimeout).not.toHaveBeenCalled();
+    });
+  });
+
   describe("performScreenshotCapture", () => {
     const mockOptions: PlaywrightAdapterOptions = {
       navigation: {
@@ -169,6 +236,85 @@ describe("screenshot-capture", () => {
       );
     });
 
+    it("should apply network mocking before navigation", async () => {
+      const { navigateToUrl } = await import("./browser-context.js");
+      const { applyNetworkMocking } = await import("./network-mocking.js");
+      const order: string[] = [];
+      (applyNetworkMocking as any).mockImplementationOnce(async () => {
+        order.push("mock");
+      });
+      (navigateToUrl as any).mockImplementationOnce(async () => {
+        order.push("navigate");
+      });
+      const network = { har: "fixtures/app.har" };
+      const routes = [{ url: "**/api/user", json: { name: "Ada" } }];
+
+      await performScreenshotCapture(
+        mockContext,
+        { ...mockOptions, network },
+        { ...mockScreenshotOptions, routes },
+        30000
+      );
+
+      expect(applyNetworkMocking).toHaveBeenCalledWith(mockPage, network, {
+        routes,
+        har: undefined,
+      });
+      expect(order).toEqual(["mock", "navigate"]);
+    });
+
+    it("should pin time and randomness before navigation", async () => {
+      const { navigateToUrl } = await import("./browser-context.js");
+      const { applyDeterminism } = await import("./determinism.js");
+      const order: string[] = [];
+      (applyDeterminism as any).mockImplementationOnce(async () => {
+        order.push("determinism");
+      });
+      (navigateToUrl as any).mockImplementationOnce(async () => {
+        order.push("navigate");
+      });
+
+      await performScreenshotCapture(
+        mockContext,
+        { ...mockOptions, determinism: { now: 0, seed: 7 } },
+        { ...mockScreenshotOptions, determinism: { seed: 3 } },
+        30000
+      );
+
+      expect(applyDeterminism).toHaveBeenCalledWith(mockPage, {
+        now: 0,
+        seed: 3,
+      });
+      expect(order).toEqual(["determinism", "navigate"]);
+    });
+
+    it("should wait for readiness conditions before capturing", async () => {
+      const { waitForReadiness } = await import("./readiness.js");
+      const order: string[] = [];
+      (waitForReadiness as any).mockImplementationOnce(async () => {
+        order.push("ready");
+      });
+      (mockPage.locator as any).mockReturnValue(undefined);
+      (mockElement.screenshot as any).mockImplementationOnce(async () => {
+        order.push("capture");
+        return new Uint8Array([1]);
+      });
+
+      await performScreenshotCapture(
+        mockContext,
+        { ...mockOptions, readiness: { fonts: true, timeoutMs: 5000 } },
+        { ...mockScreenshotOptions, readiness: { domStableMs: 200 } },
+        30000
+      );
+
+      expect(waitForReadiness).toHaveBeenCalledWith(
+        mockPage,
+        { fonts: true, timeoutMs: 5000, domStableMs: 200 },
+        30000
+      );
+      expect(order).toEqual(["ready", "capture"]);
+    });
+
     it("should handle wait for option", async () => {
       const { handleWaitFor } = await import("./browser-context.js");
 
@@ -314,6 +460,186 @@ describe("screenshot-capture", () => {
       );
     });
 
+    it("should return resolved ignore regions in meta when configured", async () => {
+      const result = await performScreenshotCapture(
+        mockContext,
+        mockOptions,
+        {
+          ...mockScreenshotOptions,
+          ignoreRegions: [{ x: 0, y: 0, width: 10, height: 10 }],
+        },
+        30000
+      );
+
+      expect(result.meta.ignoreRegions).toEqual([
+        { x: 0, y: 0, width: 10, height: 10 },
+      ]);
+    });
+
+    it("should record stabilize attempts in meta", async () => {
+      (mockPage.screenshot as any)
+        .mockResolvedValueOnce(new Uint8Array([1]))
+        .mockResolvedValueOnce(new Uint8Array([7, 7]))
+        .mockResolvedValueOnce(new Uint8Array([7, 7]));
+
+      const result = await performScreenshotCapture(
+        mockContext,
+        { ...mockOptions, screenshot: { stabilize: true } },
+        { ...mockScreenshotOptions, clip: { x: 0, y: 0, width: 5, height: 5 } },
+        30000
+      );
+
+      expect(mockPage.screenshot).toHaveBeenCalledTimes(3);
+      expect(result.buffer).toEqual(new Uint8Array([7, 7]));
+      expect(result.meta).toMatchObject({ attempts: 3, stable: true });
+    });
+
+    it("should report screenshots that do not stabilize", async () => {
+      const { executeInteractions } = await import("./interaction-executor.js");
+      vi.mocked(executeInteractions).mockImplementationOnce(
+        async (_page, _actions, _caseId, options) => {
+          await options?.onSnapshot?.("open");
+        }
+      );
+      let frame = 0;
+      (mockPage.screenshot as any).mockImplementation(
+        async () => new Uint8Array([frame++])
+      );
+
+      const result = await performScreenshotCapture(
+        mockContext,
+        {
+          ...mockOptions,
+          screenshot: { stabilize: { maxAttempts: 2, intervalMs: 0 } },
+        },
+        {
+          ...mockScreenshotOptions,
+          fullPage: true,
+          interactions: [{ type: "snapshot", name: "open" }],
+        },
+        30000
+      );
+
+      expect(result.meta).toMatchObject({ attempts: 2, stable: false });
+      expect(result.checkpoints?.[0]).toMatchObject({
+        name: "open",
+        attempts: 2,
+        stable: false,
+      });
+    });
+
+    it("should not add ignore regions to meta when none are configured", async () => {
+      const result = await performScreenshotCapture(
+        mockContext,
+        mockOptions,
+        mockScreenshotOptions,
+        30000
+      );
+
+      expect(result.meta).not.toHaveProperty("ignoreRegions");
+    });
+
+    it("should capture the full page after loading lazy content", async () => {
+      const { scrollToLoadLazyContent } = await import("./browser-context.js");
+      (mockPage.screenshot as any).mockResolvedValue(new Uint8Array([5, 6]));
+
+      const result = await performScreenshotCapture(
+        mockContext,
+        { ...mockOptions, screenshot: { lazyLoadScrollDelayMs: 250 } },
+        { ...mockScreenshotOptions, fullPage: true },
+        30000
+      );
+
+      expect(scrollToLoadLazyContent).toHaveBeenCalledWith(mockPage, 250);
+      expect(mockPage.screenshot).toHaveBeenCalledWith({
+        type: "png",
+        fullPage: true,
+      });
+      expect(mockPage.waitForSelector).not.toHaveBeenCalled();
+      expect(result.buffer).toEqual(new Uint8Array([5, 6]));
+    });
+
+    it("should capture a clipped area without scrolling", async () => {
+      const { scrollToLoadLazyContent } = await import("./browser-context.js");
+      const clip = { x: 10, y: 20, width: 300, height: 200 };
+
+      await performScreenshotCapture(
+        mockContext,
+        mockOptions,
+        { ...mockScreenshotOptions, clip },
+        30000
+      );
+
+      expect(scrollToLoadLazyContent).not.toHaveBeenCalled();
+      expect(mockPage.screenshot).toHaveBeenCalledWith({
+        type: "png",
+        fullPage: false,
+        clip,
+      });
+      expect(mockElement.screenshot).not.toHaveBeenCalled();
+    });
+
+    it("should close the page when the signal aborts", async () => {
+      const { navigateToUrl } = await import("./browser-context.js");
+      const controller = new AbortController();
+      (navigateToUrl as any).mockImplementationOnce(() => {
+        controller.abort();
+        return Promise.reject(new Error("Target closed"));
+      });
+
+      await expect(
+        performScreenshotCapture(
+          mockContext,
+          mockOptions,
+          mockScreenshotOptions,
+          30000,
+          controller.signal
+        )
+      ).rejects.toThrow("Target closed");
+
+      // Once from the abort handler and once from the regular cleanup
+      expect(mockPage.close).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not open a page when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        performScreenshotCapture(
+          mockContext,
+          mockOptions,
+          mockScreenshotOptions,
+          30000,
+          controller.signal
+        )
+      ).rejects.toThrow();
+
+      expect(mockContext.newPage).not.toHaveBeenCalled();
+    });
+
+    it("should close the page when the signal aborts during page creation", async () => {
+      const { navigateToUrl } = await import("./browser-context.js");
+      const controller = new AbortController();
+      vi.mocked(mockContext.newPage).mockImplementationOnce(async () => {
+        controller.abort();
+        return mockPage;
+      });
+
+      await expect(
+        performScreenshotCapture(
+          mockContext,
+          mockOptions,
+          mockScreenshotOptions,
+          30000,
+          controller.signal
+        )
+      ).rejects.toThrow();
+
+      expect(navigateToUrl).not.toHaveBeenCalled();
+      expect(mockPage.close).toHaveBeenCalledTimes(1);
+    });
+
     it("should not inject CSS when disableCSSInjection is true", async () => {
       const { injectGlobalCSS } = await import("./browser-context.js");
       const optionsWithCSS: PlaywrightAdapterOptions = {
@@ -437,10 +763,60 @@ describe("screenshot-capture", () => {
         {
           defaultTimeoutMs: undefined,
           settleTimeMs: undefined,
+          onSnapshot: expect.any(Function),
         }
       );
     });
 
+    it("should return checkpoints captured by snapshot actions", async () => {
+      const { executeInteractions } = await import("./interaction-executor.js");
+      const { injectGlobalCSS } = await import("./browser-context.js");
+      vi.mocked(executeInteractions).mockImplementationOnce(
+        async (_page, _actions, _caseId, options) => {
+          await options?.onSnapshot?.("menu-open");
+        }
+      );
+      (mockPage.screenshot as any)
+        .mockResolvedValueOnce(new Uint8Array([1]))
+        .mockResolvedValueOnce(new Uint8Array([2]));
+
+      const result = await performScreenshotCapture(
+        mockContext,
+        { ...mockOptions, injectCSS: ".clock { display: none; }" },
+        {
+          ...mockScreenshotOptions,
+          clip: { x: 0, y: 0, width: 5, height: 5 },
+          interactions: [
+            { type: "click", selector: ".menu" },
+            { type: "snapshot", name: "menu-open" },
+            { type: "click", selector: ".item" },
+          ],
+        },
+        30000
+      );
+
+      expect(result.checkpoints).toEqual([
+        { name: "menu-open", buffer: new Uint8Array([1]) },
+      ]);
+      expect(result.buffer).toEqual(new Uint8Array([2]));
+      // CSS is injected once, before the checkpoint
+      expect(injectGlobalCSS).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not return checkpoints without snapshot actions", async () => {
+      const result = await performScreenshotCapture(
+        mockContext,
+        mockOptions,
+        {
+          ...mockScreenshotOptions,
+          interactions: [{ type: "click", selector: "button" }],
+        },
+        30000
+      );
+
+      expect(result.checkpoints).toBeUndefined();
+    });
+
     it("should not execute interactions when not provided", async () => {
       const { executeInteractions } = await import("./interaction-executor.js");
 
@@ -544,6 +920,7 @@ describe("screenshot-capture", () => {
         {
           defaultTimeoutMs: undefined,
           settleTimeMs: undefined,
+          onSnapshot: expect.any(Function),
         }
       );
     });
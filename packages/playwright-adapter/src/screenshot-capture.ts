@@ -5,7 +5,13 @@
  * and handling element-specific screenshot capture with Playwright.
  */
 
-import type { ScreenshotOptions, ScreenshotResult } from "@visnap/protocol";
+import type {
+  ClipRect,
+  RegionRect,
+  ScreenshotCheckpoint,
+  ScreenshotOptions,
+  ScreenshotResult,
+} from "@visnap/protocol";
 import type { Page, BrowserContext } from "playwright-core";
 
 import {
@@ -13,12 +19,21 @@ import {
   navigateToUrl,
   handleWaitFor,
   injectGlobalCSS,
+  scrollToLoadLazyContent,
   NO_ANIMATIONS_CSS,
 } from "./browser-context";
 import { resolveScreenshotTarget } from "./browser-utils";
-import { SCREENSHOT_ELEMENT_TIMEOUT } from "./constants";
+import {
+  SCREENSHOT_ELEMENT_TIMEOUT,
+  STABILIZE_INTERVAL,
+  STABILIZE_MAX_ATTEMPTS,
+} from "./constants";
+import { applyDeterminism, resolveDeterminism } from "./determinism";
+import { resolveIgnoreRegions } from "./ignore-regions";
 import { executeInteractions } from "./interaction-executor";
 import { buildElementsMaskCSS } from "./masking-css";
+import { applyNetworkMocking } from "./network-mocking";
+import { resolveReadiness, waitForReadiness } from "./readiness";
 
 import type { PlaywrightAdapterOptions } from "./index";
 
@@ -68,20 +83,182 @@ export async function captureElementScreenshot(
   })) as unknown as Uint8Array;
 }
 
+/**
+ * Captures a screenshot of the page itself: the full scrollable page and/or a clipped area.
+ */
+export async function capturePageScreenshot(
+  page: Page,
+  area: { fullPage?: boolean; clip?: ClipRect }
+): Promise<Uint8Array> {
+  return (await page.screenshot({
+    type: "png",
+    fullPage: Boolean(area.fullPage),
+    ...(area.clip && { clip: area.clip }),
+  })) as unknown as Uint8Array;
+}
+
+/**
+ * Checks whether two screenshots are byte-identical.
+ */
+function buffersEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Takes screenshots until two consecutive ones are byte-identical or
+ * `maxAttempts` screenshots have been taken. Returns the last screenshot.
+ */
+export async function captureStableScreenshot(
+  page: Page,
+  capture: () => Promise<Uint8Array>,
+  stabilize: { maxAttempts?: number; intervalMs?: number }
+): Promise<{ buffer: Uint8Array; attempts: number; stable: boolean }> {
+  const maxAttempts = stabilize.maxAttempts ?? STABILIZE_MAX_ATTEMPTS;
+  const intervalMs = stabilize.intervalMs ?? STABILIZE_INTERVAL;
+
+  let buffer = await capture();
+  for (let attempts = 2; attempts <= maxAttempts; attempts++) {
+    if (intervalMs > 0) {
+      await page.waitForTimeout(intervalMs);
+    }
+    const next = await capture();
+    if (buffersEqual(buffer, next)) {
+      return { buffer: next, attempts, stable: true };
+    }
+    buffer = next;
+  }
+  return { buffer, attempts: maxAttempts, stable: false };
+}
+
+/**
+ * Injects the global CSS and the elements-to-mask overlay CSS for a test case.
+ */
+async function injectCaptureCSS(
+  page: Page,
+  options: PlaywrightAdapterOptions,
+  screenshotOptions: ScreenshotOptions
+): Promise<void> {
+  // Inject global CSS if enabled and not disabled for this test case
+  if (!screenshotOptions.disableCSSInjection && options.injectCSS) {
+    await injectGlobalCSS(page, options.injectCSS);
+  }
+
+  // Inject per-test elements-to-mask overlay CSS (independent of disableCSSInjection)
+  if (
+    Array.isArray(screenshotOptions.elementsToMask) &&
+    screenshotOptions.elementsToMask.length > 0
+  ) {
+    const css = buildElementsMaskCSS(screenshotOptions.elementsToMask);
+    if (css) {
+      await injectGlobalCSS(page, css);
+    }
+  }
+}
+
+/**
+ * Takes a screenshot of the page in its current state: loads lazy content,
+ * waits for readiness, captures (repeatedly in stabilize mode) and resolves
+ * ignore regions.
+ */
+async function takeScreenshot(
+  page: Page,
+  options: PlaywrightAdapterOptions,
+  screenshotOptions: ScreenshotOptions,
+  timeout: number
+): Promise<{
+  buffer: Uint8Array;
+  ignoreRegions?: RegionRect[];
+  stabilized?: { attempts: number; stable: boolean };
+}> {
+  // Load lazy content before capturing the full scrollable page
+  const { fullPage, clip } = screenshotOptions;
+  if (fullPage) {
+    await scrollToLoadLazyContent(
+      page,
+      options.screenshot?.lazyLoadScrollDelayMs
+    );
+  }
+
+  // Wait until fonts, images, data and DOM are settled
+  await waitForReadiness(
+    page,
+    resolveReadiness(options.readiness, screenshotOptions.readiness),
+    timeout
+  );
+
+  // Capture the screenshot; fullPage and clip take precedence over the target element
+  const screenshotTarget = screenshotOptions.screenshotTarget || "body";
+  const capture = () =>
+    fullPage || clip
+      ? capturePageScreenshot(page, { fullPage, clip })
+      : captureElementScreenshot(
+          page,
+          screenshotTarget,
+          screenshotOptions.id,
+          options.screenshot?.waitForElementTimeoutMs
+        );
+
+  // In stabilize mode, repeat the capture until the page stops changing
+  const stabilize = options.screenshot?.stabilize;
+  const stabilized = stabilize
+    ? await captureStableScreenshot(
+        page,
+        capture,
+        stabilize === true ? {} : stabilize
+      )
+    : undefined;
+  const buffer = stabilized ? stabilized.buffer : await capture();
+
+  // Resolve ignore regions against the same page state as the screenshot
+  const ignoreRegions =
+    screenshotOptions.ignoreRegions &&
+    screenshotOptions.ignoreRegions.length > 0
+      ? await resolveIgnoreRegions(
+          page,
+          screenshotTarget,
+          screenshotOptions.ignoreRegions,
+          { fullPage, clip }
+        )
+      : undefined;
+
+  return {
+    buffer,
+    ...(ignoreRegions && { ignoreRegions }),
+    ...(stabilized && {
+      stabilized: { attempts: stabilized.attempts, stable: stabilized.stable },
+    }),
+  };
+}
+
 /**
  * Performs the complete screenshot capture process for a given URL and options.
+ * Aborting the signal closes the page so that pending page operations fail fast.
  */
 export async function performScreenshotCapture(
   context: BrowserContext,
   options: PlaywrightAdapterOptions,
   screenshotOptions: ScreenshotOptions,
-  timeout: number
+  timeout: number,
+  signal?: AbortSignal
 ): Promise<ScreenshotResult> {
   const start = Date.now();
   let page: Page | null = null;
+  const closePageOnAbort = () => {
+    page?.close().catch(() => {
+      // ignore, the capture is already cancelled
+    });
+  };
 
   try {
+    signal?.throwIfAborted();
     page = await context.newPage();
+    // An abort while the page was being created would otherwise be missed
+    signal?.throwIfAborted();
+    signal?.addEventListener("abort", closePageOnAbort, { once: true });
 
     // Set up the page with viewport and timeout
     await setupPage(page, screenshotOptions.viewport, timeout);
@@ -98,13 +275,36 @@ export async function performScreenshotCapture(
       await injectGlobalCSS(page, NO_ANIMATIONS_CSS);
     }
 
+    // Pin time and randomness before any page script runs
+    await applyDeterminism(
+      page,
+      resolveDeterminism(options.determinism, screenshotOptions.determinism)
+    );
+
+    // Mock network requests before the page starts loading
+    await applyNetworkMocking(page, options.network, {
+      routes: screenshotOptions.routes,
+      har: screenshotOptions.har,
+    });
+
     // Navigate to the target URL
     await navigateToUrl(page, screenshotOptions.url, options, timeout);
 
     // Handle additional waiting if specified
     await handleWaitFor(page, screenshotOptions.waitFor, timeout);
 
-    // Execute interactions if provided
+    // CSS is injected before the first screenshot, which may be a checkpoint
+    let cssInjected = false;
+    const prepareAndTakeScreenshot = async () => {
+      if (!cssInjected) {
+        await injectCaptureCSS(page!, options, screenshotOptions);
+        cssInjected = true;
+      }
+      return takeScreenshot(page!, options, screenshotOptions, timeout);
+    };
+
+    // Execute interactions if provided; `snapshot` actions capture checkpoints
+    const checkpoints: ScreenshotCheckpoint[] = [];
     if (
       screenshotOptions.interactions &&
       screenshotOptions.interactions.length > 0
@@ -116,42 +316,38 @@ export async function performScreenshotCapture(
         {
           defaultTimeoutMs: options.interaction?.defaultTimeoutMs,
           settleTimeMs: options.interaction?.settleTimeMs,
+          onSnapshot: async name => {
+            const { buffer, ignoreRegions, stabilized } =
+              await prepareAndTakeScreenshot();
+            checkpoints.push({
+              name,
+              buffer,
+              ...(ignoreRegions && { ignoreRegions }),
+              ...stabilized,
+            });
+          },
         }
       );
     }
 
-    // Inject global CSS if enabled and not disabled for this test case
-    if (!screenshotOptions.disableCSSInjection && options.injectCSS) {
-      await injectGlobalCSS(page, options.injectCSS);
-    }
-
-    // Inject per-test elements-to-mask overlay CSS (independent of disableCSSInjection)
-    if (
-      Array.isArray(screenshotOptions.elementsToMask) &&
-      screenshotOptions.elementsToMask.length > 0
-    ) {
-      const css = buildElementsMaskCSS(screenshotOptions.elementsToMask);
-      if (css) {
-        await injectGlobalCSS(page, css);
-      }
-    }
-
-    // Capture the screenshot
-    const buffer = await captureElementScreenshot(
-      page,
-      screenshotOptions.screenshotTarget || "body",
-      screenshotOptions.id,
-      options.screenshot?.waitForElementTimeoutMs
-    );
+    const { buffer, ignoreRegions, stabilized } =
+      await prepareAndTakeScreenshot();
 
     return {
       buffer,
       meta: {
         elapsedMs: Date.now() - start,
         id: screenshotOptions.id,
+        ...(ignoreRegions && { ignoreRegions }),
+        ...(stabilized && {
+          attempts: stabilized.attempts,
+          stable: stabilized.stable,
+        }),
       },
+      ...(checkpoints.length > 0 && { checkpoints }),
     };
   } finally {
+    signal?.removeEventListener("abort", closePageOnAbort);
     // Clean up the page
     try {
       await page?.close();
@@ -6,6 +6,9 @@ import {
   validateContextOptions,
   validateNavigationOptions,
   validatePerformanceOptions,
+  validateNetworkOptions,
+  validateDeterminismOptions,
+  validateReadinessOptions,
   validateOptions,
   browserNameSchema,
   launchOptionsSchema,
@@ -353,6 +356,91 @@ describe("validation", () => {
     });
   });
 
+  describe("validateNetworkOptions", () => {
+    it("should return validated options for valid input", () => {
+      const options = {
+        routes: [
+          { url: "**/api/products*", file: "fixtures/products.json" },
+          { url: "**/api/user", json: { name: "Ada" }, status: 201 },
+          {
+            url: "**/ads/**",
+            status: 204,
+            headers: { "cache-control": "no-store" },
+          },
+        ],
+        har: {
+          path: "fixtures/app.har",
+          url: "**/api/**",
+          notFound: "fallback",
+        },
+      };
+      expect(validateNetworkOptions(options)).toEqual(options);
+      expect(validateNetworkOptions({ har: "fixtures/app.har" })).toEqual({
+        har: "fixtures/app.har",
+      });
+    });
+
+    it("should throw error for invalid input", () => {
+      expect(() =>
+        validateNetworkOptions({ routes: [{ url: "**/api", status: 42 }] })
+      ).toThrow("Invalid network options:");
+      expect(() =>
+        validateNetworkOptions({ har: { path: "a.har", notFound: "skip" } })
+      ).toThrow("Invalid network options:");
+      expect(() => validateNetworkOptions({ routes: [{ file: "a" }] })).toThrow(
+        "Invalid network options:"
+      );
+    });
+  });
+
+  describe("validateReadinessOptions", () => {
+    it("should return validated options for valid input", () => {
+      const predicate = () => true;
+      const options = {
+        networkIdle: true,
+        fonts: true,
+        images: true,
+        predicate,
+        domStableMs: 250,
+        timeoutMs: 10000,
+      };
+      expect(validateReadinessOptions(options)).toEqual(options);
+      expect(
+        validateReadinessOptions({ predicate: "window.appReady === true" })
+      ).toEqual({ predicate: "window.appReady === true" });
+    });
+
+    it("should throw error for invalid input", () => {
+      expect(() => validateReadinessOptions({ domStableMs: 0 })).toThrow(
+        "Invalid readiness options:"
+      );
+      expect(() => validateReadinessOptions({ predicate: 42 })).toThrow(
+        "Invalid readiness options:"
+      );
+    });
+  });
+
+  describe("validateDeterminismOptions", () => {
+    it("should return validated options for valid input", () => {
+      const options = {
+        now: "2025-06-01T12:00:00Z",
+        seed: 42,
+        timezoneId: "Europe/Berlin",
+      };
+      expect(validateDeterminismOptions(options)).toEqual(options);
+      expect(validateDeterminismOptions({ now: 0 })).toEqual({ now: 0 });
+    });
+
+    it("should throw error for invalid input", () => {
+      expect(() => validateDeterminismOptions({ seed: 1.5 })).toThrow(
+        "Invalid determinism options:"
+      );
+      expect(() => validateDeterminismOptions({ timezoneId: "" })).toThrow(
+        "Invalid determinism options:"
+      );
+    });
+  });
+
   describe("validateOptions", () => {
     it("should return validated options for valid input", () => {
       const options = {
@@ -31,8 +31,15 @@ const navigationOptionsSchema = type({
   networkIdleTimeoutDivisor: "number>0?",
 });
 
+const stabilizeOptionsSchema = type({
+  "maxAttempts?": "number.integer>=2",
+  "intervalMs?": "number>=0",
+});
+
 const screenshotOptionsSchema = type({
   waitForElementTimeoutMs: "number>0?",
+  lazyLoadScrollDelayMs: "number>=0?",
+  "stabilize?": stabilizeOptionsSchema.or("boolean"),
 });
 
 const interactionOptionsSchema = type({
@@ -46,6 +53,41 @@ const performanceOptionsSchema = type({
   disableAnimations: "boolean?",
 });
 
+const routeRuleSchema = type({
+  url: "string>0",
+  "file?": "string>0",
+  "json?": "unknown",
+  "status?": "number.integer>=100&number<=599",
+  "headers?": "Record<string, string>",
+  "contentType?": "string>0",
+});
+
+const harReplaySchema = type({
+  path: "string>0",
+  "url?": "string>0",
+  "notFound?": "'abort'|'fallback'",
+});
+
+const networkOptionsSchema = type({
+  "routes?": routeRuleSchema.array(),
+  "har?": harReplaySchema.or("string>0"),
+});
+
+const determinismOptionsSchema = type({
+  "now?": "number|string>0",
+  "seed?": "number.integer",
+  "timezoneId?": "string>0",
+});
+
+const readinessOptionsSchema = type({
+  "networkIdle?": "boolean",
+  "fonts?": "boolean",
+  "images?": "boolean",
+  "predicate?": type("string>0").or(type("Function").as<() => unknown>()),
+  "domStableMs?": "number>0",
+  "timeoutMs?": "number>0",
+});
+
 const playwrightAdapterOptionsSchema = type({
   "launch?": launchOptionsSchema,
   "context?": contextOptionsSchema,
@@ -54,6 +96,9 @@ const playwrightAdapterOptionsSchema = type({
   "interaction?": interactionOptionsSchema,
   "injectCSS?": "string",
   "performance?": performanceOptionsSchema,
+  "network?": networkOptionsSchema,
+  "determinism?": determinismOptionsSchema,
+  "readiness?": readinessOptionsSchema,
 });
 
 // ============= Type Exports (inferred from schemas) =============
@@ -65,6 +110,9 @@ export type NavigationOptions = typeof navigationOptionsSchema.infer;
 export type ScreenshotOptions = typeof screenshotOptionsSchema.infer;
 export type InteractionOptions = typeof interactionOptionsSchema.infer;
 export type PerformanceOptions = typeof performanceOptionsSchema.infer;
+export type NetworkOptions = typeof networkOptionsSchema.infer;
+export type DeterminismOptions = typeof determinismOptionsSchema.infer;
+export type ReadinessOptions = typeof readinessOptionsSchema.infer;
 export type PlaywrightAdapterOptions =
   typeof playwrightAdapterOptionsSchema.infer;
 
@@ -144,6 +192,41 @@ export function validatePerformanceOptions(
   return result;
 }
 
+/**
+ * Validates network mocking options
+ */
+export function validateNetworkOptions(network: unknown): NetworkOptions {
+  const result = networkOptionsSchema(network);
+  if (result instanceof type.errors) {
+    throw new Error(`Invalid network options: ${result.summary}`);
+  }
+  return result;
+}
+
+/**
+ * Validates determinism options
+ */
+export function validateDeterminismOptions(
+  determinism: unknown
+): DeterminismOptions {
+  const result = determinismOptionsSchema(determinism);
+  if (result instanceof type.errors) {
+    throw new Error(`Invalid determinism options: ${result.summary}`);
+  }
+  return result;
+}
+
+/**
+ * Validates readiness options
+ */
+export function validateReadinessOptions(readiness: unknown): ReadinessOptions {
+  const result = readinessOptionsSchema(readiness);
+  if (result instanceof type.errors) {
+    throw new Error(`Invalid readiness options: ${result.summary}`);
+  }
+  return result;
+}
+
 /**
  * Validates playwright adapter options
  */
@@ -165,5 +248,8 @@ export {
   screenshotOptionsSchema,
   interactionOptionsSchema,
   performanceOptionsSchema,
+  networkOptionsSchema,
+  determinismOptionsSchema,
+  readinessOptionsSchema,
   playwrightAdapterOptionsSchema,
 };
@@ -1 +1,3 @@
 export const SNAPSHOT_EXTENSION = ".png";
+/** Extension of the JSON sidecar stored next to a snapshot with its capture metadata */
+export const SNAPSHOT_METADATA_EXTENSION = ".meta.json";
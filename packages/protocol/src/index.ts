@@ -18,4 +18,7 @@ export * from "./types/adapters";
 export * from "./types/storage";
 export * from "./types/config";
 export * from "./types/screenshots";
+export * from "./types/network";
+export * from "./types/determinism";
+export * from "./types/readiness";
 export * from "./constants";
@@ -27,14 +27,18 @@ export interface BrowserAdapterInitOptions {
  * @property name - Unique identifier for this adapter
  * @method init - Initialize the browser adapter with configuration
  * @method openPage - Open a new page at the given URL
- * @method capture - Capture a screenshot with the given options
+ * @method capture - Capture a screenshot with the given options; when the signal aborts,
+ *   the adapter should release the page/context and stop the capture
  * @method dispose - Clean up browser resources
  */
 export interface BrowserAdapter {
   name: string;
   init(opts: BrowserAdapterInitOptions): Promise<void> | void;
   openPage(url: string): Promise<PageWithEvaluate | void>;
-  capture(opts: ScreenshotOptions): Promise<ScreenshotResult>;
+  capture(
+    opts: ScreenshotOptions,
+    signal?: AbortSignal
+  ): Promise<ScreenshotResult>;
   dispose(): Promise<void> | void;
 }
 
@@ -43,6 +47,8 @@ export interface BrowserAdapter {
  * @property baseUrl - Base URL when adapter serves a directory or is bound to a known remote.
  *                    If omitted, listCases() must return absolute URLs.
  * @property initialPageUrl - Initial page URL for the adapter to discover test cases
+ * @property requiresPage - Set to false when listCases() discovers test cases without a
+ *                          page; core then does not open one (and may not launch a browser)
  */
 export interface TestCaseAdapterStartResult {
   // Provide when the adapter serves a directory or is bound to a known remote.
@@ -50,6 +56,8 @@ export interface TestCaseAdapterStartResult {
   baseUrl?: string;
   // Initial page URL for the adapter to discover test cases
   initialPageUrl?: string;
+  // Defaults to true; false skips opening a page for listCases()
+  requiresPage?: boolean;
 }
 
 /**
@@ -95,6 +103,17 @@ export interface TestCaseAdapterOptions<T = Record<string, unknown>> {
   options?: T;
 }
 
+/**
+ * Storage adapter options - the module's createAdapter receives these options
+ * together with the configured screenshotDir
+ * @property name - Adapter module name
+ * @property options - Adapter-specific options
+ */
+export interface StorageAdapterOptions<T = Record<string, unknown>> {
+  name: string;
+  options?: T;
+}
+
 /**
  * Browser configuration with name and optional options
  * @property name - Browser name (chromium, firefox, webkit, or custom)
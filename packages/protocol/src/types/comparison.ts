@@ -33,6 +33,53 @@ export interface StorageAdapter {
  */
 export type ComparisonCore = "odiff" | "pixelmatch" | (string & {});
 
+/**
+ * Pixel dimensions of a compared image
+ */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Rectangle in image pixels, relative to the top-left corner of the screenshot
+ */
+export interface RegionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Area excluded from pixel comparison: a rectangle in image pixels, or a
+ * CSS selector whose elements are resolved to rectangles during capture
+ */
+export type IgnoreRegion = RegionRect | { selector: string };
+
+/**
+ * Bounding box of a connected region of changed pixels, in image pixels
+ * @property x - Left edge of the region
+ * @property y - Top edge of the region
+ * @property width - Width of the region
+ * @property height - Height of the region
+ * @property pixels - Number of changed pixels inside the region
+ */
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixels: number;
+}
+
+/**
+ * How to compare images whose dimensions differ
+ * @property "fail" - Fail immediately with a "size-mismatch" result
+ * @property "pad" - Pad both images to the larger size (top-left aligned) and compare pixels
+ */
+export type SizeMismatchMode = "fail" | "pad";
+
 /**
  * Comparison engine interface for implementing custom image comparison logic
  * @property name - Unique identifier for the comparison engine
@@ -43,31 +90,53 @@ export interface ComparisonEngine {
   compare(
     storage: StorageAdapter,
     filename: string,
-    options: { threshold: number; diffColor?: string }
-  ): Promise<{ match: boolean; reason: string; diffPercentage?: number }>;
+    options: {
+      threshold: number;
+      diffColor?: string;
+      sizeMismatch?: SizeMismatchMode;
+      ignoreRegions?: RegionRect[];
+    }
+  ): Promise<{
+    match: boolean;
+    reason: string;
+    diffPercentage?: number;
+    diffPixels?: number;
+    diffRegions?: DiffRegion[];
+    baseDimensions?: ImageDimensions;
+    currentDimensions?: ImageDimensions;
+  }>;
 }
 
 /**
  * Configuration for image comparison
- * @property core - Comparison engine to use
+ * @property core - Comparison engine to use: a built-in name, an npm module exporting
+ *   `createEngine()`, or a ComparisonEngine object
  * @property threshold - Pixel difference threshold (0-1 range, where 0.1 = 10% difference allowed)
  * @property diffColor - Hex color for highlighting differences in diff images (default: "#00ff00")
+ * @property maxDiffPercentage - Maximum percentage (0-100) of differing pixels that still passes
+ * @property maxDiffPixels - Maximum number of differing pixels that still passes
+ * @property sizeMismatch - How to handle images with different dimensions (default: "fail")
  */
 export interface ComparisonConfig {
-  core: ComparisonCore;
+  core: ComparisonCore | ComparisonEngine;
   threshold: number;
   diffColor?: string;
+  maxDiffPercentage?: number;
+  maxDiffPixels?: number;
+  sizeMismatch?: SizeMismatchMode;
 }
 
 /**
  * Standardized comparison reasons for non-matching results
  * @property "pixel-diff" - Images differ by more than threshold
+ * @property "size-mismatch" - Base and current images have different dimensions
  * @property "missing-current" - Current screenshot not found
  * @property "missing-base" - Baseline screenshot not found
  * @property "error" - Error occurred during comparison
  */
 export type CompareReason =
   | "pixel-diff"
+  | "size-mismatch"
   | "missing-current"
   | "missing-base"
   | "error";
@@ -4,23 +4,30 @@
  * This module defines types related to configuration and CLI options.
  */
 
-import type { BrowserAdapterOptions, TestCaseAdapterOptions } from "./adapters";
+import type {
+  BrowserAdapterOptions,
+  StorageAdapterOptions,
+  TestCaseAdapterOptions,
+} from "./adapters";
 import type { ComparisonConfig } from "./comparison";
 import type { ViewportMap } from "./core";
 
 /**
  * Main configuration interface for the visual testing tool
- * @property adapters - Browser and test case adapter configurations
+ * @property adapters - Browser, test case and storage adapter configurations
  * @property comparison - Image comparison configuration
  * @property screenshotDir - Directory to store screenshots (default: "visnap")
  * @property runtime - Runtime behavior configuration
  * @property viewport - Global viewport configurations
  * @property reporter - Report generation configuration
+ * @property webServer - Web server to launch and wait for before the run
  */
 export interface VisualTestingToolConfig {
   adapters: {
     browser: BrowserAdapterOptions;
     testCase: TestCaseAdapterOptions[];
+    /** Storage adapter module; defaults to the filesystem adapter */
+    storage?: StorageAdapterOptions;
   };
   comparison?: ComparisonConfig;
   screenshotDir?: string;
@@ -33,6 +40,16 @@ export interface VisualTestingToolConfig {
     maxConcurrency?: number | { capture?: number; compare?: number };
     /** Suppress output except errors; defaults to false */
     quiet?: boolean;
+    /**
+     * Number of times a case is re-captured after a capture error or a pixel diff.
+     * Cases that pass on a retry are reported as "flaky". Defaults to 0.
+     */
+    retries?: number;
+    /**
+     * Maximum time in milliseconds a single capture may take before it is
+     * cancelled and reported as failed. Can be overridden per test case. Defaults to 30000.
+     */
+    captureTimeoutMs?: number;
   };
   /** Global viewport configuration that applies to all test cases unless overridden */
   viewport?: ViewportMap;
@@ -41,18 +58,38 @@ export interface VisualTestingToolConfig {
     html?: boolean | string; // true/false or custom path
     json?: boolean | string; // true/false or custom path
   };
+  /** Web server (e.g. `storybook dev`) started before adapters and stopped after the run */
+  webServer?: WebServerConfig;
+}
+
+/**
+ * Web server launched by core before test case adapters start
+ * @property command - Shell command that starts the server
+ * @property url - URL polled until the server responds
+ * @property timeout - Maximum time in milliseconds to wait for the server (default: 60000)
+ * @property reuseExisting - Use a server that already responds at `url` instead of starting one
+ */
+export interface WebServerConfig {
+  command: string;
+  url: string;
+  timeout?: number;
+  reuseExisting?: boolean;
 }
 
 /**
  * Command line interface options
  * @property include - Include patterns for filtering test cases
  * @property exclude - Exclude patterns for filtering test cases
+ * @property includeTags - Only select test cases having at least one of these tags
+ * @property excludeTags - Skip test cases having any of these tags
  * @property configPath - Path to configuration file
  * @property quiet - Suppress output except errors
  */
 export interface CliOptions {
   include?: string | string[];
   exclude?: string | string[];
+  includeTags?: string | string[];
+  excludeTags?: string | string[];
   configPath?: string;
   quiet?: boolean;
 }
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Determinism types for Visnap visual testing framework
+ *
+ * This module defines types for pinning time, randomness and timezone in the
+ * browser, so pages rendering relative dates or random content capture the same
+ * on every run.
+ */
+
+/**
+ * Time, randomness and timezone pinned before navigation
+ * @property now - Time `Date.now()` and `new Date()` start from, as epoch milliseconds
+ *                 or a date string (default: "2024-01-01T00:00:00.000Z")
+ * @property seed - Seed for `Math.random()` (default: 1)
+ * @property timezoneId - IANA timezone of the browser context, e.g. "Europe/Berlin"
+ */
+export interface DeterminismConfig {
+  now?: number | string;
+  seed?: number;
+  timezoneId?: string;
+}
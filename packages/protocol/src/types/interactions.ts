@@ -170,11 +170,14 @@ export interface SetInputFilesOptions {
 /**
  * Union type representing all possible interaction actions that can be performed
  * before taking a screenshot. Each action includes a type and required parameters.
+ * A `snapshot` action captures a named checkpoint mid-sequence, compared as its
+ * own image next to the final screenshot.
  *
  * @example
  * ```typescript
  * const interactions: InteractionAction[] = [
  *   { type: "click", selector: "#button" },
+ *   { type: "snapshot", name: "menu-open" },
  *   { type: "type", selector: "#input", text: "Hello World" },
  *   { type: "wait", selector: "#loading", options: { state: "hidden" } }
  * ];
@@ -246,4 +249,7 @@ export type InteractionAction =
       type: "waitForLoadState";
       state?: "load" | "domcontentloaded" | "networkidle";
       options?: WaitForLoadStateOptions;
-    };
+    }
+
+  // Checkpoints
+  | { type: "snapshot"; name: string };
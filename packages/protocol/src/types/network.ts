@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Network mocking types for Visnap visual testing framework
+ *
+ * This module defines types for answering page requests with fixtures or
+ * recorded traffic, so captures of pages that fetch live data are deterministic.
+ */
+
+/**
+ * Rule answering requests whose URL matches a glob with a fixture
+ * @property url - URL glob matched against request URLs, e.g. `"**\/api/products*"`
+ * @property file - File served as the response body, relative to the working directory
+ * @property json - Value served as a JSON response body
+ * @property status - Response status code (default: 200)
+ * @property headers - Additional response headers
+ * @property contentType - Response content type (default: derived from `file` or `json`)
+ */
+export interface NetworkRouteRule {
+  url: string;
+  file?: string;
+  json?: unknown;
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+}
+
+/**
+ * Replay of recorded traffic from a HAR file
+ * @property path - HAR file, relative to the working directory
+ * @property url - URL glob; only matching requests are served from the HAR
+ * @property notFound - Requests missing from the HAR are aborted ("abort", default)
+ *                      or sent to the network ("fallback")
+ */
+export interface HarReplayOptions {
+  path: string;
+  url?: string;
+  notFound?: "abort" | "fallback";
+}
+
+/**
+ * Network mocking applied to a page before navigation
+ * @property routes - Route rules; when several rules match, the last one wins
+ * @property har - HAR file path or replay options; route rules take precedence over it
+ */
+export interface NetworkMockingConfig {
+  routes?: NetworkRouteRule[];
+  har?: string | HarReplayOptions;
+}
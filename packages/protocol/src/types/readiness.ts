@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Readiness types for Visnap visual testing framework
+ *
+ * This module defines the conditions a page must meet before it is captured,
+ * so screenshots aren't taken while fonts, images or data are still loading.
+ */
+
+/**
+ * Conditions awaited right before capture, in the order listed
+ * @property networkIdle - Wait until there are no network connections for 500 ms
+ * @property fonts - Wait for `document.fonts.ready`
+ * @property images - Wait for all `<img>` elements to load and decode; lazy images
+ *                    below the viewport are skipped
+ * @property predicate - Page function or JavaScript expression polled until it is truthy,
+ *                       e.g. `"window.appReady === true"`
+ * @property domStableMs - Wait until the DOM has not changed for this many milliseconds
+ * @property timeoutMs - Maximum time for each condition (default: the navigation timeout)
+ */
+export interface ReadinessConfig {
+  networkIdle?: boolean;
+  fonts?: boolean;
+  images?: boolean;
+  predicate?: string | (() => unknown);
+  domStableMs?: number;
+  timeoutMs?: number;
+}
@@ -4,8 +4,22 @@
  * This module defines types related to screenshot capture and results.
  */
 
+import type { IgnoreRegion, RegionRect } from "./comparison";
 import type { Viewport } from "./core";
+import type { DeterminismConfig } from "./determinism";
 import type { InteractionAction } from "./interactions";
+import type { HarReplayOptions, NetworkRouteRule } from "./network";
+import type { ReadinessConfig } from "./readiness";
+
+/**
+ * Rectangle in CSS pixels, relative to the top-left corner of the page
+ */
+export interface ClipRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 /**
  * Options for screenshot capture
@@ -17,6 +31,13 @@ import type { InteractionAction } from "./interactions";
  * @property disableCSSInjection - Skip injecting global CSS (default: false)
  * @property interactions - Actions to perform before capture
  * @property elementsToMask - CSS selectors of elements to mask before capture
+ * @property ignoreRegions - Areas to exclude from comparison; selectors are resolved during capture
+ * @property fullPage - Capture the full scrollable page instead of the screenshot target
+ * @property clip - Capture only this area of the page instead of the screenshot target
+ * @property routes - Route rules answering matching requests with fixtures
+ * @property har - HAR file (or replay options) whose recorded traffic answers requests
+ * @property determinism - Pinned time, randomness and timezone, or `false` to opt out
+ * @property readiness - Conditions awaited right before capture
  */
 export interface ScreenshotOptions {
   id: string;
@@ -28,6 +49,37 @@ export interface ScreenshotOptions {
   interactions?: InteractionAction[];
   /** CSS selectors of elements to mask (overlay) before capture */
   elementsToMask?: string[];
+  /** Areas excluded from comparison without altering the screenshot */
+  ignoreRegions?: IgnoreRegion[];
+  /** Capture the full scrollable page; lazy content is loaded by scrolling first */
+  fullPage?: boolean;
+  /** Capture only this area of the page; combined with fullPage it may extend below the fold */
+  clip?: ClipRect;
+  /** Route rules applied before navigation; they take precedence over adapter-level rules */
+  routes?: NetworkRouteRule[];
+  /** HAR file replayed instead of the adapter-level HAR */
+  har?: string | HarReplayOptions;
+  /** Merged over the adapter-level determinism settings; `false` disables them */
+  determinism?: DeterminismConfig | false;
+  /** Merged over the adapter-level readiness conditions */
+  readiness?: ReadinessConfig;
+}
+
+/**
+ * Screenshot captured by a `snapshot` interaction before the final capture
+ * @property name - Checkpoint name from the `snapshot` action
+ * @property buffer - PNG image data as Uint8Array
+ * @property ignoreRegions - Ignore regions resolved to image pixel rectangles
+ * @property attempts - Screenshots taken while waiting for two consecutive identical ones
+ * @property stable - Whether two consecutive screenshots matched before attempts ran out
+ */
+export interface ScreenshotCheckpoint {
+  name: string;
+  buffer: Uint8Array;
+  ignoreRegions?: RegionRect[];
+  /** Set when the browser adapter repeats captures until the page is stable */
+  attempts?: number;
+  stable?: boolean;
 }
 
 /**
@@ -37,19 +89,33 @@ export interface ScreenshotOptions {
  * @property meta.elapsedMs - Time taken to capture in milliseconds
  * @property meta.viewportKey - Viewport configuration key used
  * @property meta.id - Screenshot identifier
+ * @property meta.ignoreRegions - Ignore regions resolved to image pixel rectangles
+ * @property meta.attempts - Screenshots taken while waiting for two consecutive identical ones
+ * @property meta.stable - Whether two consecutive screenshots matched before attempts ran out
+ * @property checkpoints - Screenshots taken by `snapshot` interactions, in order
  */
 export interface ScreenshotResult {
   buffer: Uint8Array;
-  meta: { elapsedMs: number; viewportKey?: string; id: string };
+  meta: {
+    elapsedMs: number;
+    viewportKey?: string;
+    id: string;
+    ignoreRegions?: RegionRect[];
+    /** Set when the browser adapter repeats captures until the page is stable */
+    attempts?: number;
+    stable?: boolean;
+  };
+  checkpoints?: ScreenshotCheckpoint[];
 }
 
 /**
  * Page context interface with evaluation capabilities
  * Used by adapters that need to execute code in the browser context
- * @property evaluate - Optional function to execute code in browser context
+ * @property evaluate - Optional function to execute code in browser context,
+ *                     passing an optional serializable argument to it
  * @property close - Optional function to close the page context
  */
 export type PageWithEvaluate = {
-  evaluate?: (fn: () => Promise<unknown>) => Promise<unknown>;
+  evaluate?: <T>(fn: (arg: T) => Promise<unknown>, arg?: T) => Promise<unknown>;
   close?: () => Promise<void>;
 };
@@ -4,30 +4,66 @@
  * This module defines types related to test case metadata and instances.
  */
 
+import type { IgnoreRegion } from "./comparison";
 import type { Viewport, BrowserName } from "./core";
+import type { DeterminismConfig } from "./determinism";
 import type { InteractionAction } from "./interactions";
+import type { HarReplayOptions, NetworkRouteRule } from "./network";
+import type { ReadinessConfig } from "./readiness";
+import type { ClipRect } from "./screenshots";
 
 /**
  * Visual testing configuration for a specific test case
  * @property skip - Whether to skip this test case
  * @property screenshotTarget - CSS selector for element to capture
  * @property threshold - Pixel difference threshold for this test case
+ * @property maxDiffPercentage - Maximum percentage of differing pixels that still passes
+ * @property maxDiffPixels - Maximum number of differing pixels that still passes
  * @property browser - Browser(s) to use for this test case
  * @property viewport - Viewport configuration for this test case
  * @property disableCSSInjection - Skip injecting global CSS for this test case
  * @property interactions - Actions to perform before capture
  * @property elementsToMask - CSS selectors of elements to mask before capture
+ * @property ignoreRegions - Areas to exclude from comparison (rectangles or selectors)
+ * @property fullPage - Capture the full scrollable page instead of the screenshot target
+ * @property clip - Capture only this area of the page instead of the screenshot target
+ * @property captureTimeoutMs - Maximum capture time in milliseconds, overriding runtime.captureTimeoutMs
+ * @property routes - Route rules answering matching requests with fixtures
+ * @property har - HAR file (or replay options) whose recorded traffic answers requests
+ * @property determinism - Pinned time, randomness and timezone, or `false` to opt out
+ * @property waitFor - Selector or delay in milliseconds to wait for after navigation
+ * @property readiness - Conditions awaited right before capture
  */
 export interface TestCaseVisualConfig {
   skip?: boolean;
   screenshotTarget?: string;
   threshold?: number;
+  maxDiffPercentage?: number;
+  maxDiffPixels?: number;
   browser?: BrowserName | BrowserName[];
   viewport?: Viewport;
   disableCSSInjection?: boolean;
   interactions?: InteractionAction[];
   /** CSS selectors of elements to mask (overlay) before capture */
   elementsToMask?: string[];
+  /** Areas excluded from comparison without altering the screenshot */
+  ignoreRegions?: IgnoreRegion[];
+  /** Capture the full scrollable page instead of the screenshot target */
+  fullPage?: boolean;
+  /** Capture only this area of the page (CSS pixels) instead of the screenshot target */
+  clip?: ClipRect;
+  /** Maximum capture time in milliseconds, overriding runtime.captureTimeoutMs */
+  captureTimeoutMs?: number;
+  /** Route rules answering matching requests with fixtures; they take precedence over adapter-level rules */
+  routes?: NetworkRouteRule[];
+  /** HAR file (or replay options) replayed instead of the adapter-level HAR */
+  har?: string | HarReplayOptions;
+  /** Merged over the adapter-level determinism settings; `false` disables them */
+  determinism?: DeterminismConfig | false;
+  /** Selector to wait for, or delay in milliseconds, after navigation */
+  waitFor?: string | number;
+  /** Merged over the adapter-level readiness conditions */
+  readiness?: ReadinessConfig;
 }
 
 /**
@@ -55,9 +91,20 @@ interface BaseTestCaseMeta {
  * @property viewport - Viewport configuration for this instance
  * @property browser - Browser for this specific variant
  * @property threshold - Optional per-case threshold applied during comparison
+ * @property maxDiffPercentage - Optional per-case tolerance as a percentage of differing pixels
+ * @property maxDiffPixels - Optional per-case tolerance as a count of differing pixels
  * @property disableCSSInjection - Optional flag to disable CSS injection
  * @property interactions - Optional interactions to execute before screenshot
  * @property elementsToMask - CSS selectors of elements to mask before capture
+ * @property ignoreRegions - Areas to exclude from comparison (rectangles or selectors)
+ * @property fullPage - Capture the full scrollable page instead of the screenshot target
+ * @property clip - Capture only this area of the page instead of the screenshot target
+ * @property captureTimeoutMs - Maximum capture time in milliseconds, overriding runtime.captureTimeoutMs
+ * @property routes - Route rules answering matching requests with fixtures
+ * @property har - HAR file (or replay options) whose recorded traffic answers requests
+ * @property determinism - Pinned time, randomness and timezone, or `false` to opt out
+ * @property waitFor - Selector or delay in milliseconds to wait for after navigation
+ * @property readiness - Conditions awaited right before capture
  */
 interface BaseTestCaseInstance {
   caseId: string;
@@ -68,12 +115,34 @@ interface BaseTestCaseInstance {
   browser?: BrowserName; // Browser for this specific variant
   /** Optional per-case threshold applied during comparison for this instance */
   threshold?: number;
+  /** Optional per-case maximum percentage of differing pixels that still passes */
+  maxDiffPercentage?: number;
+  /** Optional per-case maximum number of differing pixels that still passes */
+  maxDiffPixels?: number;
   /** Optional flag to disable CSS injection for this specific test case */
   disableCSSInjection?: boolean;
   /** Optional interactions to execute before screenshot */
   interactions?: InteractionAction[];
   /** CSS selectors of elements to mask (overlay) before capture */
   elementsToMask?: string[];
+  /** Areas excluded from comparison without altering the screenshot */
+  ignoreRegions?: IgnoreRegion[];
+  /** Capture the full scrollable page instead of the screenshot target */
+  fullPage?: boolean;
+  /** Capture only this area of the page (CSS pixels) instead of the screenshot target */
+  clip?: ClipRect;
+  /** Maximum capture time in milliseconds, overriding runtime.captureTimeoutMs */
+  captureTimeoutMs?: number;
+  /** Route rules answering matching requests with fixtures; they take precedence over adapter-level rules */
+  routes?: NetworkRouteRule[];
+  /** HAR file (or replay options) replayed instead of the adapter-level HAR */
+  har?: string | HarReplayOptions;
+  /** Merged over the adapter-level determinism settings; `false` disables them */
+  determinism?: DeterminismConfig | false;
+  /** Selector to wait for, or delay in milliseconds, after navigation */
+  waitFor?: string | number;
+  /** Merged over the adapter-level readiness conditions */
+  readiness?: ReadinessConfig;
 }
 
 /**
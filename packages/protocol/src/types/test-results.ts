@@ -4,7 +4,11 @@
  * This module defines types related to test execution results and outcomes.
  */
 
-import type { ComparisonConfig } from "./comparison";
+import type {
+  ComparisonConfig,
+  DiffRegion,
+  ImageDimensions,
+} from "./comparison";
 import type { ViewportMap } from "./core";
 
 /**
@@ -14,13 +18,21 @@ import type { ViewportMap } from "./core";
  * @property captureDurationMs - Time taken to capture screenshot
  * @property comparisonDurationMs - Time taken to compare images
  * @property totalDurationMs - Total time for this test case
- * @property status - Test case status
+ * @property status - Test case status ("flaky" when it only passed after a retry)
+ * @property attempts - Number of capture attempts made for this test case
+ * @property stable - In stabilize mode, whether two consecutive screenshots matched
+ * @property stabilizeAttempts - In stabilize mode, screenshots taken for the final capture
  * @property reason - Failure reason if status is not "passed"
  * @property diffPercentage - Percentage of pixels that differ (if applicable)
+ * @property diffRegions - Bounding boxes of connected changed regions (if applicable)
+ * @property baseDimensions - Baseline image dimensions (reported when sizes differ)
+ * @property currentDimensions - Current image dimensions (reported when sizes differ)
  * @property title - Human-readable test case title
  * @property kind - Test case type (e.g., "story", "url")
  * @property browser - Browser used for this test case
  * @property viewport - Viewport configuration used
+ * @property parentId - For checkpoints, the test case whose interactions captured it
+ * @property checkpoint - For checkpoints, the name of the `snapshot` interaction
  */
 export interface TestCaseDetail {
   id: string;
@@ -28,13 +40,21 @@ export interface TestCaseDetail {
   captureDurationMs: number;
   comparisonDurationMs?: number;
   totalDurationMs: number;
-  status: "passed" | "failed" | "capture-failed";
+  status: "passed" | "flaky" | "failed" | "capture-failed";
+  attempts?: number;
+  stable?: boolean;
+  stabilizeAttempts?: number;
   reason?: string;
   diffPercentage?: number;
+  diffRegions?: DiffRegion[];
+  baseDimensions?: ImageDimensions;
+  currentDimensions?: ImageDimensions;
   title?: string;
   kind?: string;
   browser?: string;
   viewport?: string;
+  parentId?: string;
+  checkpoint?: string;
 }
 
 /**
@@ -52,8 +72,9 @@ export interface TestDurations {
 /**
  * Aggregate outcome for a test run to aid CI reporting
  * @property total - Total number of test cases
- * @property passed - Number of test cases that passed
- * @property failedDiffs - Number of test cases that failed due to pixel differences
+ * @property passed - Number of test cases that passed (including flaky ones)
+ * @property flaky - Number of test cases that passed only after a retry
+ * @property failedDiffs - Number of test cases that failed due to pixel or size differences
  * @property failedMissingCurrent - Number of test cases missing current screenshots
  * @property failedMissingBase - Number of test cases missing baseline screenshots
  * @property failedErrors - Number of test cases that failed due to errors
@@ -64,6 +85,7 @@ export interface TestDurations {
 export interface RunOutcome {
   total: number;
   passed: number;
+  flaky?: number;
   failedDiffs: number;
   failedMissingCurrent: number;
   failedMissingBase: number;
@@ -100,11 +122,13 @@ export interface TestResult {
     adapters?: {
       browser?: { name: string; options?: Record<string, unknown> };
       testCase?: Array<{ name: string; options?: Record<string, unknown> }>;
+      storage?: { name: string; options?: Record<string, unknown> };
     };
     comparison?: ComparisonConfig;
     runtime?: {
       maxConcurrency?: number | { capture?: number; compare?: number };
       quiet?: boolean;
+      retries?: number;
     };
     viewport?: ViewportMap;
     reporter?: {
@@ -111,11 +111,16 @@ function visnapReport() {
         );
       }
 
-      // Sort tests: failed first, then passed, then others
+      // Sort tests: failed first, then flaky, then passed, then others
       tests.sort((a, b) => {
-        const statusOrder = { failed: 0, "capture-failed": 1, passed: 2 };
-        const aOrder = statusOrder[a.status] ?? 3;
-        const bOrder = statusOrder[b.status] ?? 3;
+        const statusOrder = {
+          failed: 0,
+          "capture-failed": 1,
+          flaky: 2,
+          passed: 3,
+        };
+        const aOrder = statusOrder[a.status] ?? 4;
+        const bOrder = statusOrder[b.status] ?? 4;
 
         if (aOrder !== bOrder) {
           return aOrder - bOrder;
@@ -125,7 +130,14 @@ function visnapReport() {
         return a.id.localeCompare(b.id);
       });
 
-      this.filteredTests = tests;
+      // Show checkpoints right after their parent case, in capture order
+      const shown = new Set(tests.map(t => t.id));
+      const checkpoints = (this.data.outcome.testCases || []).filter(
+        t => t.parentId && shown.has(t.id) && shown.has(t.parentId)
+      );
+      this.filteredTests = tests
+        .filter(t => !checkpoints.includes(t))
+        .flatMap(t => [t, ...checkpoints.filter(c => c.parentId === t.id)]);
     },
 
     clearFilters() {
@@ -137,6 +149,19 @@ function visnapReport() {
       this.showConfig = !this.showConfig;
     },
 
+    getDiffRegionStyle(region, imageWidth, imageHeight) {
+      const left = (region.x / imageWidth) * 100;
+      const top = (region.y / imageHeight) * 100;
+      const width = (region.width / imageWidth) * 100;
+      const height = (region.height / imageHeight) * 100;
+      return `left: ${left}%; top: ${top}%; width: ${width}%; height: ${height}%`;
+    },
+
+    formatDimensions(dimensions) {
+      if (!dimensions) return "unknown";
+      return `${dimensions.width}×${dimensions.height}`;
+    },
+
     toggleTest(id) {
       const index = this.expandedTests.indexOf(id);
       if (index > -1) {
@@ -206,6 +206,21 @@ describe("serializeTestData", () => {
     });
   });
 
+  it("should count flaky test cases separately from passed ones", () => {
+    const testCases = [
+      createMockTestCaseDetail({ id: "test-1", status: "passed" }),
+      createMockTestCaseDetail({ id: "test-2", status: "flaky", attempts: 2 }),
+    ];
+    const testResult = createMockTestResult({
+      outcome: createMockRunOutcome(testCases),
+    });
+
+    const result = serializeTestData(testResult);
+
+    expect(result.statusCounts).toEqual({ passed: 1, flaky: 1 });
+    expect(result.groupedByStatus.flaky[0].attempts).toBe(2);
+  });
+
   it("should group test cases by status", () => {
     const testCases = [
       createMockTestCaseDetail({ id: "test-1", status: "passed" }),
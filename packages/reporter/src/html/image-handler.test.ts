@@ -197,5 +197,22 @@ describe("ImageHandler", () => {
         diffImage: undefined,
       });
     });
+
+    it("should keep dimensions and omit the diff image for size mismatches", () => {
+      const testCase = createMockTestCaseDetail({
+        id: "test-1",
+        status: "failed",
+        captureFilename: "test-1.png",
+        reason: "size-mismatch",
+        baseDimensions: { width: 200, height: 100 },
+        currentDimensions: { width: 200, height: 102 },
+      });
+
+      const result = imageHandler.processTestCases([testCase]);
+
+      expect(result[0].diffImage).toBeUndefined();
+      expect(result[0].baseDimensions).toEqual({ width: 200, height: 100 });
+      expect(result[0].currentDimensions).toEqual({ width: 200, height: 102 });
+    });
   });
 });
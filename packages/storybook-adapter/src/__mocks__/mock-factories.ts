@@ -35,6 +35,8 @@ export function createMockStorybookAdapterOptions(
     include?: string | string[];
     exclude?: string | string[];
     discovery?: {
+      mode?: "extract" | "index";
+      manifest?: string;
       evalTimeoutMs?: number;
       maxRetries?: number;
       retryDelayMs?: number;
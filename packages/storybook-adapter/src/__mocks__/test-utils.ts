@@ -38,33 +38,6 @@ export function createMockServerManager(
   };
 }
 
-/**
- * Creates a mock HTTP server
- */
-export function createMockServer(
-  overrides: {
-    listen?: (port: number, callback: () => void) => void;
-    close?: (callback: () => void) => void;
-    once?: (event: string, handler: (error: Error) => void) => void;
-    off?: (event: string, handler: (error: Error) => void) => void;
-  } = {}
-) {
-  return {
-    listen: vi
-      .fn()
-      .mockImplementation((_port: number, callback: () => void) => {
-        // Default implementation calls callback immediately
-        setTimeout(callback, 0);
-      }),
-    close: vi.fn().mockImplementation((callback: () => void) => {
-      callback();
-    }),
-    once: vi.fn(),
-    off: vi.fn(),
-    ...overrides,
-  };
-}
-
 /**
  * Creates a mock Storybook window object
  */
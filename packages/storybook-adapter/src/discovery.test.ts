@@ -1,5 +1,7 @@
+import type * as AdapterUtils from "@visnap/adapter-utils";
+import { withTimeout } from "@visnap/adapter-utils";
 import type { PageWithEvaluate } from "@visnap/protocol";
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 import { createMockStories } from "./__mocks__/mock-factories";
 import {
@@ -7,15 +9,14 @@ import {
   setupStorybookWindow,
   createMockStorybook,
 } from "./__mocks__/test-utils";
-import { discoverCasesFromBrowser } from "./discovery";
+import { discoverCasesFromBrowser, discoverCasesFromIndex } from "./discovery";
 
-// Mock the utils module
-vi.mock("./utils.js", () => ({
+// Mock the timeout helper
+vi.mock("@visnap/adapter-utils", async importOriginal => ({
+  ...(await importOriginal<typeof AdapterUtils>()),
   withTimeout: vi.fn(promise => promise), // Just pass through for most tests
 }));
 
-import { withTimeout } from "./utils";
-
 const mockWithTimeout = vi.mocked(withTimeout);
 
 describe("discovery", () => {
@@ -257,4 +258,128 @@ describe("discovery", () => {
       }
     });
   });
+
+  describe("discoverCasesFromIndex", () => {
+    const index = {
+      v: 5,
+      entries: {
+        "button--primary": {
+          id: "button--primary",
+          type: "story",
+          title: "Button",
+          name: "Primary",
+          importPath: "./Button.stories.ts",
+          tags: ["dev", "visual"],
+        },
+        "button--docs": {
+          id: "button--docs",
+          type: "docs",
+          title: "Button",
+          name: "Docs",
+        },
+      },
+    };
+
+    /**
+     * Stubs fetch with JSON responses keyed by URL.
+     */
+    const stubFetch = (responses: Record<string, unknown>) => {
+      const fetchMock = vi.fn(async (url: string) =>
+        url in responses
+          ? { ok: true, status: 200, json: async () => responses[url] }
+          : { ok: false, status: 404, json: async () => ({}) }
+      );
+      vi.stubGlobal("fetch", fetchMock);
+      return fetchMock;
+    };
+
+    let warn: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      warn.mockRestore();
+    });
+
+    it("should read stories from index.json and skip docs entries", async () => {
+      stubFetch({ "http://localhost:6006/index.json": index });
+
+      const result = await discoverCasesFromIndex("http://localhost:6006/");
+
+      expect(result).toEqual({
+        "button--primary": {
+          id: "button--primary",
+          title: "Button",
+          name: "Primary",
+          tags: ["dev", "visual"],
+        },
+      });
+    });
+
+    it("should warn that story parameters are ignored without a manifest", async () => {
+      stubFetch({ "http://localhost:6006/index.json": index });
+
+      const result = await discoverCasesFromIndex("http://localhost:6006");
+
+      expect(result["button--primary"]).not.toHaveProperty("parameters");
+      expect(warn).toHaveBeenCalledWith(
+        "Storybook index discovery has no discovery.manifest: story visualTesting parameters (skip, interactions, thresholds and others) are ignored"
+      );
+    });
+
+    it("should read visualTesting parameters from the manifest", async () => {
+      const fetchMock = stubFetch({
+        "http://localhost:6006/index.json": index,
+        "http://localhost:6006/visnap-manifest.json": {
+          "button--primary": { threshold: 0.2 },
+        },
+      });
+
+      const result = await discoverCasesFromIndex("http://localhost:6006", {
+        manifest: "./visnap-manifest.json",
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        "http://localhost:6006/visnap-manifest.json"
+      );
+      expect(result["button--primary"]).toMatchObject({
+        parameters: { visualTesting: { threshold: 0.2 } },
+      });
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it("should read v3 stories.json style indexes", async () => {
+      stubFetch({
+        "http://localhost:6006/index.json": {
+          v: 3,
+          stories: { "card--default": { id: "card--default", title: "Card" } },
+        },
+      });
+
+      const result = await discoverCasesFromIndex("http://localhost:6006");
+
+      expect(Object.keys(result)).toEqual(["card--default"]);
+    });
+
+    it("should throw when index.json cannot be fetched", async () => {
+      stubFetch({});
+
+      await expect(
+        discoverCasesFromIndex("http://localhost:6006")
+      ).rejects.toThrow(
+        "Failed to fetch http://localhost:6006/index.json: HTTP 404"
+      );
+    });
+
+    it("should throw when index.json has no entries", async () => {
+      stubFetch({ "http://localhost:6006/index.json": { v: 5 } });
+
+      await expect(
+        discoverCasesFromIndex("http://localhost:6006")
+      ).rejects.toThrow("Storybook index.json has no entries");
+    });
+  });
 });
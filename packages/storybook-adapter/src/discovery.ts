@@ -2,24 +2,41 @@
  * @fileoverview Story discovery utilities for Storybook adapter
  *
  * Provides functions for discovering Storybook stories from the browser context
- * using Storybook's extract() API with retry mechanisms and timeout handling.
+ * using Storybook's extract() API with retry mechanisms and timeout handling,
+ * or without a browser from the `index.json` of a static build or server.
  */
 
+import {
+  fetchJson,
+  resolveManifestUrl,
+  withTimeout,
+} from "@visnap/adapter-utils";
 import type { PageWithEvaluate } from "@visnap/protocol";
 
-import { withTimeout } from "./utils";
-
 // Default configuration values
 const DEFAULT_EVAL_TIMEOUT_MS = 15000;
 const DEFAULT_DISCOVERY_MAX_RETRIES = 3;
 const DEFAULT_DISCOVERY_RETRY_DELAY_MS = 500;
 
 export interface DiscoveryConfig {
+  mode?: "extract" | "index";
+  manifest?: string;
   evalTimeoutMs?: number;
   maxRetries?: number;
   retryDelayMs?: number;
 }
 
+/**
+ * Entry of Storybook's `index.json` (v4/v5 `entries`, v3 `stories`)
+ */
+interface StoryIndexEntry {
+  id?: unknown;
+  type?: unknown;
+  title?: unknown;
+  name?: unknown;
+  tags?: unknown;
+}
+
 /**
  * Discovers Storybook cases in the current browser page by evaluating inside the page context.
  * Requires a `PageWithEvaluate` that can execute code in the browser and optionally be closed later.
@@ -79,3 +96,60 @@ export async function discoverCasesFromBrowser(
     ? lastError
     : new Error("Story discovery failed");
 }
+
+/**
+ * Discovers Storybook cases without a browser by reading `index.json` from the base URL.
+ * The index has no story parameters, so `visualTesting` parameters are read from the
+ * optional build-time `manifest` (a JSON object of story ID to `visualTesting` parameters).
+ * Without a manifest, stories have no parameters and a warning says so.
+ * Docs entries are ignored. The result has the same shape as `extract()` output.
+ * @param baseUrl - Base URL of the Storybook static build or server
+ * @param config - Discovery configuration (`manifest` and `evalTimeoutMs` are used)
+ * @returns Stories keyed by story ID
+ * @throws {Error} If the index cannot be fetched or has no entries
+ */
+export async function discoverCasesFromIndex(
+  baseUrl: string,
+  config: DiscoveryConfig = {}
+): Promise<Record<string, unknown>> {
+  const timeoutMs = config.evalTimeoutMs ?? DEFAULT_EVAL_TIMEOUT_MS;
+  const index = (await fetchJson(
+    `${baseUrl.replace(/\/$/, "")}/index.json`,
+    timeoutMs
+  )) as { entries?: unknown; stories?: unknown } | null;
+
+  const entries = index?.entries ?? index?.stories;
+  if (!entries || typeof entries !== "object") {
+    throw new Error("Storybook index.json has no entries");
+  }
+
+  if (!config.manifest) {
+    console.warn(
+      "Storybook index discovery has no discovery.manifest: story visualTesting parameters (skip, interactions, thresholds and others) are ignored"
+    );
+  }
+  const manifest = config.manifest
+    ? await fetchJson(resolveManifestUrl(baseUrl, config.manifest), timeoutMs)
+    : {};
+  const visualTestingById =
+    manifest && typeof manifest === "object"
+      ? (manifest as Record<string, unknown>)
+      : {};
+
+  const stories: Record<string, unknown> = {};
+  for (const entry of Object.values(entries) as StoryIndexEntry[]) {
+    if (!entry || typeof entry.id !== "string") continue;
+    // v3 indexes have no type; every entry is a story there
+    if (entry.type !== undefined && entry.type !== "story") continue;
+
+    const visualTesting = visualTestingById[entry.id];
+    stories[entry.id] = {
+      id: entry.id,
+      title: entry.title,
+      name: entry.name,
+      tags: entry.tags,
+      ...(visualTesting !== undefined && { parameters: { visualTesting } }),
+    };
+  }
+  return stories;
+}
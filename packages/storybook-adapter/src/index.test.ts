@@ -1,17 +1,18 @@
+import type * as AdapterUtils from "@visnap/adapter-utils";
+import { createServerManager, normalizeStories } from "@visnap/adapter-utils";
 import type { PageWithEvaluate, ViewportMap } from "@visnap/protocol";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
 // Mock all the modules
-vi.mock("./server.js", () => ({
+vi.mock("@visnap/adapter-utils", async importOriginal => ({
+  ...(await importOriginal<typeof AdapterUtils>()),
   createServerManager: vi.fn(),
+  normalizeStories: vi.fn(),
 }));
 
 vi.mock("./discovery.js", () => ({
   discoverCasesFromBrowser: vi.fn(),
-}));
-
-vi.mock("./filtering.js", () => ({
-  normalizeStories: vi.fn(),
+  discoverCasesFromIndex: vi.fn(),
 }));
 
 import {
@@ -23,14 +24,14 @@ import {
   createMockPageContext,
   createMockServerManager,
 } from "./__mocks__/test-utils";
-import { discoverCasesFromBrowser } from "./discovery";
-import { normalizeStories } from "./filtering";
-import { createServerManager } from "./server";
+import { discoverCasesFromBrowser, discoverCasesFromIndex } from "./discovery";
+import { buildStoryUrl } from "./variants";
 
 import { createAdapter } from "./index";
 
 const mockCreateServerManager = vi.mocked(createServerManager);
 const mockDiscoverCasesFromBrowser = vi.mocked(discoverCasesFromBrowser);
+const mockDiscoverCasesFromIndex = vi.mocked(discoverCasesFromIndex);
 const mockNormalizeStories = vi.mocked(normalizeStories);
 
 describe("createAdapter", () => {
@@ -89,7 +90,8 @@ describe("createAdapter", () => {
 
       expect(mockCreateServerManager).toHaveBeenCalledWith(
         "/path/to/storybook",
-        3000
+        3000,
+        { label: "Storybook static directory", defaultPort: 4477 }
       );
     });
 
@@ -102,7 +104,8 @@ describe("createAdapter", () => {
 
       expect(mockCreateServerManager).toHaveBeenCalledWith(
         "/path/to/storybook",
-        undefined
+        undefined,
+        { label: "Storybook static directory", defaultPort: 4477 }
       );
     });
 
@@ -126,7 +129,40 @@ describe("createAdapter", () => {
       expect(result).toEqual({
         baseUrl: "http://localhost:4477",
         initialPageUrl: "http://localhost:4477/iframe.html",
+        requiresPage: true,
       });
+      expect(mockDiscoverCasesFromIndex).not.toHaveBeenCalled();
+    });
+
+    it("should not require a page when index.json can be read", async () => {
+      mockDiscoverCasesFromIndex.mockResolvedValue(createMockStories());
+      const adapter = createAdapter(
+        createMockStorybookAdapterOptions({
+          discovery: { mode: "index", manifest: "visnap-manifest.json" },
+        })
+      );
+
+      const result = await adapter.start!();
+
+      expect(mockDiscoverCasesFromIndex).toHaveBeenCalledWith(
+        "http://localhost:4477",
+        { mode: "index", manifest: "visnap-manifest.json" }
+      );
+      expect(result).toMatchObject({ requiresPage: false });
+    });
+
+    it("should fall back to extract() when index.json cannot be read", async () => {
+      mockDiscoverCasesFromIndex.mockRejectedValue(new Error("HTTP 404"));
+      const adapter = createAdapter(
+        createMockStorybookAdapterOptions({ discovery: { mode: "index" } })
+      );
+
+      const result = await adapter.start!();
+
+      expect(result).toMatchObject({ requiresPage: true });
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("falling back to extract()")
+      );
     });
   });
 
@@ -166,10 +202,32 @@ describe("createAdapter", () => {
         baseUrl: "http://localhost:4477",
         viewportKeys: ["default"],
         globalViewport: undefined,
+        kind: "story",
+        screenshotTarget: "#storybook-root",
+        buildUrl: buildStoryUrl,
       });
       expect(result).toEqual(mockInstances);
     });
 
+    it("should list stories from index.json without a page context", async () => {
+      const mockStories = createMockStories();
+      mockDiscoverCasesFromIndex.mockResolvedValue(mockStories);
+      mockNormalizeStories.mockReturnValue([createMockTestCaseInstance()]);
+      const adapter = createAdapter(
+        createMockStorybookAdapterOptions({ discovery: { mode: "index" } })
+      );
+
+      await adapter.start!();
+      const result = await adapter.listCases();
+
+      expect(mockDiscoverCasesFromBrowser).not.toHaveBeenCalled();
+      expect(mockNormalizeStories).toHaveBeenCalledWith(
+        mockStories,
+        expect.objectContaining({ baseUrl: "http://localhost:4477" })
+      );
+      expect(result).toHaveLength(1);
+    });
+
     it("should throw error when adapter not started", async () => {
       mockServerManager.getBaseUrl.mockReturnValue(undefined);
 
@@ -204,6 +262,9 @@ describe("createAdapter", () => {
         baseUrl: "http://localhost:4477",
         viewportKeys: ["desktop", "mobile"], // Should be sorted
         globalViewport: viewportConfig,
+        kind: "story",
+        screenshotTarget: "#storybook-root",
+        buildUrl: buildStoryUrl,
       });
     });
 
@@ -225,6 +286,9 @@ describe("createAdapter", () => {
         baseUrl: "http://localhost:4477",
         viewportKeys: ["default"],
         globalViewport: {},
+        kind: "story",
+        screenshotTarget: "#storybook-root",
+        buildUrl: buildStoryUrl,
       });
     });
 
@@ -283,7 +347,8 @@ describe("createAdapter", () => {
 
       expect(mockCreateServerManager).toHaveBeenCalledWith(
         "https://storybook.example.com",
-        undefined
+        undefined,
+        { label: "Storybook static directory", defaultPort: 4477 }
       );
       expect(adapter.name).toBe("storybook");
     });
@@ -299,7 +364,8 @@ describe("createAdapter", () => {
 
       expect(mockCreateServerManager).toHaveBeenCalledWith(
         "/path/to/storybook",
-        3000
+        3000,
+        { label: "Storybook static directory", defaultPort: 4477 }
       );
       expect(adapter.name).toBe("storybook");
     });
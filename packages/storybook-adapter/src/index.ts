@@ -6,6 +6,11 @@
  * and normalizes them into test case instances.
  */
 
+import {
+  createServerManager,
+  normalizeStories,
+  type StoryParamValue,
+} from "@visnap/adapter-utils";
 import type {
   TestCaseAdapter,
   TestCaseInstanceMeta,
@@ -13,10 +18,9 @@ import type {
   PageWithEvaluate,
 } from "@visnap/protocol";
 
-import { discoverCasesFromBrowser } from "./discovery";
-import { normalizeStories } from "./filtering";
-import { createServerManager } from "./server";
+import { discoverCasesFromBrowser, discoverCasesFromIndex } from "./discovery";
 import { validateOptions } from "./validation";
+import { buildStoryUrl } from "./variants";
 
 /**
  * Options to create a Storybook adapter
@@ -24,24 +28,33 @@ import { validateOptions } from "./validation";
  * @property port - If serving from disk, which port to bind to (defaults to 4477)
  * @property include - Optional minimatch pattern(s) matched against story IDs
  * @property exclude - Optional minimatch pattern(s) to exclude from story IDs
- * @property discovery - Configuration for story discovery timeouts and retries
+ * @property includeTags - Optional story tag(s); only stories with at least one of them are captured
+ * @property excludeTags - Optional story tag(s); stories with any of them are skipped
+ * @property discovery - Configuration for story discovery mode, timeouts and retries
+ * @property globals - Storybook globals matrix; every story is captured once per combination of values
  */
 export interface CreateStorybookAdapterOptions {
   source: string;
   port?: number;
   include?: string | string[];
   exclude?: string | string[];
+  includeTags?: string | string[];
+  excludeTags?: string | string[];
   discovery?: {
+    mode?: "extract" | "index";
+    manifest?: string;
     evalTimeoutMs?: number;
     maxRetries?: number;
     retryDelayMs?: number;
   };
+  globals?: Record<string, StoryParamValue[]>;
 }
 
 /**
  * Creates a Storybook-based TestCaseAdapter that can:
  * - Start a local static file server for `storybook-static` or use a provided URL
- * - Discover stories via the browser by calling Storybook's `extract()` API
+ * - Discover stories via the browser by calling Storybook's `extract()` API, or
+ *   without a browser from `index.json` (falling back to `extract()` if it cannot be read)
  * - Filter, normalize, and expand stories into test case instances
  *
  * @param options - Configuration options for the Storybook adapter
@@ -55,8 +68,11 @@ export function createAdapter(
 
   const serverManager = createServerManager(
     validatedOptions.source,
-    validatedOptions.port
+    validatedOptions.port,
+    { label: "Storybook static directory", defaultPort: 4477 }
   );
+  // Stories read from index.json in "index" discovery mode
+  let indexedStories: Record<string, unknown> | null = null;
 
   return {
     name: "storybook",
@@ -67,15 +83,31 @@ export function createAdapter(
     async start() {
       await serverManager.ensureStarted();
       const baseUrl = serverManager.getBaseUrl();
+
+      indexedStories = null;
+      if (baseUrl && validatedOptions.discovery?.mode === "index") {
+        try {
+          indexedStories = await discoverCasesFromIndex(
+            baseUrl,
+            validatedOptions.discovery
+          );
+        } catch (error) {
+          console.warn(
+            `Failed to read Storybook index.json, falling back to extract(): ${error}`
+          );
+        }
+      }
+
       return {
         baseUrl,
         initialPageUrl: `${baseUrl}/iframe.html`,
+        requiresPage: indexedStories === null,
       };
     },
 
     /**
-     * Lists normalized and filtered stories from the current page context
-     * Requires a page context capable of `evaluate`. Automatically closes the page context afterwards.
+     * Lists normalized and filtered stories from index.json or the current page context
+     * Without index.json, requires a page context capable of `evaluate`. Automatically closes the page context afterwards.
      *
      * @param pageCtx - Page context required for story discovery
      * @param o - Options including viewport configuration
@@ -86,18 +118,23 @@ export function createAdapter(
       pageCtx?: PageWithEvaluate,
       o?: { viewport?: ViewportMap }
     ): Promise<TestCaseInstanceMeta[]> {
-      if (!pageCtx) {
-        throw new Error("Page context is required for storybook adapter");
-      }
-
       let cases: Record<string, unknown>;
-      try {
-        cases = await discoverCasesFromBrowser(
-          pageCtx,
-          validatedOptions.discovery
-        );
-      } finally {
+      if (indexedStories) {
+        cases = indexedStories;
         await pageCtx?.close?.();
+      } else {
+        if (!pageCtx) {
+          throw new Error("Page context is required for storybook adapter");
+        }
+
+        try {
+          cases = await discoverCasesFromBrowser(
+            pageCtx,
+            validatedOptions.discovery
+          );
+        } finally {
+          await pageCtx?.close?.();
+        }
       }
 
       const baseUrl = serverManager.getBaseUrl();
@@ -115,9 +152,17 @@ export function createAdapter(
       return normalizeStories(cases, {
         include: validatedOptions?.include,
         exclude: validatedOptions?.exclude,
+        includeTags: validatedOptions?.includeTags,
+        excludeTags: validatedOptions?.excludeTags,
         baseUrl,
         viewportKeys: keys,
         globalViewport: o?.viewport,
+        globals: validatedOptions.globals as
+          | Record<string, StoryParamValue[]>
+          | undefined,
+        kind: "story",
+        screenshotTarget: "#storybook-root",
+        buildUrl: buildStoryUrl,
       });
     },
     /**
@@ -1,26 +0,0 @@
-/**
- * Utility functions for the Storybook adapter
- */
-
-/**
- * Races a promise against a timeout and ensures the timer is always cleared.
- */
-export function withTimeout<T>(
-  promise: Promise<T>,
-  ms: number,
-  message: string
-): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
-    const timer = setTimeout(() => reject(new Error(message)), ms);
-    promise.then(
-      value => {
-        clearTimeout(timer);
-        resolve(value);
-      },
-      err => {
-        clearTimeout(timer);
-        reject(err);
-      }
-    );
-  });
-}
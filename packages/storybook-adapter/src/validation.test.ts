@@ -128,6 +128,24 @@ describe("validation", () => {
       expect(result).toEqual(options);
     });
 
+    it("should validate a globals matrix", () => {
+      const options = {
+        source: "/path/to/storybook",
+        globals: { theme: ["light", "dark"], locale: ["en"] },
+      };
+
+      expect(validateOptions(options)).toEqual(options);
+    });
+
+    it("should reject globals that are not arrays of values", () => {
+      expect(() =>
+        validateOptions({
+          source: "/path/to/storybook",
+          globals: { theme: "dark" },
+        })
+      ).toThrow("Invalid storybook adapter options:");
+    });
+
     it("should validate options with minimal fields", () => {
       const options = {
         source: "/path/to/storybook",
@@ -159,6 +177,23 @@ describe("validation", () => {
       expect(result).toEqual(options);
     });
 
+    it("should validate options with include/exclude tags", () => {
+      const options = {
+        source: "/path/to/storybook",
+        includeTags: ["visual"],
+        excludeTags: "flaky",
+      };
+
+      const result = validateOptions(options);
+      expect(result).toEqual(options);
+    });
+
+    it("should throw error for invalid includeTags type", () => {
+      expect(() =>
+        validateOptions({ source: "/path/to/storybook", includeTags: [1] })
+      ).toThrow("Invalid storybook adapter options:");
+    });
+
     it("should throw error for null options", () => {
       expect(() => validateOptions(null)).toThrow(
         "Invalid storybook adapter options: must be an object (was null)"
@@ -10,6 +10,8 @@ import { type } from "arktype";
 // ============= Schema Definitions =============
 
 const discoveryConfigSchema = type({
+  mode: "'extract'|'index'?",
+  manifest: "string>0?",
   evalTimeoutMs: "number>0?",
   maxRetries: "number>=0?",
   retryDelayMs: "number>=0?",
@@ -20,7 +22,10 @@ const createStorybookAdapterOptionsSchema = type({
   port: "number>0?",
   include: "string|string[]?",
   exclude: "string|string[]?",
+  includeTags: "string|string[]?",
+  excludeTags: "string|string[]?",
   "discovery?": discoveryConfigSchema,
+  "globals?": "Record<string, unknown[]>",
 });
 
 // ============= Type Exports (inferred from schemas) =============
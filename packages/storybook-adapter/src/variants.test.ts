@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+
+import { buildStoryUrl, encodeStoryParams } from "./variants";
+
+describe("variants", () => {
+  describe("encodeStoryParams", () => {
+    it("should encode plain values as key:value pairs", () => {
+      expect(
+        encodeStoryParams({ label: "Save draft", count: 2, size: "lg" })
+      ).toBe("label:Save+draft;count:2;size:lg");
+    });
+
+    it("should use Storybook's special value syntax", () => {
+      expect(
+        encodeStoryParams({
+          disabled: true,
+          icon: null,
+          color: "#ff0000",
+          background: "rgba(0, 0, 0, 0.5)",
+        })
+      ).toBe(
+        "disabled:!true;icon:!null;color:!hex(ff0000);background:!rgba(0,0,0,0.5)"
+      );
+    });
+
+    it("should flatten nested objects and arrays", () => {
+      expect(
+        encodeStoryParams({
+          user: { name: "Ada", roles: ["admin", "editor"] },
+        })
+      ).toBe("user.name:Ada;user.roles[0]:admin;user.roles[1]:editor");
+    });
+
+    it("should throw for values Storybook cannot parse from the URL", () => {
+      expect(() => encodeStoryParams({ label: "a;b" })).toThrow(
+        'Cannot encode "label" as a Storybook URL parameter'
+      );
+      expect(() => encodeStoryParams({ "bad:key": "x" })).toThrow(
+        'Cannot encode "bad:key" as a Storybook URL parameter'
+      );
+    });
+  });
+
+  describe("buildStoryUrl", () => {
+    it("should build the plain iframe URL without a variant", () => {
+      expect(buildStoryUrl("http://localhost:6006", "button--primary")).toBe(
+        "http://localhost:6006/iframe.html?id=button--primary"
+      );
+    });
+
+    it("should append args and globals parameters", () => {
+      expect(
+        buildStoryUrl("http://localhost:6006", "button--primary", {
+          name: "dark",
+          args: { disabled: true },
+          globals: { theme: "dark" },
+        })
+      ).toBe(
+        "http://localhost:6006/iframe.html?id=button--primary&args=disabled:!true&globals=theme:dark"
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Story variants for the Storybook adapter
+ *
+ * Encodes variant `args` and `globals` as Storybook `&args=` / `&globals=`
+ * URL parameters.
+ */
+
+import type { StoryParamValue, StoryVariant } from "@visnap/adapter-utils";
+
+// Storybook only accepts keys and plain string values made of these characters
+const SAFE_VALUE_REGEX = /^[a-zA-Z0-9 _-]*$/;
+const NUMBER_REGEX = /^-?[0-9]+(\.[0-9]+)?$/;
+const HEX_COLOR_REGEX = /^#([a-f0-9]{3,4}|[a-f0-9]{6}|[a-f0-9]{8})$/i;
+const FUNCTION_COLOR_REGEX =
+  /^(rgba?|hsla?)\(([0-9]{1,3}),\s?([0-9]{1,3})%?,\s?([0-9]{1,3})%?,?\s?([0-9](\.[0-9]{1,2})?)?\)$/i;
+
+/**
+ * Encodes a single leaf value using Storybook's special value syntax.
+ */
+function encodeLeafValue(path: string, value: StoryParamValue): string {
+  if (value === null) return "!null";
+  if (typeof value === "boolean") return `!${value}`;
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot encode "${path}" as a Storybook URL parameter`);
+    }
+    return String(value);
+  }
+  if (typeof value === "string") {
+    if (HEX_COLOR_REGEX.test(value)) return `!hex(${value.slice(1)})`;
+    if (FUNCTION_COLOR_REGEX.test(value)) {
+      return `!${value.replace(/[\s%]/g, "")}`;
+    }
+    if (SAFE_VALUE_REGEX.test(value) || NUMBER_REGEX.test(value)) {
+      return value.replace(/ /g, "+");
+    }
+  }
+  throw new Error(`Cannot encode "${path}" as a Storybook URL parameter`);
+}
+
+/**
+ * Flattens nested values into `path:value` pairs using dots for objects and
+ * indices for arrays, matching how Storybook parses `args` and `globals`.
+ */
+function flattenParams(
+  prefix: string,
+  value: StoryParamValue,
+  pairs: string[]
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      flattenParams(`${prefix}[${index}]`, item, pairs)
+    );
+    return;
+  }
+  if (value !== null && typeof value === "object") {
+    for (const [key, nested] of Object.entries(value)) {
+      if (!SAFE_VALUE_REGEX.test(key) || key === "") {
+        throw new Error(
+          `Cannot encode "${prefix}.${key}" as a Storybook URL parameter`
+        );
+      }
+      flattenParams(`${prefix}.${key}`, nested, pairs);
+    }
+    return;
+  }
+  pairs.push(`${prefix}:${encodeLeafValue(prefix, value)}`);
+}
+
+/**
+ * Encodes args or globals into the value of a Storybook `args`/`globals` URL parameter.
+ * @param params - Values keyed by arg or global name
+ * @returns Encoded parameter value (e.g. `theme:dark;count:2;disabled:!true`)
+ * @throws {Error} If a key or value cannot be represented in the URL
+ */
+export function encodeStoryParams(
+  params: Record<string, StoryParamValue>
+): string {
+  const pairs: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (key === "" || !SAFE_VALUE_REGEX.test(key)) {
+      throw new Error(`Cannot encode "${key}" as a Storybook URL parameter`);
+    }
+    flattenParams(key, value, pairs);
+  }
+  return pairs.join(";");
+}
+
+/**
+ * Builds the iframe URL of a story rendered with a variant's args and globals.
+ */
+export function buildStoryUrl(
+  baseUrl: string,
+  storyId: string,
+  variant?: StoryVariant
+): string {
+  let url = `${baseUrl}/iframe.html?id=${encodeURIComponent(storyId)}`;
+  if (variant?.args && Object.keys(variant.args).length > 0) {
+    url += `&args=${encodeStoryParams(variant.args)}`;
+  }
+  if (variant?.globals && Object.keys(variant.globals).length > 0) {
+    url += `&globals=${encodeStoryParams(variant.globals)}`;
+  }
+  return url;
+}
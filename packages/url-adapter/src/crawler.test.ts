@@ -0,0 +1,154 @@
+import type { PageWithEvaluate } from "@visnap/protocol";
+import { describe, it, expect, vi } from "vitest";
+
+import { crawlUrls, normalizeCrawlUrl } from "./crawler";
+
+/**
+ * Creates a page context whose evaluate returns links from a fake site,
+ * keyed by page URL, instead of loading pages in the browser. Pages listed
+ * in `failures` fail to load with the given reason.
+ */
+const createSitePage = (
+  site: Record<string, string[]>,
+  failures: Record<string, string> = {}
+) => {
+  const evaluate = vi.fn(async (_fn: unknown, arg?: { urls: string[] }) => {
+    const urls = arg?.urls ?? [];
+    return {
+      links: Object.fromEntries(
+        urls.filter(url => !failures[url]).map(url => [url, site[url] ?? []])
+      ),
+      failures: Object.fromEntries(
+        urls.filter(url => failures[url]).map(url => [url, failures[url]])
+      ),
+    } as unknown;
+  });
+  return { evaluate } as PageWithEvaluate & { evaluate: typeof evaluate };
+};
+
+describe("normalizeCrawlUrl", () => {
+  const origin = "http://localhost:3000";
+
+  it("should drop hashes and trailing slashes", () => {
+    expect(normalizeCrawlUrl("http://localhost:3000/docs/#intro", origin)).toBe(
+      "http://localhost:3000/docs"
+    );
+    expect(normalizeCrawlUrl("http://localhost:3000/#top", origin)).toBe(
+      "http://localhost:3000/"
+    );
+    expect(normalizeCrawlUrl("http://localhost:3000/search?q=a", origin)).toBe(
+      "http://localhost:3000/search?q=a"
+    );
+  });
+
+  it("should reject other origins, schemes and files", () => {
+    expect(normalizeCrawlUrl("http://example.com/", origin)).toBeUndefined();
+    expect(
+      normalizeCrawlUrl("https://localhost:3000/", origin)
+    ).toBeUndefined();
+    expect(
+      normalizeCrawlUrl("mailto:team@example.com", origin)
+    ).toBeUndefined();
+    expect(
+      normalizeCrawlUrl("http://localhost:3000/report.pdf", origin)
+    ).toBeUndefined();
+    expect(normalizeCrawlUrl("not a url", origin)).toBeUndefined();
+  });
+});
+
+describe("crawlUrls", () => {
+  const site = {
+    "http://localhost:3000/": [
+      "http://localhost:3000/",
+      "http://localhost:3000/about/",
+      "http://localhost:3000/docs#top",
+      "http://example.com/external",
+    ],
+    "http://localhost:3000/about": ["http://localhost:3000/team"],
+    "http://localhost:3000/docs": [
+      "http://localhost:3000/docs/start",
+      "http://localhost:3000/about",
+    ],
+    "http://localhost:3000/team": ["http://localhost:3000/team/ada"],
+  };
+
+  it("should throw if the page context does not support evaluate", async () => {
+    await expect(crawlUrls({}, "http://localhost:3000/")).rejects.toThrow(
+      "Page context does not support evaluate()"
+    );
+  });
+
+  it("should collect same-origin pages breadth-first and deduplicated", async () => {
+    const page = createSitePage(site);
+
+    const urls = await crawlUrls(page, "http://localhost:3000/");
+
+    expect(urls).toEqual([
+      "http://localhost:3000/",
+      "http://localhost:3000/about",
+      "http://localhost:3000/docs",
+      "http://localhost:3000/team",
+      "http://localhost:3000/docs/start",
+    ]);
+    // One evaluate call per level
+    expect(page.evaluate).toHaveBeenCalledTimes(2);
+    expect(page.evaluate).toHaveBeenLastCalledWith(
+      expect.any(Function),
+      expect.objectContaining({
+        urls: ["http://localhost:3000/about", "http://localhost:3000/docs"],
+      })
+    );
+  });
+
+  it("should warn about pages whose links cannot be read", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const page = createSitePage(site, {
+      "http://localhost:3000/about": "Page refused to be framed",
+    });
+
+    const urls = await crawlUrls(page, "http://localhost:3000/");
+
+    // The page itself is still captured, only its links are missing
+    expect(urls).toEqual([
+      "http://localhost:3000/",
+      "http://localhost:3000/about",
+      "http://localhost:3000/docs",
+      "http://localhost:3000/docs/start",
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      "Crawler could not follow links on http://localhost:3000/about: Page refused to be framed"
+    );
+    warn.mockRestore();
+  });
+
+  it("should respect the depth and page limits", async () => {
+    expect(
+      await crawlUrls(createSitePage(site), "http://localhost:3000/", {
+        depth: 0,
+      })
+    ).toEqual(["http://localhost:3000/"]);
+
+    expect(
+      await crawlUrls(createSitePage(site), "http://localhost:3000/", {
+        depth: 3,
+        maxPages: 3,
+      })
+    ).toEqual([
+      "http://localhost:3000/",
+      "http://localhost:3000/about",
+      "http://localhost:3000/docs",
+    ]);
+  });
+
+  it("should only visit pages matching include/exclude patterns", async () => {
+    const page = createSitePage(site);
+
+    const urls = await crawlUrls(page, "http://localhost:3000/", {
+      include: ["/docs", "/docs/**", "/team/**"],
+      exclude: "/docs/start",
+    });
+
+    // The start page is crawled but not collected; /about is never visited
+    expect(urls).toEqual(["http://localhost:3000/docs"]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Link-following crawler for URL adapter
+ *
+ * Discovers same-origin pages breadth-first from a start URL. Links are
+ * collected inside the browser by loading each page in a hidden iframe, so
+ * client-side rendered navigation is found as well.
+ */
+
+import type { PageWithEvaluate } from "@visnap/protocol";
+
+import { createPathMatcher } from "./paths";
+
+/** Default number of link levels followed from the start page */
+export const DEFAULT_CRAWL_DEPTH = 2;
+/** Default maximum number of pages collected by the crawler */
+export const DEFAULT_CRAWL_MAX_PAGES = 50;
+/** Time a single page may take to load before its links are skipped */
+const CRAWL_PAGE_TIMEOUT_MS = 15000;
+/** Time given to client-side rendering after a page has loaded */
+const CRAWL_SETTLE_MS = 500;
+
+// Links to these files are not pages
+const NON_PAGE_EXTENSION_REGEX =
+  /\.(pdf|zip|gz|png|jpe?g|gif|svg|webp|avif|ico|css|js|mjs|json|xml|txt|csv|mp3|mp4|webm|woff2?)$/i;
+
+/**
+ * Crawler configuration
+ * @property url - Page to start crawling from (default: the adapter's initial page URL)
+ * @property depth - Number of link levels followed from the start page (default: 2)
+ * @property maxPages - Maximum number of pages collected, including the start page (default: 50)
+ * @property include - Minimatch pattern(s) of page paths to visit (e.g. `"/docs/**"`)
+ * @property exclude - Minimatch pattern(s) of page paths never to visit (e.g. `"/logout"`)
+ */
+export interface CrawlConfig {
+  url?: string;
+  depth?: number;
+  maxPages?: number;
+  include?: string | string[];
+  exclude?: string | string[];
+}
+
+/**
+ * Normalizes a link for deduplication: resolves it, drops the hash and a
+ * trailing slash, and rejects other origins, non-HTTP schemes and files.
+ * @param href - Absolute link
+ * @param origin - Origin the crawl is restricted to
+ * @returns Normalized URL, or undefined if the link should not be followed
+ */
+export function normalizeCrawlUrl(
+  href: string,
+  origin: string
+): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+  if (url.origin !== origin) return undefined;
+  if (NON_PAGE_EXTENSION_REGEX.test(url.pathname)) return undefined;
+
+  url.hash = "";
+  if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+    url.pathname = url.pathname.replace(/\/+$/, "");
+  }
+  return url.toString();
+}
+
+/**
+ * Links found per page, and the reason for every page whose links could not be read
+ */
+interface CollectedLinks {
+  links: Record<string, string[]>;
+  failures: Record<string, string>;
+}
+
+/**
+ * Loads pages in hidden iframes of the current document and returns the
+ * `href` of every anchor per page. Runs inside the browser, so it must not
+ * reference anything outside its own body.
+ */
+async function collectPageLinks(arg: {
+  urls: string[];
+  timeoutMs: number;
+  settleMs: number;
+}): Promise<CollectedLinks> {
+  const links: Record<string, string[]> = {};
+  const failures: Record<string, string> = {};
+  for (const url of arg.urls) {
+    const frame = document.createElement("iframe");
+    frame.style.cssText =
+      "position:absolute;left:-10000px;top:0;width:1280px;height:800px;border:0";
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new Error("Page load timed out")),
+          arg.timeoutMs
+        );
+        frame.addEventListener(
+          "load",
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          { once: true }
+        );
+        frame.src = url;
+        document.body.appendChild(frame);
+      });
+      await new Promise(resolve => setTimeout(resolve, arg.settleMs));
+      // Pages refusing to be framed (X-Frame-Options, CSP frame-ancestors)
+      // load a cross-origin error page whose document is not accessible
+      const doc = frame.contentDocument;
+      if (!doc) {
+        throw new Error("Page refused to be framed");
+      }
+      links[url] = Array.from(
+        doc.querySelectorAll("a[href]"),
+        anchor => (anchor as HTMLAnchorElement).href
+      );
+    } catch (error) {
+      failures[url] = error instanceof Error ? error.message : String(error);
+    } finally {
+      frame.remove();
+    }
+  }
+  return { links, failures };
+}
+
+/**
+ * Crawls same-origin pages breadth-first from a start URL.
+ * The start page is always visited; other pages are only visited (and returned)
+ * when their path matches `include`/`exclude`. Each level is loaded in one
+ * `evaluate` call, and crawling stops at `depth` levels or `maxPages` pages.
+ * Pages whose links cannot be read are reported with a warning.
+ * @param pageCtx - Page context capable of `evaluate`
+ * @param startUrl - Page to start crawling from
+ * @param config - Crawler configuration
+ * @returns Normalized page URLs in breadth-first order
+ * @throws {Error} If the page context does not support evaluate()
+ */
+export async function crawlUrls(
+  pageCtx: PageWithEvaluate,
+  startUrl: string,
+  config: CrawlConfig = {}
+): Promise<string[]> {
+  if (typeof pageCtx.evaluate !== "function") {
+    throw new Error("Page context does not support evaluate()");
+  }
+
+  const depth = config.depth ?? DEFAULT_CRAWL_DEPTH;
+  const maxPages = config.maxPages ?? DEFAULT_CRAWL_MAX_PAGES;
+  const matchesPath = createPathMatcher(config);
+  const { origin } = new URL(startUrl);
+  const start = normalizeCrawlUrl(startUrl, origin) ?? startUrl;
+
+  const seen = new Set([start]);
+  const pages = matchesPath(start) ? [start] : [];
+  let level = [start];
+
+  for (let currentDepth = 0; currentDepth < depth; currentDepth++) {
+    if (level.length === 0 || pages.length >= maxPages) break;
+
+    const { links, failures } = (await pageCtx.evaluate(collectPageLinks, {
+      urls: level,
+      timeoutMs: CRAWL_PAGE_TIMEOUT_MS,
+      settleMs: CRAWL_SETTLE_MS,
+    })) as CollectedLinks;
+    for (const [pageUrl, reason] of Object.entries(failures)) {
+      console.warn(`Crawler could not follow links on ${pageUrl}: ${reason}`);
+    }
+
+    const nextLevel: string[] = [];
+    for (const pageUrl of level) {
+      for (const href of links[pageUrl] ?? []) {
+        const url = normalizeCrawlUrl(href, origin);
+        if (!url || seen.has(url)) continue;
+        seen.add(url);
+        if (!matchesPath(url) || pages.length >= maxPages) continue;
+        pages.push(url);
+        nextLevel.push(url);
+      }
+    }
+    level = nextLevel;
+  }
+
+  return pages;
+}
@@ -31,7 +31,7 @@ describe("createAdapter", () => {
     expect(() =>
       createAdapter({} as unknown as CreateUrlAdapterOptions)
     ).toThrow(
-      "Invalid URL adapter options: urls must be an array (was missing)"
+      "At least one URL must be provided (via urls, urlsFile, sitemap or crawl.url)"
     );
     expect(() => createAdapter({ urls: [] })).toThrow(
       "At least one URL must be provided"
@@ -162,6 +162,105 @@ describe("createAdapter", () => {
     consoleSpy.mockRestore();
   });
 
+  it("should add URLs discovered from a sitemap", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        `<urlset>
+          <url><loc>http://localhost:3000/pricing/</loc></url>
+          <url><loc>http://localhost:3000/blog/hello</loc></url>
+        </urlset>`
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const adapter = createAdapter({
+        urls: [
+          createTestUrlConfig({ id: "home", url: "http://localhost:3000/" }),
+        ],
+        sitemap: "http://localhost:3000/sitemap.xml",
+        exclude: "blog-*",
+      });
+
+      await expect(adapter.start?.()).resolves.toEqual({
+        initialPageUrl: "http://localhost:3000/",
+      });
+      const cases = await adapter.listCases();
+
+      expect(cases.map(c => c.caseId)).toEqual(["home", "pricing"]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("should add pages discovered by crawling from the initial page", async () => {
+    const evaluate = vi.fn().mockResolvedValue({
+      links: {
+        "http://localhost:3000/": [
+          "http://localhost:3000/about",
+          "http://localhost:3000/pricing/",
+        ],
+      },
+      failures: {},
+    });
+    const adapter = createAdapter({
+      urls: [
+        createTestUrlConfig({ id: "homepage", url: "http://localhost:3000/" }),
+        createTestUrlConfig({
+          id: "about",
+          url: "http://localhost:3000/about",
+        }),
+      ],
+      crawl: { depth: 1 },
+    });
+
+    await expect(adapter.start?.()).resolves.toEqual({
+      initialPageUrl: "http://localhost:3000/",
+    });
+    const cases = await adapter.listCases({ evaluate });
+
+    expect(cases.map(c => c.caseId)).toEqual(["homepage", "about", "pricing"]);
+    expect(cases[2].url).toBe("http://localhost:3000/pricing");
+  });
+
+  it("should start crawling from crawl.url without configured URLs", async () => {
+    const adapter = createAdapter({
+      crawl: { url: "http://localhost:3000/docs", depth: 0 },
+    });
+
+    await expect(adapter.start?.()).resolves.toEqual({
+      initialPageUrl: "http://localhost:3000/docs",
+    });
+    await expect(adapter.listCases()).rejects.toThrow(
+      "Crawling requires a page context"
+    );
+    const cases = await adapter.listCases({ evaluate: vi.fn() });
+    expect(cases.map(c => c.caseId)).toEqual(["docs"]);
+  });
+
+  it("should filter expanded URL template combinations by ID", async () => {
+    const adapter = createAdapter({
+      urls: [
+        {
+          id: "product",
+          url: "http://localhost:3000/products/{sku}",
+          params: { sku: ["a1", "b2", "c3"] },
+        },
+      ],
+      exclude: "product-sku-b2",
+    });
+
+    await expect(adapter.start?.()).resolves.toEqual({
+      initialPageUrl: "http://localhost:3000/products/a1",
+    });
+    const cases = await adapter.listCases();
+    expect(cases.map(c => c.caseId)).toEqual([
+      "product-sku-a1",
+      "product-sku-c3",
+    ]);
+  });
+
   it("should throw error for duplicate URL IDs", async () => {
     const duplicateOptions = createTestAdapterOptions({
       urls: [
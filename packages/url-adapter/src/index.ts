@@ -2,7 +2,7 @@
  * @fileoverview URL adapter for Visnap visual testing framework
  *
  * URL-based TestCaseAdapter that can test any absolute URL without requiring a server.
- * Supports include/exclude filtering, viewport expansion, and per-URL configuration.
+ * Supports URL files, sitemap and crawler discovery, include/exclude filtering, viewport expansion, and per-URL configuration.
  */
 
 import type {
@@ -12,17 +12,26 @@ import type {
   PageWithEvaluate,
 } from "@visnap/protocol";
 
+import { crawlUrls, normalizeCrawlUrl } from "./crawler";
 import { createUrlFilter } from "./filtering";
 import { normalizeUrls } from "./normalization";
-import type { CreateUrlAdapterOptions } from "./validation";
+import { toPathUrlConfigs } from "./paths";
+import { loadSitemapUrls } from "./sitemap";
+import { expandUrlTemplates } from "./templates";
+import { loadUrlsFile } from "./urls-file";
+import type { CreateUrlAdapterOptions, UrlConfig } from "./validation";
 import { validateCreateUrlAdapterOptions } from "./validation";
 
 /**
  * Creates a URL-based TestCaseAdapter that can:
  * - Test any absolute URL without requiring a server
+ * - Load URLs from JSON, YAML or CSV files
+ * - Discover URLs from a sitemap or sitemap index
+ * - Discover URLs by following same-origin links from the initial page
  * - Apply include/exclude filtering using minimatch patterns
  * - Expand URLs across multiple viewport configurations
  * - Support per-URL configuration (viewport, threshold, interactions)
+ * - Expand URL templates across a `params` matrix
  *
  * @param options - Configuration options for the URL adapter
  * @returns A TestCaseAdapter instance configured for URL testing
@@ -51,12 +60,69 @@ export function createAdapter(
     exclude: validatedOptions.exclude,
   });
 
-  // Filter URLs
-  const filteredUrls = validatedOptions.urls.filter(filter);
+  // Load URLs maintained in a file, reporting invalid rows up front
+  const fileUrls = validatedOptions.urlsFile
+    ? loadUrlsFile(validatedOptions.urlsFile)
+    : [];
 
-  if (filteredUrls.length === 0) {
-    console.warn("No URLs match the include/exclude patterns");
-  }
+  const crawl =
+    validatedOptions.crawl === true ? {} : validatedOptions.crawl || undefined;
+
+  // URLs are resolved once, on first use, since sitemaps are fetched
+  let urlsPromise: Promise<UrlConfig[]> | undefined;
+
+  /**
+   * Collects configured, file and sitemap URLs
+   */
+  const resolveUrls = async (): Promise<UrlConfig[]> => {
+    const { sitemap } = validatedOptions;
+    return [
+      ...(validatedOptions.urls ?? []),
+      ...fileUrls,
+      ...(sitemap
+        ? await loadSitemapUrls(
+            typeof sitemap === "string" ? { url: sitemap } : sitemap
+          )
+        : []),
+    ];
+  };
+
+  const getUrls = () => (urlsPromise ??= resolveUrls());
+
+  /**
+   * Resolves the page discovery starts from, which is also where crawling begins
+   */
+  const getInitialPageUrl = async (): Promise<string | undefined> =>
+    crawl?.url ?? expandUrlTemplates(await getUrls()).filter(filter)[0]?.url;
+
+  /**
+   * Crawls from the initial page and adds pages not already configured
+   */
+  const addCrawledUrls = async (
+    urls: UrlConfig[],
+    pageCtx: PageWithEvaluate | undefined
+  ): Promise<UrlConfig[]> => {
+    const startUrl = await getInitialPageUrl();
+    if (!crawl || !startUrl) return urls;
+    if (!pageCtx) {
+      throw new Error("Crawling requires a page context");
+    }
+
+    const { origin } = new URL(startUrl);
+    const knownUrls = new Set(
+      urls.map(urlConfig => normalizeCrawlUrl(urlConfig.url, origin))
+    );
+    const crawledUrls = (await crawlUrls(pageCtx, startUrl, crawl)).filter(
+      pageUrl => !knownUrls.has(pageUrl)
+    );
+    return [
+      ...urls,
+      ...toPathUrlConfigs(
+        crawledUrls,
+        urls.map(urlConfig => urlConfig.id)
+      ),
+    ];
+  };
 
   return {
     name: "url-adapter",
@@ -67,21 +133,21 @@ export function createAdapter(
      */
     async start() {
       return {
-        // Provide the first URL as initial page URL for discovery
-        initialPageUrl: filteredUrls[0]?.url,
+        // Provide the first URL (or crawl start) as initial page URL for discovery
+        initialPageUrl: await getInitialPageUrl(),
       };
     },
 
     /**
      * Lists normalized and filtered URLs as test case instances.
-     * No page context needed since URLs are absolute.
+     * A page context is only needed when crawling, since URLs are absolute.
      *
-     * @param _pageCtx - Page context (not used for URL adapter)
+     * @param pageCtx - Page context opened at the initial page URL, used for crawling
      * @param o - Options including viewport configuration
      * @returns Promise resolving to array of test case instances
      */
     async listCases(
-      _pageCtx?: PageWithEvaluate,
+      pageCtx?: PageWithEvaluate,
       o?: { viewport?: ViewportMap }
     ): Promise<TestCaseInstanceMeta[]> {
       // Determine viewport keys
@@ -93,6 +159,13 @@ export function createAdapter(
       // Sort viewport keys deterministically
       viewportKeys.sort((a, b) => a.localeCompare(b));
 
+      const urls = await addCrawledUrls(await getUrls(), pageCtx);
+      // Expand templates first so include/exclude can match each combination
+      const filteredUrls = expandUrlTemplates(urls).filter(filter);
+      if (filteredUrls.length === 0) {
+        console.warn("No URLs match the include/exclude patterns");
+      }
+
       // Normalize URLs to test case instances
       return normalizeUrls(filteredUrls, {
         include: validatedOptions.include,
@@ -113,4 +186,11 @@ export function createAdapter(
 }
 
 // Re-export types for convenience
-export type { CreateUrlAdapterOptions, UrlConfig } from "./validation";
+export type {
+  CreateUrlAdapterOptions,
+  UrlConfig,
+  UrlParamOverride,
+  UrlParamValue,
+} from "./validation";
+export type { SitemapConfig } from "./sitemap";
+export type { CrawlConfig } from "./crawler";
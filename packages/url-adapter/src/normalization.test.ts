@@ -91,7 +91,17 @@ describe("normalizeUrls", () => {
         title: "Home Page",
         screenshotTarget: "body",
         threshold: 0.05,
+        maxDiffPercentage: 0.5,
+        maxDiffPixels: 20,
+        ignoreRegions: [{ x: 0, y: 0, width: 10, height: 10 }],
+        fullPage: true,
+        captureTimeoutMs: 60000,
         interactions: [{ type: "click", selector: "button" }],
+        routes: [{ url: "**/api/news", file: "fixtures/news.json" }],
+        har: "fixtures/home.har",
+        determinism: { seed: 7, timezoneId: "Europe/Berlin" },
+        waitFor: "#app[data-ready]",
+        readiness: { networkIdle: true, fonts: true },
       }),
     ];
 
@@ -103,8 +113,19 @@ describe("normalizeUrls", () => {
       title: "Home Page",
       screenshotTarget: "body",
       threshold: 0.05,
+      maxDiffPercentage: 0.5,
+      maxDiffPixels: 20,
+      ignoreRegions: [{ x: 0, y: 0, width: 10, height: 10 }],
+      fullPage: true,
+      captureTimeoutMs: 60000,
       interactions: [{ type: "click", selector: "button" }],
+      routes: [{ url: "**/api/news", file: "fixtures/news.json" }],
+      har: "fixtures/home.har",
+      determinism: { seed: 7, timezoneId: "Europe/Berlin" },
+      waitFor: "#app[data-ready]",
+      readiness: { networkIdle: true, fonts: true },
     });
+    expect(result[0].visualTesting?.har).toBe("fixtures/home.har");
   });
 
   it("should set visualTesting config", () => {
@@ -134,6 +155,54 @@ describe("normalizeUrls", () => {
       "tablet",
     ]);
   });
+
+  it("should expand URL templates into one case per combination", () => {
+    const result = normalizeUrls(
+      [
+        {
+          id: "product",
+          url: "http://localhost:3000/products/{sku}?lang={lang}",
+          params: { sku: ["a1", "b2"], lang: ["en", "fr"] },
+          overrides: [{ when: { sku: "b2" }, threshold: 0.3 }],
+        },
+      ],
+      { viewportKeys: ["default"] }
+    );
+
+    expect(
+      result.map(({ id, caseId, url, threshold }) => ({
+        id,
+        caseId,
+        url,
+        threshold,
+      }))
+    ).toEqual([
+      {
+        id: "product-sku-a1_lang-en-default",
+        caseId: "product-sku-a1_lang-en",
+        url: "http://localhost:3000/products/a1?lang=en",
+        threshold: undefined,
+      },
+      {
+        id: "product-sku-a1_lang-fr-default",
+        caseId: "product-sku-a1_lang-fr",
+        url: "http://localhost:3000/products/a1?lang=fr",
+        threshold: undefined,
+      },
+      {
+        id: "product-sku-b2_lang-en-default",
+        caseId: "product-sku-b2_lang-en",
+        url: "http://localhost:3000/products/b2?lang=en",
+        threshold: 0.3,
+      },
+      {
+        id: "product-sku-b2_lang-fr-default",
+        caseId: "product-sku-b2_lang-fr",
+        url: "http://localhost:3000/products/b2?lang=fr",
+        threshold: 0.3,
+      },
+    ]);
+  });
 });
 
 describe("expandUrlsForViewports", () => {
@@ -2,7 +2,8 @@
  * @fileoverview URL normalization utilities for URL adapter
  *
  * Provides functions for normalizing and expanding URL configurations into
- * test case instances with viewport expansion and safe viewport validation.
+ * test case instances with URL template and viewport expansion and safe
+ * viewport validation.
  */
 
 import {
@@ -14,6 +15,7 @@ import {
   type InteractionAction,
 } from "@visnap/protocol";
 
+import { expandUrlTemplates } from "./templates";
 import type { UrlConfig } from "./validation";
 import { validateUniqueTestCaseIds } from "./validation";
 
@@ -58,7 +60,8 @@ function createSafeViewport(
 
 /**
  * Normalizes and expands URL configurations into TestCaseInstanceMeta[].
- * Applies filtering, viewport expansion, and per-URL configuration.
+ * Applies URL template expansion (one case per `params` combination),
+ * viewport expansion, and per-URL configuration.
  *
  * @param urlConfigs - Array of URL configurations to normalize
  * @param options - Options including viewport keys and global viewport configuration
@@ -84,7 +87,7 @@ export function normalizeUrls(
 ): TestCaseInstanceMeta[] {
   const results: TestCaseInstanceMeta[] = [];
 
-  for (const urlConfig of urlConfigs) {
+  for (const urlConfig of expandUrlTemplates(urlConfigs)) {
     // Generate test case instances for each viewport
     for (const viewportKey of options.viewportKeys) {
       const viewport = createSafeViewport(
@@ -108,19 +111,41 @@ export function normalizeUrls(
         screenshotTarget: urlConfig.screenshotTarget,
         viewport,
         threshold: urlConfig.threshold,
+        maxDiffPercentage: urlConfig.maxDiffPercentage,
+        maxDiffPixels: urlConfig.maxDiffPixels,
         disableCSSInjection: urlConfig.disableCSSInjection ?? false,
         interactions: urlConfig.interactions as InteractionAction[],
         elementsToMask: urlConfig.elementsToMask,
+        ignoreRegions: urlConfig.ignoreRegions,
+        fullPage: urlConfig.fullPage,
+        clip: urlConfig.clip,
+        captureTimeoutMs: urlConfig.captureTimeoutMs,
+        routes: urlConfig.routes,
+        har: urlConfig.har,
+        determinism: urlConfig.determinism,
+        waitFor: urlConfig.waitFor,
+        readiness: urlConfig.readiness,
 
         // Visual testing config
         visualTesting: {
           skip: false,
           screenshotTarget: urlConfig.screenshotTarget,
           threshold: urlConfig.threshold,
+          maxDiffPercentage: urlConfig.maxDiffPercentage,
+          maxDiffPixels: urlConfig.maxDiffPixels,
           viewport,
           disableCSSInjection: urlConfig.disableCSSInjection ?? false,
           interactions: urlConfig.interactions as InteractionAction[],
           elementsToMask: urlConfig.elementsToMask,
+          ignoreRegions: urlConfig.ignoreRegions,
+          fullPage: urlConfig.fullPage,
+          clip: urlConfig.clip,
+          captureTimeoutMs: urlConfig.captureTimeoutMs,
+          routes: urlConfig.routes,
+          har: urlConfig.har,
+          determinism: urlConfig.determinism,
+          waitFor: urlConfig.waitFor,
+          readiness: urlConfig.readiness,
         },
       };
 
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+
+import { createPathMatcher, pathToCaseId, toPathUrlConfigs } from "./paths";
+
+describe("pathToCaseId", () => {
+  it("should derive IDs from paths", () => {
+    expect(pathToCaseId("http://example.com/")).toBe("index");
+    expect(pathToCaseId("http://example.com/pricing/teams/")).toBe(
+      "pricing-teams"
+    );
+    expect(pathToCaseId("http://example.com/Docs/Getting_Started.html")).toBe(
+      "docs-getting_started"
+    );
+    expect(pathToCaseId("http://example.com/search?q=shoes")).toBe(
+      "search-q-shoes"
+    );
+  });
+
+  it("should ignore the origin", () => {
+    expect(pathToCaseId("https://www.example.com/about")).toBe(
+      pathToCaseId("http://localhost:3000/about")
+    );
+  });
+
+  it("should keep paths with invalid percent escapes", () => {
+    expect(pathToCaseId("https://x.com/sale-50%-off")).toBe("sale-50-off");
+  });
+});
+
+describe("createPathMatcher", () => {
+  it("should match paths against include and exclude patterns", () => {
+    const matches = createPathMatcher({
+      include: ["/", "/blog/**"],
+      exclude: "/blog/drafts/**",
+    });
+
+    expect(matches("http://example.com/")).toBe(true);
+    expect(matches("http://example.com/blog/one?page=2")).toBe(true);
+    expect(matches("http://example.com/blog/drafts/two")).toBe(false);
+    expect(matches("http://example.com/about")).toBe(false);
+    expect(matches("not a url")).toBe(false);
+  });
+
+  it("should match every path without patterns", () => {
+    expect(createPathMatcher({})("http://example.com/anything")).toBe(true);
+  });
+});
+
+describe("toPathUrlConfigs", () => {
+  it("should suffix colliding IDs", () => {
+    expect(
+      toPathUrlConfigs(
+        [
+          "http://example.com/about",
+          "http://example.com/about.html",
+          "http://example.com/",
+        ],
+        ["index"]
+      )
+    ).toEqual([
+      { id: "about", url: "http://example.com/about" },
+      { id: "about-2", url: "http://example.com/about.html" },
+      { id: "index-2", url: "http://example.com/" },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Path helpers for discovered URLs
+ *
+ * Shared by sitemap and crawler discovery: matching page paths against
+ * include/exclude patterns and deriving stable test case IDs from paths.
+ */
+
+import { minimatch } from "minimatch";
+
+import type { UrlConfig } from "./validation";
+
+/**
+ * Normalizes a single pattern or list of patterns, dropping empty entries.
+ */
+function toPatternList(value: string | string[] | undefined): string[] {
+  return (Array.isArray(value) ? value : value ? [value] : []).filter(
+    pattern => pattern !== ""
+  );
+}
+
+/**
+ * Creates a predicate that matches the path of a page URL against include and
+ * exclude patterns (minimatch, e.g. `"/blog/**"`). Invalid URLs never match.
+ */
+export function createPathMatcher(options: {
+  include?: string | string[];
+  exclude?: string | string[];
+}): (pageUrl: string) => boolean {
+  const includePatterns = toPatternList(options.include);
+  const excludePatterns = toPatternList(options.exclude);
+
+  return (pageUrl: string) => {
+    let pathname: string;
+    try {
+      pathname = new URL(pageUrl).pathname;
+    } catch {
+      return false;
+    }
+    if (
+      includePatterns.length > 0 &&
+      !includePatterns.some(pattern => minimatch(pathname, pattern))
+    ) {
+      return false;
+    }
+    return !excludePatterns.some(pattern => minimatch(pathname, pattern));
+  };
+}
+
+/**
+ * Derives a stable test case ID from the path (and query) of a page URL.
+ * `/` becomes `index`, `/pricing/teams/` becomes `pricing-teams`.
+ */
+export function pathToCaseId(pageUrl: string): string {
+  const { pathname, search } = new URL(pageUrl);
+  const path = `${pathname}${search}`;
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // A stray "%" (e.g. /sale-50%-off) is not a valid escape; keep it as is
+    decoded = path;
+  }
+  const id = decoded
+    .toLowerCase()
+    .replace(/\.html?$/, "")
+    .replace(/[^a-z0-9_]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return id || "index";
+}
+
+/**
+ * Converts page URLs into URL configs with path-derived IDs.
+ * IDs that collide, with each other or with `takenIds`, get a numeric suffix.
+ * @param pageUrls - Page URLs in discovery order
+ * @param takenIds - IDs already used by other URL configs
+ */
+export function toPathUrlConfigs(
+  pageUrls: string[],
+  takenIds: Iterable<string> = []
+): UrlConfig[] {
+  const usedIds = new Set(takenIds);
+  return pageUrls.map(pageUrl => {
+    const baseId = pathToCaseId(pageUrl);
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+    return { id, url: pageUrl };
+  });
+}
@@ -0,0 +1,167 @@
+import { gzipSync } from "node:zlib";
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { loadSitemapUrls, parseSitemap } from "./sitemap";
+
+/**
+ * Builds a `<urlset>` document for the given page URLs.
+ */
+const urlset = (urls: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map(url => `  <url><loc>${url}</loc></url>`).join("\n")}
+</urlset>`;
+
+describe("parseSitemap", () => {
+  it("should parse page locations of a urlset", () => {
+    const xml = `<urlset>
+      <url><loc> http://example.com/ </loc><lastmod>2024-01-01</lastmod></url>
+      <url><loc><![CDATA[http://example.com/search?q=a&b=c]]></loc></url>
+      <url><loc>http://example.com/?a=1&amp;b=2</loc></url>
+    </urlset>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      urls: [
+        "http://example.com/",
+        "http://example.com/search?q=a&b=c",
+        "http://example.com/?a=1&b=2",
+      ],
+      sitemaps: [],
+    });
+  });
+
+  it("should parse child sitemaps of a sitemap index", () => {
+    const xml = `<sm:sitemapindex xmlns:sm="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sm:sitemap><sm:loc>http://example.com/pages.xml</sm:loc></sm:sitemap>
+      <sm:sitemap><sm:loc>http://example.com/blog.xml</sm:loc></sm:sitemap>
+    </sm:sitemapindex>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      urls: [],
+      sitemaps: ["http://example.com/pages.xml", "http://example.com/blog.xml"],
+    });
+  });
+});
+
+describe("loadSitemapUrls", () => {
+  const documents = new Map<string, string | Uint8Array>();
+  const fetchMock = vi.fn(async (url: string) => {
+    const body = documents.get(url);
+    return body === undefined
+      ? new Response("Not found", { status: 404 })
+      : new Response(typeof body === "string" ? body : new Uint8Array(body));
+  });
+
+  beforeEach(() => {
+    documents.clear();
+    fetchMock.mockClear();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should convert sitemap pages into URL configs", async () => {
+    documents.set(
+      "http://example.com/sitemap.xml",
+      urlset(["http://example.com/", "http://example.com/about/"])
+    );
+
+    await expect(
+      loadSitemapUrls({ url: "http://example.com/sitemap.xml" })
+    ).resolves.toEqual([
+      { id: "index", url: "http://example.com/" },
+      { id: "about", url: "http://example.com/about/" },
+    ]);
+  });
+
+  it("should follow sitemap indexes, including relative and gzipped sitemaps", async () => {
+    documents.set(
+      "http://example.com/sitemap.xml",
+      `<sitemapindex>
+        <sitemap><loc>http://example.com/pages.xml</loc></sitemap>
+        <sitemap><loc>/blog.xml.gz</loc></sitemap>
+      </sitemapindex>`
+    );
+    documents.set(
+      "http://example.com/pages.xml",
+      urlset(["http://example.com/", "http://example.com/blog/one"])
+    );
+    documents.set(
+      "http://example.com/blog.xml.gz",
+      gzipSync(
+        urlset(["http://example.com/blog/one", "http://example.com/blog/two"])
+      )
+    );
+
+    const urls = await loadSitemapUrls({
+      url: "http://example.com/sitemap.xml",
+    });
+
+    expect(urls.map(url => url.id)).toEqual(["index", "blog-one", "blog-two"]);
+  });
+
+  it("should filter pages by path", async () => {
+    documents.set(
+      "http://example.com/sitemap.xml",
+      urlset([
+        "http://example.com/",
+        "http://example.com/blog/one",
+        "http://example.com/blog/drafts/two",
+      ])
+    );
+
+    const urls = await loadSitemapUrls({
+      url: "http://example.com/sitemap.xml",
+      include: "/blog/**",
+      exclude: ["/blog/drafts/**"],
+    });
+
+    expect(urls).toEqual([
+      { id: "blog-one", url: "http://example.com/blog/one" },
+    ]);
+  });
+
+  it("should cap the number of URLs and warn", async () => {
+    const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    documents.set(
+      "http://example.com/sitemap.xml",
+      urlset(["a", "b", "c"].map(page => `http://example.com/${page}`))
+    );
+
+    const urls = await loadSitemapUrls({
+      url: "http://example.com/sitemap.xml",
+      maxUrls: 2,
+    });
+
+    expect(urls.map(url => url.id)).toEqual(["a", "b"]);
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Sitemap http://example.com/sitemap.xml has more than 2 matching URLs; only the first 2 are tested"
+    );
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should keep IDs unique when paths slugify to the same ID", async () => {
+    documents.set(
+      "http://example.com/sitemap.xml",
+      urlset(["http://example.com/about", "http://example.com/about.html"])
+    );
+
+    const urls = await loadSitemapUrls({
+      url: "http://example.com/sitemap.xml",
+    });
+
+    expect(urls.map(url => url.id)).toEqual(["about", "about-2"]);
+  });
+
+  it("should throw when a sitemap cannot be fetched", async () => {
+    await expect(
+      loadSitemapUrls({ url: "http://example.com/missing.xml" })
+    ).rejects.toThrow(
+      "Failed to fetch sitemap http://example.com/missing.xml: HTTP 404"
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Sitemap discovery for URL adapter
+ *
+ * Fetches a `sitemap.xml` or sitemap index and turns its entries into URL
+ * configurations with stable IDs derived from the page paths.
+ */
+
+import { gunzipSync } from "node:zlib";
+
+import { createPathMatcher, toPathUrlConfigs } from "./paths";
+import type { UrlConfig } from "./validation";
+
+/** Default maximum number of URLs taken from a sitemap */
+export const DEFAULT_SITEMAP_MAX_URLS = 500;
+/** Timeout for fetching a single sitemap file */
+const SITEMAP_FETCH_TIMEOUT_MS = 30000;
+/** Maximum nesting of sitemap indexes that is followed */
+const MAX_SITEMAP_INDEX_DEPTH = 3;
+
+/**
+ * Sitemap discovery configuration
+ * @property url - Absolute URL of a `sitemap.xml` or sitemap index
+ * @property include - Minimatch pattern(s) matched against page paths (e.g. `"/blog/**"`)
+ * @property exclude - Minimatch pattern(s) of page paths to skip
+ * @property maxUrls - Maximum number of URLs to test (default: 500)
+ */
+export interface SitemapConfig {
+  url: string;
+  include?: string | string[];
+  exclude?: string | string[];
+  maxUrls?: number;
+}
+
+/**
+ * Parsed sitemap document
+ * @property urls - Page locations of a `<urlset>`
+ * @property sitemaps - Child sitemap locations of a `<sitemapindex>`
+ */
+export interface ParsedSitemap {
+  urls: string[];
+  sitemaps: string[];
+}
+
+/**
+ * Decodes XML entities and CDATA sections in a `<loc>` value.
+ */
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Extracts the `<loc>` values of all `<tag>` elements of a sitemap document.
+ */
+function extractLocations(xml: string, tag: "url" | "sitemap"): string[] {
+  const locations: string[] = [];
+  const elementRegex = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`,
+    "gi"
+  );
+  for (const [, body] of xml.matchAll(elementRegex)) {
+    const loc = /<(?:[\w-]+:)?loc\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?loc>/i.exec(
+      body
+    );
+    if (loc) {
+      const value = decodeXmlText(loc[1]);
+      if (value) locations.push(value);
+    }
+  }
+  return locations;
+}
+
+/**
+ * Parses a sitemap (`<urlset>`) or sitemap index (`<sitemapindex>`) document.
+ * @param xml - Sitemap XML
+ * @returns Page and child sitemap locations in document order
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  if (/<(?:[\w-]+:)?sitemapindex\b/i.test(xml)) {
+    return { urls: [], sitemaps: extractLocations(xml, "sitemap") };
+  }
+  return { urls: extractLocations(xml, "url"), sitemaps: [] };
+}
+
+/**
+ * Fetches a sitemap file, decompressing `.gz` sitemaps.
+ */
+async function fetchSitemap(url: string): Promise<string> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(SITEMAP_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sitemap ${url}: HTTP ${response.status}`);
+  }
+  if (new URL(url).pathname.endsWith(".gz")) {
+    return gunzipSync(Buffer.from(await response.arrayBuffer())).toString(
+      "utf8"
+    );
+  }
+  return await response.text();
+}
+
+/**
+ * Fetches a sitemap (following sitemap indexes) and converts its pages into URL configs.
+ * Pages are filtered by path with `include`/`exclude` and capped at `maxUrls`,
+ * in sitemap order. IDs that collide after slugifying get a numeric suffix.
+ * @param config - Sitemap configuration
+ * @returns URL configurations for the selected pages
+ * @throws {Error} If a sitemap cannot be fetched
+ */
+export async function loadSitemapUrls(
+  config: SitemapConfig
+): Promise<UrlConfig[]> {
+  const matchesPath = createPathMatcher(config);
+  const maxUrls = config.maxUrls ?? DEFAULT_SITEMAP_MAX_URLS;
+
+  const pages: string[] = [];
+  const seenPages = new Set<string>();
+  const visitedSitemaps = new Set<string>();
+  let truncated = false;
+
+  const visit = async (sitemapUrl: string, depth: number): Promise<void> => {
+    if (visitedSitemaps.has(sitemapUrl) || depth > MAX_SITEMAP_INDEX_DEPTH) {
+      return;
+    }
+    visitedSitemaps.add(sitemapUrl);
+
+    const { urls, sitemaps } = parseSitemap(await fetchSitemap(sitemapUrl));
+    for (const pageUrl of urls) {
+      if (seenPages.has(pageUrl) || !matchesPath(pageUrl)) continue;
+      if (pages.length >= maxUrls) {
+        truncated = true;
+        return;
+      }
+      seenPages.add(pageUrl);
+      pages.push(pageUrl);
+    }
+    for (const child of sitemaps) {
+      if (pages.length >= maxUrls) return;
+      await visit(new URL(child, sitemapUrl).toString(), depth + 1);
+    }
+  };
+
+  await visit(config.url, 0);
+
+  if (truncated) {
+    console.warn(
+      `Sitemap ${config.url} has more than ${maxUrls} matching URLs; only the first ${maxUrls} are tested`
+    );
+  }
+
+  return toPathUrlConfigs(pages);
+}
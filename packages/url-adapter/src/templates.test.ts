@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+
+import { createTestUrlConfig } from "./__mocks__/url-test-helpers";
+import {
+  expandUrlTemplate,
+  expandUrlTemplates,
+  getTemplatePlaceholders,
+} from "./templates";
+
+describe("getTemplatePlaceholders", () => {
+  it("should list each placeholder once in order", () => {
+    expect(
+      getTemplatePlaceholders(
+        "http://localhost:3000/{lang}/products/{sku}?lang={lang}"
+      )
+    ).toEqual(["lang", "sku"]);
+    expect(getTemplatePlaceholders("http://localhost:3000/")).toEqual([]);
+  });
+});
+
+describe("expandUrlTemplate", () => {
+  it("should return configs without params unchanged", () => {
+    const urlConfig = createTestUrlConfig({ id: "home" });
+    expect(expandUrlTemplate(urlConfig)).toEqual([urlConfig]);
+  });
+
+  it("should expand the cartesian product with deterministic IDs", () => {
+    const result = expandUrlTemplate({
+      id: "product",
+      url: "http://localhost:3000/products/{sku}?lang={lang}",
+      title: "Product",
+      params: { sku: ["A-1", "b 2"], lang: ["en", "fr"] },
+    });
+
+    expect(result).toEqual([
+      {
+        id: "product-sku-A-1_lang-en",
+        url: "http://localhost:3000/products/A-1?lang=en",
+        title: "Product (sku=A-1, lang=en)",
+      },
+      {
+        id: "product-sku-A-1_lang-fr",
+        url: "http://localhost:3000/products/A-1?lang=fr",
+        title: "Product (sku=A-1, lang=fr)",
+      },
+      {
+        id: "product-sku-b-2_lang-en",
+        url: "http://localhost:3000/products/b%202?lang=en",
+        title: "Product (sku=b 2, lang=en)",
+      },
+      {
+        id: "product-sku-b-2_lang-fr",
+        url: "http://localhost:3000/products/b%202?lang=fr",
+        title: "Product (sku=b 2, lang=fr)",
+      },
+    ]);
+  });
+
+  it("should apply matching overrides in order", () => {
+    const result = expandUrlTemplate({
+      id: "page",
+      url: "http://localhost:3000/{lang}?dark={dark}",
+      threshold: 0.1,
+      elementsToMask: [".clock"],
+      params: { lang: ["en", "ar"], dark: [false, true] },
+      overrides: [
+        { when: { lang: "ar" }, threshold: 0.3 },
+        {
+          when: { lang: "ar", dark: true },
+          elementsToMask: [".clock", ".rtl-banner"],
+          interactions: [{ type: "click", selector: "#theme" }],
+        },
+      ],
+    });
+
+    expect(
+      result.map(({ id, threshold, elementsToMask, interactions }) => ({
+        id,
+        threshold,
+        elementsToMask,
+        interactions,
+      }))
+    ).toEqual([
+      {
+        id: "page-lang-en_dark-false",
+        threshold: 0.1,
+        elementsToMask: [".clock"],
+        interactions: undefined,
+      },
+      {
+        id: "page-lang-en_dark-true",
+        threshold: 0.1,
+        elementsToMask: [".clock"],
+        interactions: undefined,
+      },
+      {
+        id: "page-lang-ar_dark-false",
+        threshold: 0.3,
+        elementsToMask: [".clock"],
+        interactions: undefined,
+      },
+      {
+        id: "page-lang-ar_dark-true",
+        threshold: 0.3,
+        elementsToMask: [".clock", ".rtl-banner"],
+        interactions: [{ type: "click", selector: "#theme" }],
+      },
+    ]);
+    expect(result[0]).not.toHaveProperty("params");
+    expect(result[0]).not.toHaveProperty("overrides");
+  });
+});
+
+describe("expandUrlTemplates", () => {
+  it("should keep the order of the list", () => {
+    const result = expandUrlTemplates([
+      createTestUrlConfig({ id: "home", url: "http://localhost:3000/" }),
+      {
+        id: "search",
+        url: "http://localhost:3000/search?q={q}",
+        params: { q: ["shoes", "hats"] },
+      },
+    ]);
+
+    expect(result.map(urlConfig => urlConfig.id)).toEqual([
+      "home",
+      "search-q-shoes",
+      "search-q-hats",
+    ]);
+  });
+});
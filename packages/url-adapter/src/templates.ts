@@ -0,0 +1,91 @@
+/**
+ * @fileoverview URL templates for URL adapter
+ *
+ * Expands URL configurations with a `params` matrix, such as
+ * `http://localhost:3000/products/{sku}?lang={lang}`, into one URL
+ * configuration per combination of parameter values.
+ */
+
+import type { UrlConfig, UrlParamValue } from "./validation";
+
+const PLACEHOLDER_REGEX = /\{([a-zA-Z0-9_]+)\}/g;
+
+/**
+ * Lists the placeholder names used in a URL template, in order of appearance.
+ */
+export function getTemplatePlaceholders(url: string): string[] {
+  return [...new Set(Array.from(url.matchAll(PLACEHOLDER_REGEX), m => m[1]))];
+}
+
+/**
+ * Turns a parameter name or value into a string that is safe in IDs and filenames.
+ */
+function toParamSlug(value: unknown): string {
+  return String(value)
+    .replace(/[^a-zA-Z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Lists every combination of parameter values. Parameters vary in the order they
+ * are declared, the last one fastest, so the result is deterministic.
+ */
+function combineParams(
+  params: Record<string, UrlParamValue[]>
+): Record<string, UrlParamValue>[] {
+  let combinations: Record<string, UrlParamValue>[] = [{}];
+  for (const [key, values] of Object.entries(params)) {
+    combinations = combinations.flatMap(combination =>
+      values.map(value => ({ ...combination, [key]: value }))
+    );
+  }
+  return combinations;
+}
+
+/**
+ * Expands a URL configuration with `params` into one configuration per
+ * combination of values. IDs get a suffix listing each parameter and its value,
+ * e.g. `product-sku-123_lang-fr`. Placeholders are replaced with URL-encoded
+ * values, and matching `overrides` are applied in order.
+ * @param urlConfig - URL configuration, possibly a template
+ * @returns Expanded configurations, or the configuration itself without `params`
+ */
+export function expandUrlTemplate(urlConfig: UrlConfig): UrlConfig[] {
+  const { params, overrides, ...base } = urlConfig;
+  if (!params) return [urlConfig];
+
+  return combineParams(params).map(combination => {
+    const suffix = Object.entries(combination)
+      .map(([key, value]) => `${toParamSlug(key)}-${toParamSlug(value)}`)
+      .join("_");
+    const expanded: UrlConfig = {
+      ...base,
+      id: `${base.id}-${suffix}`,
+      url: base.url.replace(PLACEHOLDER_REGEX, (placeholder, key: string) =>
+        key in combination
+          ? encodeURIComponent(String(combination[key]))
+          : placeholder
+      ),
+      ...(base.title && {
+        title: `${base.title} (${Object.entries(combination)
+          .map(([key, value]) => `${key}=${value}`)
+          .join(", ")})`,
+      }),
+    };
+
+    for (const { when, ...fields } of overrides ?? []) {
+      const matches = Object.entries(when).every(
+        ([key, value]) => combination[key] === value
+      );
+      if (matches) Object.assign(expanded, fields);
+    }
+    return expanded;
+  });
+}
+
+/**
+ * Expands every URL template in a list, keeping the order of the list.
+ */
+export function expandUrlTemplates(urlConfigs: UrlConfig[]): UrlConfig[] {
+  return urlConfigs.flatMap(expandUrlTemplate);
+}
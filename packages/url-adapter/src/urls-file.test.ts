@@ -0,0 +1,147 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { loadUrlsFile } from "./urls-file";
+
+describe("loadUrlsFile", () => {
+  let dir: string;
+
+  /**
+   * Writes a URLs file into the temporary directory and returns its path.
+   */
+  const writeUrlsFile = (name: string, content: string) => {
+    const filePath = join(dir, name);
+    writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "visnap-urls-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load a JSON list", () => {
+    const filePath = writeUrlsFile(
+      "urls.json",
+      JSON.stringify(
+        [
+          { id: "home", url: "http://localhost:3000/" },
+          {
+            id: "pricing",
+            url: "http://localhost:3000/pricing",
+            viewport: { width: 375, height: 667 },
+          },
+        ],
+        null,
+        2
+      )
+    );
+
+    expect(loadUrlsFile(filePath)).toEqual([
+      { id: "home", url: "http://localhost:3000/" },
+      {
+        id: "pricing",
+        url: "http://localhost:3000/pricing",
+        viewport: { width: 375, height: 667 },
+      },
+    ]);
+  });
+
+  it("should load a YAML document with a urls list", () => {
+    const filePath = writeUrlsFile(
+      "urls.yaml",
+      `# Marketing pages
+urls:
+  - id: home
+    url: http://localhost:3000/
+    elementsToMask: [".ad"]
+  - id: about
+    url: http://localhost:3000/about
+    interactions:
+      - type: click
+        selector: button.cta
+`
+    );
+
+    expect(loadUrlsFile(filePath)).toEqual([
+      { id: "home", url: "http://localhost:3000/", elementsToMask: [".ad"] },
+      {
+        id: "about",
+        url: "http://localhost:3000/about",
+        interactions: [{ type: "click", selector: "button.cta" }],
+      },
+    ]);
+  });
+
+  it("should load a CSV file with typed and nested columns", () => {
+    const filePath = writeUrlsFile(
+      "urls.csv",
+      [
+        "id,url,title,threshold,fullPage,elementsToMask,viewport.width,viewport.height",
+        'home,http://localhost:3000/,"Home, sweet home",0.05,true,.ad|#banner,1280,720',
+        "",
+        "about,http://localhost:3000/about,,,,,,",
+      ].join("\r\n")
+    );
+
+    expect(loadUrlsFile(filePath)).toEqual([
+      {
+        id: "home",
+        url: "http://localhost:3000/",
+        title: "Home, sweet home",
+        threshold: 0.05,
+        fullPage: true,
+        elementsToMask: [".ad", "#banner"],
+        viewport: { width: 1280, height: 720 },
+      },
+      { id: "about", url: "http://localhost:3000/about" },
+    ]);
+  });
+
+  it("should report every invalid row with its line number", () => {
+    const jsonPath = writeUrlsFile(
+      "urls.json",
+      `[
+  { "id": "home", "url": "http://localhost:3000/" },
+  { "id": "", "url": "http://localhost:3000/empty" },
+  { "id": "relative", "url": "/about" }
+]`
+    );
+    expect(() => loadUrlsFile(jsonPath)).toThrow(
+      `Invalid URL config in ${jsonPath}:\n` +
+        "  line 3: id must be non-empty\n" +
+        "  line 4: URL '/about' is not a valid HTTP/HTTPS URL"
+    );
+
+    const csvPath = writeUrlsFile(
+      "urls.csv",
+      'id,url,title,fullPage\nhome,http://localhost:3000/,"Multi\nline",yes\n,http://localhost:3000/about,,\n'
+    );
+    expect(() => loadUrlsFile(csvPath)).toThrow(
+      `Invalid URL config in ${csvPath}:\n` +
+        '  line 2: fullPage must be boolean (was "yes")\n' +
+        "  line 4: id must be a string (was missing)"
+    );
+  });
+
+  it("should reject unreadable, unparsable and unsupported files", () => {
+    expect(() => loadUrlsFile(join(dir, "missing.json"))).toThrow(
+      `Failed to read URLs file ${join(dir, "missing.json")}`
+    );
+    expect(() => loadUrlsFile(writeUrlsFile("urls.txt", ""))).toThrow(
+      "Unsupported URLs file format '.txt'. Use .json, .yaml, .yml or .csv"
+    );
+    expect(() =>
+      loadUrlsFile(writeUrlsFile("urls.yml", "urls: [unclosed"))
+    ).toThrow("Failed to parse URLs file");
+    expect(() =>
+      loadUrlsFile(writeUrlsFile("urls.json", '{ "pages": [] }'))
+    ).toThrow('must contain a list of URLs or a "urls" list');
+  });
+});
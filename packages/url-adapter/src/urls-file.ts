@@ -0,0 +1,199 @@
+/**
+ * @fileoverview External URL manifests for URL adapter
+ *
+ * Loads URL configurations from JSON, YAML or CSV files so page lists can be
+ * maintained outside of `visnap.config.ts`. Every row is validated and errors
+ * point at the line the row starts on.
+ */
+
+import { readFileSync } from "node:fs";
+import { extname, resolve } from "node:path";
+
+import { isMap, isNode, isSeq, LineCounter, parseDocument } from "yaml";
+
+import type { UrlConfig, UrlConfigRow } from "./validation";
+import { validateUrlConfigRows } from "./validation";
+
+// CSV columns holding numbers, booleans and `|`-separated lists
+const CSV_NUMBER_COLUMNS = new Set([
+  "threshold",
+  "maxDiffPercentage",
+  "maxDiffPixels",
+  "captureTimeoutMs",
+  "viewport.width",
+  "viewport.height",
+  "viewport.deviceScaleFactor",
+  "clip.x",
+  "clip.y",
+  "clip.width",
+  "clip.height",
+]);
+const CSV_BOOLEAN_COLUMNS = new Set(["fullPage", "disableCSSInjection"]);
+const CSV_LIST_COLUMNS = new Set(["elementsToMask"]);
+
+/**
+ * Reads the rows of a JSON or YAML document. The document is either a list of
+ * URL configs or an object with a `urls` list. JSON is parsed as YAML, which
+ * is a superset of it, to keep line numbers for every row.
+ */
+function parseStructuredRows(content: string, source: string): UrlConfigRow[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length > 0) {
+    throw new Error(
+      `Failed to parse URLs file ${source}: ${doc.errors[0].message}`
+    );
+  }
+
+  const list = isMap(doc.contents)
+    ? doc.contents.get("urls", true)
+    : doc.contents;
+  if (!isSeq(list)) {
+    throw new Error(
+      `URLs file ${source} must contain a list of URLs or a "urls" list`
+    );
+  }
+
+  return list.items.map(item => ({
+    line:
+      isNode(item) && item.range
+        ? lineCounter.linePos(item.range[0]).line
+        : undefined,
+    value: isNode(item) ? item.toJS(doc) : item,
+  }));
+}
+
+/**
+ * Splits CSV content into records of cells (RFC 4180 quoting), each with the
+ * line it starts on. Blank lines are skipped.
+ */
+function parseCsvRecords(content: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== "") {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  const text = content.replace(/^\uFEFF/, "");
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRecord();
+
+  return records;
+}
+
+/**
+ * Converts a CSV cell to the type of its column.
+ * Values that cannot be converted are kept as strings for validation to report.
+ */
+function toCsvValue(column: string, raw: string): unknown {
+  const value = raw.trim();
+  if (CSV_NUMBER_COLUMNS.has(column)) {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+  if (CSV_BOOLEAN_COLUMNS.has(column)) {
+    return value === "true" ? true : value === "false" ? false : value;
+  }
+  if (CSV_LIST_COLUMNS.has(column)) {
+    return value
+      .split("|")
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+  return value;
+}
+
+/**
+ * Reads the rows of a CSV file with a header row. Dotted headers such as
+ * `viewport.width` build nested objects; empty cells are left out.
+ */
+function parseCsvRows(content: string, source: string): UrlConfigRow[] {
+  const [header, ...records] = parseCsvRecords(content);
+  if (!header) {
+    throw new Error(`URLs file ${source} is empty`);
+  }
+  const columns = header.cells.map(column => column.trim());
+
+  return records.map(({ line, cells }) => {
+    const value: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const cell = cells[index];
+      if (!column || cell === undefined || cell.trim() === "") return;
+
+      const [key, nestedKey] = column.split(".");
+      if (nestedKey === undefined) {
+        value[key] = toCsvValue(column, cell);
+        return;
+      }
+      const nested = (value[key] ??= {}) as Record<string, unknown>;
+      nested[nestedKey] = toCsvValue(column, cell);
+    });
+    return { line, value };
+  });
+}
+
+/**
+ * Loads URL configurations from a JSON, YAML or CSV file.
+ * The format is picked by file extension (`.json`, `.yaml`/`.yml`, `.csv`).
+ * @param filePath - Path to the file, relative to the working directory
+ * @returns Validated URL configurations in file order
+ * @throws {Error} If the file cannot be read or parsed, or any row is invalid
+ */
+export function loadUrlsFile(filePath: string): UrlConfig[] {
+  const extension = extname(filePath).toLowerCase();
+  if (![".json", ".yaml", ".yml", ".csv"].includes(extension)) {
+    throw new Error(
+      `Unsupported URLs file format '${extension || filePath}'. Use .json, .yaml, .yml or .csv`
+    );
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(resolve(filePath), "utf8");
+  } catch (error) {
+    throw new Error(
+      `Failed to read URLs file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const rows =
+    extension === ".csv"
+      ? parseCsvRows(content, filePath)
+      : parseStructuredRows(content, filePath);
+  return validateUrlConfigRows(rows, filePath);
+}
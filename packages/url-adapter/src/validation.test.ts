@@ -111,6 +111,46 @@ describe("validateUrlConfig", () => {
     );
   });
 
+  it("should accept URL templates with params and overrides", () => {
+    const config = {
+      id: "product",
+      url: "http://localhost:3000/products/{sku}?lang={lang}",
+      params: { sku: ["a1", 2], lang: ["en", "fr"] },
+      overrides: [{ when: { lang: "fr" }, threshold: 0.2 }],
+    };
+    expect(validateUrlConfig(config)).toEqual(config);
+  });
+
+  it("should validate URL template params", () => {
+    expectToThrowWithMessage(
+      () =>
+        validateUrlConfig({
+          id: "product",
+          url: "http://localhost:3000/products/{sku}",
+        }),
+      "URL 'product' uses {sku} but params has no 'sku'"
+    );
+    expectToThrowWithMessage(
+      () =>
+        validateUrlConfig({
+          id: "product",
+          url: "http://localhost:3000/products/{sku}",
+          params: { sku: [] },
+        }),
+      "URL 'product' param 'sku' must list at least one value"
+    );
+    expectToThrowWithMessage(
+      () =>
+        validateUrlConfig({
+          id: "product",
+          url: "http://localhost:3000/products/{sku}",
+          params: { sku: ["a1"] },
+          overrides: [{ when: { lang: "fr" }, threshold: 0.2 }],
+        }),
+      "URL 'product' override uses 'lang' but params has no 'lang'"
+    );
+  });
+
   it("should validate viewport dimensions", () => {
     const config = createTestUrlConfig({
       id: "test",
@@ -171,6 +211,87 @@ describe("validateUrlConfig", () => {
     );
   });
 
+  it("should reject malformed ignoreRegions", () => {
+    const config = createTestUrlConfig({
+      id: "test",
+      url: "http://localhost:3000",
+      ignoreRegions: [{ x: 0, y: 0, width: 0, height: 10 }],
+    });
+    expect(() => validateUrlConfig(config)).toThrow("Invalid URL config");
+  });
+
+  it("should reject a clip without a positive size", () => {
+    const config = createTestUrlConfig({
+      id: "test",
+      url: "http://localhost:3000",
+      clip: { x: 0, y: 0, width: 100, height: 0 },
+    });
+    expect(() => validateUrlConfig(config)).toThrow("Invalid URL config");
+  });
+
+  it("should reject a non-positive captureTimeoutMs", () => {
+    const config = createTestUrlConfig({
+      id: "test",
+      url: "http://localhost:3000",
+      captureTimeoutMs: 0,
+    });
+    expect(() => validateUrlConfig(config)).toThrow("Invalid URL config");
+  });
+
+  it("should accept route rules and HAR replay", () => {
+    const config = createTestUrlConfig({
+      id: "test",
+      url: "http://localhost:3000",
+      routes: [
+        { url: "**/api/prices", json: { price: 10 } },
+        { url: "**/tracking/**", status: 204 },
+      ],
+      har: { path: "fixtures/test.har", notFound: "fallback" },
+    });
+    expect(() => validateUrlConfig(config)).not.toThrow();
+  });
+
+  it("should reject invalid route rules", () => {
+    const config = createTestUrlConfig({
+      id: "test",
+      url: "http://localhost:3000",
+      routes: [{ url: "**/api/prices", status: 1000 }],
+    });
+    expect(() => validateUrlConfig(config)).toThrow("Invalid URL config");
+  });
+
+  it("should accept determinism settings or false", () => {
+    const config = createTestUrlConfig({
+      id: "test",
+      url: "http://localhost:3000",
+      determinism: { now: "2025-01-01T09:00:00Z", seed: 7, timezoneId: "UTC" },
+    });
+    expect(() => validateUrlConfig(config)).not.toThrow();
+    expect(() =>
+      validateUrlConfig({ ...config, determinism: false })
+    ).not.toThrow();
+    expect(() =>
+      validateUrlConfig({ ...config, determinism: { seed: "abc" } })
+    ).toThrow("Invalid URL config");
+  });
+
+  it("should accept waitFor and readiness conditions", () => {
+    const config = createTestUrlConfig({
+      id: "test",
+      url: "http://localhost:3000",
+      waitFor: 500,
+      readiness: {
+        images: true,
+        predicate: () => document.readyState === "complete",
+        domStableMs: 200,
+      },
+    });
+    expect(() => validateUrlConfig(config)).not.toThrow();
+    expect(() =>
+      validateUrlConfig({ ...config, readiness: { domStableMs: -1 } })
+    ).toThrow("Invalid URL config");
+  });
+
   it("should validate deviceScaleFactor is positive", () => {
     const config = createTestUrlConfig({
       id: "test",
@@ -193,6 +314,12 @@ describe("validateUrlConfig", () => {
       disableCSSInjection: true,
       interactions: [{ type: "click", selector: "button" }],
       elementsToMask: [".header", ".footer"],
+      ignoreRegions: [
+        { x: 0, y: 0, width: 100, height: 20 },
+        { selector: ".clock" },
+      ],
+      fullPage: true,
+      clip: { x: 0, y: 0, width: 800, height: 600 },
       viewport: { width: 1920, height: 1080, deviceScaleFactor: 2 },
     });
 
@@ -206,6 +333,12 @@ describe("validateUrlConfig", () => {
       { type: "click", selector: "button" },
     ]);
     expect(result.elementsToMask).toEqual([".header", ".footer"]);
+    expect(result.ignoreRegions).toEqual([
+      { x: 0, y: 0, width: 100, height: 20 },
+      { selector: ".clock" },
+    ]);
+    expect(result.fullPage).toBe(true);
+    expect(result.clip).toEqual({ x: 0, y: 0, width: 800, height: 600 });
     expect(result.viewport?.deviceScaleFactor).toBe(2);
   });
 });
@@ -218,10 +351,10 @@ describe("validateCreateUrlAdapterOptions", () => {
     expect(result.urls).toHaveLength(5);
   });
 
-  it("should require urls field", () => {
+  it("should require urls or a sitemap", () => {
     expectToThrowWithMessage(
       () => validateCreateUrlAdapterOptions({} as any),
-      "Invalid URL adapter options: urls must be an array (was missing)"
+      "At least one URL must be provided (via urls, urlsFile, sitemap or crawl.url)"
     );
   });
 
@@ -239,6 +372,72 @@ describe("validateCreateUrlAdapterOptions", () => {
     );
   });
 
+  it("should accept a sitemap without urls", () => {
+    expect(
+      validateCreateUrlAdapterOptions({
+        sitemap: "http://localhost:3000/sitemap.xml",
+      }).sitemap
+    ).toBe("http://localhost:3000/sitemap.xml");
+
+    const sitemap = {
+      url: "http://localhost:3000/sitemap.xml",
+      include: "/blog/**",
+      maxUrls: 20,
+    };
+    expect(validateCreateUrlAdapterOptions({ sitemap }).sitemap).toEqual(
+      sitemap
+    );
+  });
+
+  it("should accept a urlsFile without urls", () => {
+    expect(
+      validateCreateUrlAdapterOptions({ urlsFile: "visnap-urls.csv" }).urlsFile
+    ).toBe("visnap-urls.csv");
+    expect(() => validateCreateUrlAdapterOptions({ urlsFile: "" })).toThrow(
+      "Invalid URL adapter options"
+    );
+  });
+
+  it("should accept crawl options", () => {
+    expect(
+      validateCreateUrlAdapterOptions({
+        crawl: { url: "http://localhost:3000/", depth: 3, maxPages: 10 },
+      }).crawl
+    ).toEqual({ url: "http://localhost:3000/", depth: 3, maxPages: 10 });
+    expect(
+      validateCreateUrlAdapterOptions(createTestAdapterOptions({ crawl: true }))
+        .crawl
+    ).toBe(true);
+  });
+
+  it("should reject invalid crawl options", () => {
+    expectToThrowWithMessage(
+      () => validateCreateUrlAdapterOptions({ crawl: true }),
+      "At least one URL must be provided (via urls, urlsFile, sitemap or crawl.url)"
+    );
+    expectToThrowWithMessage(
+      () => validateCreateUrlAdapterOptions({ crawl: { url: "/docs" } }),
+      "Crawl start '/docs' is not a valid HTTP/HTTPS URL"
+    );
+    expect(() =>
+      validateCreateUrlAdapterOptions(
+        createTestAdapterOptions({ crawl: { depth: -1 } })
+      )
+    ).toThrow("Invalid URL adapter options");
+  });
+
+  it("should reject invalid sitemap options", () => {
+    expectToThrowWithMessage(
+      () => validateCreateUrlAdapterOptions({ sitemap: "sitemap.xml" }),
+      "Sitemap 'sitemap.xml' is not a valid HTTP/HTTPS URL"
+    );
+    expect(() =>
+      validateCreateUrlAdapterOptions({
+        sitemap: { url: "http://localhost:3000/sitemap.xml", maxUrls: 0 },
+      })
+    ).toThrow("Invalid URL adapter options");
+  });
+
   it("should validate each URL config", () => {
     const options = {
       urls: [
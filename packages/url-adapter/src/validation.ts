@@ -5,9 +5,22 @@
  * and URL configurations with comprehensive error handling.
  */
 
-import type { InteractionAction, TestCaseInstanceMeta } from "@visnap/protocol";
+import type {
+  ClipRect,
+  DeterminismConfig,
+  HarReplayOptions,
+  IgnoreRegion,
+  InteractionAction,
+  NetworkRouteRule,
+  ReadinessConfig,
+  TestCaseInstanceMeta,
+} from "@visnap/protocol";
 import { type } from "arktype";
 
+import type { CrawlConfig } from "./crawler";
+import type { SitemapConfig } from "./sitemap";
+import { getTemplatePlaceholders } from "./templates";
+
 // ============= Schema Definitions =============
 
 const viewportSchema = type({
@@ -16,20 +29,101 @@ const viewportSchema = type({
   "deviceScaleFactor?": "number>0",
 });
 
+const ignoreRegionSchema = type({
+  x: "number>=0",
+  y: "number>=0",
+  width: "number>0",
+  height: "number>0",
+}).or({ selector: "string>0" });
+
+const clipSchema = type({
+  x: "number>=0",
+  y: "number>=0",
+  width: "number>0",
+  height: "number>0",
+});
+
+const routeRuleSchema = type({
+  url: "string>0",
+  "file?": "string>0",
+  "json?": "unknown",
+  "status?": "number.integer>=100&number<=599",
+  "headers?": "Record<string, string>",
+  "contentType?": "string>0",
+});
+
+const harReplaySchema = type({
+  path: "string>0",
+  "url?": "string>0",
+  "notFound?": "'abort'|'fallback'",
+});
+
+const determinismSchema = type({
+  "now?": "number|string>0",
+  "seed?": "number.integer",
+  "timezoneId?": "string>0",
+});
+
+const readinessSchema = type({
+  "networkIdle?": "boolean",
+  "fonts?": "boolean",
+  "images?": "boolean",
+  "predicate?": type("string>0").or(type("Function").as<() => unknown>()),
+  "domStableMs?": "number>0",
+  "timeoutMs?": "number>0",
+});
+
 const urlConfigSchema = type({
   id: "string>0",
   url: "string>0",
   "title?": "string",
   "screenshotTarget?": "string",
   "elementsToMask?": "string[]",
+  "ignoreRegions?": ignoreRegionSchema.array(),
+  "fullPage?": "boolean",
+  "clip?": clipSchema,
+  "captureTimeoutMs?": "number>0",
   "viewport?": viewportSchema,
   "threshold?": "number",
+  "maxDiffPercentage?": "number>=0&number<=100",
+  "maxDiffPixels?": "number.integer>=0",
   "disableCSSInjection?": "boolean",
   "interactions?": "object[]",
+  "routes?": routeRuleSchema.array(),
+  "har?": harReplaySchema.or("string>0"),
+  "determinism?": determinismSchema.or("false"),
+  "waitFor?": "string>0|number>=0",
+  "readiness?": readinessSchema,
+  "params?": { "[string]": "(string|number|boolean)[]" },
+  "overrides?": type({
+    when: { "[string]": "string|number|boolean" },
+    "threshold?": "number",
+    "interactions?": "object[]",
+    "elementsToMask?": "string[]",
+    "ignoreRegions?": ignoreRegionSchema.array(),
+  }).array(),
+});
+
+const sitemapSchema = type({
+  url: "string>0",
+  "include?": "string|string[]",
+  "exclude?": "string|string[]",
+  "maxUrls?": "number.integer>0",
+});
+
+const crawlSchema = type({
+  "url?": "string>0",
+  "depth?": "number.integer>=0",
+  "maxPages?": "number.integer>0",
+  "include?": "string|string[]",
+  "exclude?": "string|string[]",
 });
 
 const createUrlAdapterOptionsSchema = type({
-  urls: "object[]",
+  "urls?": "object[]",
+  "urlsFile?": "string>0",
+  "sitemap?": sitemapSchema.or("string>0"),
+  "crawl?": crawlSchema.or("boolean"),
   "include?": "string|string[]|undefined",
   "exclude?": "string|string[]|undefined",
 });
@@ -40,6 +134,25 @@ export type Viewport = typeof viewportSchema.infer;
 
 // ============= Type Definitions =============
 
+/** Value of a URL template parameter */
+export type UrlParamValue = string | number | boolean;
+
+/**
+ * Settings applied to the URL template combinations matching `when`
+ * @property when - Parameter values a combination must have, e.g. `{ lang: "ar" }`
+ * @property threshold - Pixel difference threshold for matching combinations
+ * @property interactions - Actions to perform before capture for matching combinations
+ * @property elementsToMask - CSS selectors to mask for matching combinations
+ * @property ignoreRegions - Regions excluded from comparison for matching combinations
+ */
+export interface UrlParamOverride {
+  when: Record<string, UrlParamValue>;
+  threshold?: number;
+  interactions?: InteractionAction[];
+  elementsToMask?: string[];
+  ignoreRegions?: IgnoreRegion[];
+}
+
 /**
  * Configuration for a single URL test case
  * @property id - Unique identifier for the URL
@@ -47,10 +160,23 @@ export type Viewport = typeof viewportSchema.infer;
  * @property title - Optional human-readable title
  * @property screenshotTarget - CSS selector for element to capture (default: "body")
  * @property elementsToMask - CSS selectors of elements to mask before capture
+ * @property ignoreRegions - Rectangles or selectors excluded from comparison
+ * @property fullPage - Capture the full scrollable page instead of the screenshot target
+ * @property clip - Capture only this area of the page (CSS pixels)
+ * @property captureTimeoutMs - Maximum capture time in milliseconds for this URL
  * @property viewport - Viewport configuration for this URL
  * @property threshold - Pixel difference threshold for this URL
+ * @property maxDiffPercentage - Maximum percentage of differing pixels that still passes
+ * @property maxDiffPixels - Maximum number of differing pixels that still passes
  * @property disableCSSInjection - Skip injecting global CSS for this URL
  * @property interactions - Actions to perform before capture
+ * @property routes - Route rules answering matching requests with fixtures
+ * @property har - HAR file (or replay options) whose recorded traffic answers requests
+ * @property determinism - Pinned time, randomness and timezone, or `false` to opt out
+ * @property waitFor - Selector or delay in milliseconds to wait for after navigation
+ * @property readiness - Conditions awaited right before capture
+ * @property params - Values for `{name}` placeholders in `url`; one case is created per combination
+ * @property overrides - Per-combination settings for URL templates
  */
 export interface UrlConfig {
   id: string;
@@ -58,20 +184,39 @@ export interface UrlConfig {
   title?: string;
   screenshotTarget?: string;
   elementsToMask?: string[];
+  ignoreRegions?: IgnoreRegion[];
+  fullPage?: boolean;
+  clip?: ClipRect;
+  captureTimeoutMs?: number;
   viewport?: Viewport;
   threshold?: number;
+  maxDiffPercentage?: number;
+  maxDiffPixels?: number;
   disableCSSInjection?: boolean;
   interactions?: InteractionAction[];
+  routes?: NetworkRouteRule[];
+  har?: string | HarReplayOptions;
+  determinism?: DeterminismConfig | false;
+  waitFor?: string | number;
+  readiness?: ReadinessConfig;
+  params?: Record<string, UrlParamValue[]>;
+  overrides?: UrlParamOverride[];
 }
 
 /**
  * Options for creating a URL adapter
  * @property urls - Array of URL configurations to test
+ * @property sitemap - Sitemap URL or configuration to discover URLs from
+ * @property urlsFile - Path to a JSON, YAML or CSV file listing URL configurations
+ * @property crawl - Follow same-origin links from the initial page to discover URLs
  * @property include - Include patterns for filtering URLs (minimatch)
  * @property exclude - Exclude patterns for filtering URLs (minimatch)
  */
 export interface CreateUrlAdapterOptions {
-  urls: UrlConfig[];
+  urls?: UrlConfig[];
+  urlsFile?: string;
+  sitemap?: string | SitemapConfig;
+  crawl?: boolean | CrawlConfig;
   include?: string | string[];
   exclude?: string | string[];
 }
@@ -107,14 +252,88 @@ export function validateUrlConfig(config: unknown): UrlConfig {
     throw new Error(`Invalid URL config: ${result.summary}`);
   }
 
-  // Additional URL format validation
-  if (!isValidUrl(result.url)) {
-    throw new Error(`URL '${result.url}' is not a valid HTTP/HTTPS URL`);
+  const problem = findUrlConfigProblem(result as UrlConfig);
+  if (problem) {
+    throw new Error(problem);
   }
 
   return result as UrlConfig;
 }
 
+/**
+ * Checks what the schema cannot: URL format and URL template parameters
+ * @returns Description of the first problem, or undefined if the config is valid
+ */
+function findUrlConfigProblem(config: UrlConfig): string | undefined {
+  if (!isValidUrl(config.url)) {
+    return `URL '${config.url}' is not a valid HTTP/HTTPS URL`;
+  }
+
+  const params = config.params ?? {};
+  for (const placeholder of getTemplatePlaceholders(config.url)) {
+    if (!(placeholder in params)) {
+      return `URL '${config.id}' uses {${placeholder}} but params has no '${placeholder}'`;
+    }
+  }
+  for (const [key, values] of Object.entries(params)) {
+    if (values.length === 0) {
+      return `URL '${config.id}' param '${key}' must list at least one value`;
+    }
+  }
+  for (const override of config.overrides ?? []) {
+    const unknownKey = Object.keys(override.when).find(key => !(key in params));
+    if (unknownKey) {
+      return `URL '${config.id}' override uses '${unknownKey}' but params has no '${unknownKey}'`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A URL configuration read from a file, with the line it starts on
+ * @property line - 1-based line number in the file, when known
+ * @property value - Raw row value
+ */
+export interface UrlConfigRow {
+  line?: number;
+  value: unknown;
+}
+
+/**
+ * Validates URL configurations read from a file, collecting every invalid row
+ * @param rows - Raw rows with their line numbers
+ * @param source - File the rows were read from, used in error messages
+ * @returns Validated URL configurations
+ * @throws {Error} Listing each invalid row with its line number
+ */
+export function validateUrlConfigRows(
+  rows: UrlConfigRow[],
+  source: string
+): UrlConfig[] {
+  const urls: UrlConfig[] = [];
+  const problems: string[] = [];
+
+  rows.forEach((row, index) => {
+    const location =
+      row.line !== undefined ? `line ${row.line}` : `entry ${index + 1}`;
+    const result = urlConfigSchema(row.value);
+    const problem =
+      result instanceof type.errors
+        ? result.summary
+        : findUrlConfigProblem(result as UrlConfig);
+    if (problem) {
+      problems.push(`  ${location}: ${problem}`);
+    } else {
+      urls.push(result as UrlConfig);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid URL config in ${source}:\n${problems.join("\n")}`);
+  }
+  return urls;
+}
+
 /**
  * Validates create URL adapter options
  * @param options - Options to validate
@@ -129,16 +348,34 @@ export function validateCreateUrlAdapterOptions(
     throw new Error(`Invalid URL adapter options: ${result.summary}`);
   }
 
-  // Validate that at least one URL is provided
-  if (result.urls.length === 0) {
-    throw new Error("At least one URL must be provided");
+  // Validate that at least one URL source is provided
+  const crawlUrl =
+    typeof result.crawl === "object" ? result.crawl.url : undefined;
+  if (
+    !result.urlsFile &&
+    !result.sitemap &&
+    !crawlUrl &&
+    (result.urls ?? []).length === 0
+  ) {
+    throw new Error(
+      "At least one URL must be provided (via urls, urlsFile, sitemap or crawl.url)"
+    );
   }
 
   // Validate each URL config
-  for (const urlConfig of result.urls as UrlConfig[]) {
+  for (const urlConfig of (result.urls ?? []) as UrlConfig[]) {
     validateUrlConfig(urlConfig);
   }
 
+  const sitemapUrl =
+    typeof result.sitemap === "string" ? result.sitemap : result.sitemap?.url;
+  if (sitemapUrl !== undefined && !isValidUrl(sitemapUrl)) {
+    throw new Error(`Sitemap '${sitemapUrl}' is not a valid HTTP/HTTPS URL`);
+  }
+  if (crawlUrl !== undefined && !isValidUrl(crawlUrl)) {
+    throw new Error(`Crawl start '${crawlUrl}' is not a valid HTTP/HTTPS URL`);
+  }
+
   return result as CreateUrlAdapterOptions;
 }
 